@@ -0,0 +1,144 @@
+import { CSSProperties, useEffect, useRef, useState } from 'react'
+import type { QuestionAnnotation } from '../data/quizData'
+
+interface AnnotatedImageProps {
+  src: string
+  alt: string
+  className?: string
+  style?: CSSProperties
+  annotations: QuestionAnnotation[]
+  showAnnotations: boolean
+}
+
+// Where the picture is drawn inside the img element, in pixels
+// object-contain can leave empty bands around it, so the overlay can't just cover the element
+interface ImageBox {
+  left: number
+  top: number
+  width: number
+  height: number
+  naturalWidth: number
+  naturalHeight: number
+}
+
+const ANNOTATION_COLOR = '#2563EB'
+
+// Screen size of strokes and arrowheads, whatever size the image is shown at
+const STROKE_PX = 3
+const ARROWHEAD_PX = 12
+
+function measureImage(image: HTMLImageElement): ImageBox | null {
+  const { naturalWidth, naturalHeight, clientWidth, clientHeight } = image
+  if (!naturalWidth || !naturalHeight || !clientWidth || !clientHeight) return null
+  const scale = Math.min(clientWidth / naturalWidth, clientHeight / naturalHeight)
+  const width = naturalWidth * scale
+  const height = naturalHeight * scale
+  return {
+    left: image.offsetLeft + (clientWidth - width) / 2,
+    top: image.offsetTop + (clientHeight - height) / 2,
+    width,
+    height,
+    naturalWidth,
+    naturalHeight,
+  }
+}
+
+// Option image with the question's boxes, arrows and labels drawn over it once the answer is shown
+// Shapes are drawn in the image's own pixel space so arrows keep their angles at any size
+export default function AnnotatedImage({
+  src,
+  alt,
+  className,
+  style,
+  annotations,
+  showAnnotations,
+}: AnnotatedImageProps) {
+  const imageRef = useRef<HTMLImageElement>(null)
+  const [box, setBox] = useState<ImageBox | null>(null)
+  const visible = showAnnotations && annotations.length > 0
+
+  useEffect(() => {
+    const image = imageRef.current
+    if (!image || !visible) return
+    const measure = () => setBox(measureImage(image))
+    measure()
+    image.addEventListener('load', measure)
+    const observer = new ResizeObserver(measure)
+    observer.observe(image)
+    return () => {
+      image.removeEventListener('load', measure)
+      observer.disconnect()
+    }
+  }, [src, visible])
+
+  // Image pixels per screen pixel, to keep strokes a constant width on screen
+  const unit = box ? box.naturalWidth / box.width : 1
+
+  return (
+    <div className="relative">
+      <img ref={imageRef} src={src} alt={alt} className={className} style={style} />
+      {visible && box && (
+        <div
+          className="absolute pointer-events-none"
+          style={{ left: box.left, top: box.top, width: box.width, height: box.height }}
+        >
+          <svg
+            className="absolute inset-0 w-full h-full overflow-visible"
+            viewBox={`0 0 ${box.naturalWidth} ${box.naturalHeight}`}
+            aria-hidden="true"
+          >
+            {annotations.map((annotation, index) => {
+              const x = annotation.x * box.naturalWidth
+              const y = annotation.y * box.naturalHeight
+              if (annotation.kind === 'box') {
+                return (
+                  <rect
+                    key={index}
+                    x={x}
+                    y={y}
+                    width={(annotation.width || 0) * box.naturalWidth}
+                    height={(annotation.height || 0) * box.naturalHeight}
+                    fill={ANNOTATION_COLOR}
+                    fillOpacity={0.1}
+                    stroke={ANNOTATION_COLOR}
+                    strokeWidth={STROKE_PX * unit}
+                  />
+                )
+              }
+              if (annotation.kind === 'arrow') {
+                const toX = (annotation.toX || 0) * box.naturalWidth
+                const toY = (annotation.toY || 0) * box.naturalHeight
+                const angle = Math.atan2(toY - y, toX - x)
+                const head = ARROWHEAD_PX * unit
+                const corner = (offset: number) =>
+                  `${toX - head * Math.cos(angle + offset)},${toY - head * Math.sin(angle + offset)}`
+                return (
+                  <g key={index} fill={ANNOTATION_COLOR} stroke={ANNOTATION_COLOR}>
+                    <line x1={x} y1={y} x2={toX} y2={toY} strokeWidth={STROKE_PX * unit} strokeLinecap="round" />
+                    <polygon points={`${toX},${toY} ${corner(0.45)} ${corner(-0.45)}`} strokeWidth={0} />
+                  </g>
+                )
+              }
+              return null
+            })}
+          </svg>
+          {annotations.map((annotation, index) => annotation.label && (
+            <span
+              key={index}
+              className="absolute px-1.5 py-0.5 rounded text-[11px] sm:text-xs font-medium text-white whitespace-nowrap"
+              style={{
+                left: `${annotation.x * 100}%`,
+                top: `${annotation.y * 100}%`,
+                backgroundColor: ANNOTATION_COLOR,
+                // Box captions sit on the box's top edge, arrow captions at the tail, labels centred on their point
+                transform: annotation.kind === 'box' ? 'translateY(-100%)' : 'translate(-50%, -50%)',
+              }}
+            >
+              {annotation.label}
+            </span>
+          ))}
+        </div>
+      )}
+    </div>
+  )
+}
@@ -0,0 +1,101 @@
+import { foxQuote, Question, QuestionAnnotation } from '../data/quizData'
+import { useTranslation } from '../lib/i18n'
+import AnnotatedImage from './AnnotatedImage'
+
+interface ComparisonGridProps {
+  type: Question['type']
+  // Options in display order, with the display position of the correct one
+  options: string[]
+  correctIndex: number
+  selectedIndex: number | null
+  // Coins the answer earned under the session's rule set - negative for a penalty
+  coins: number
+  // Text set in each typeface option's font - defaults to the fox quote
+  sampleText?: string
+  // Annotations for each option in display order, drawn once the answer is shown
+  annotations?: QuestionAnnotation[][]
+  showExplanation: boolean
+  onSelect: (index: number) => void
+}
+
+// Side-by-side comparison of two to four options, used by the quiz and the admin preview
+// Image options render as pictures, typeface options render the sample text in that font
+export default function ComparisonGrid({
+  type,
+  options,
+  correctIndex,
+  selectedIndex,
+  coins,
+  sampleText = foxQuote,
+  annotations = [],
+  showExplanation,
+  onSelect,
+}: ComparisonGridProps) {
+  const { t, formatNumber } = useTranslation()
+  const isCorrect = selectedIndex !== null && selectedIndex === correctIndex
+  const signedCoins = formatNumber(coins, { signDisplay: 'exceptZero' })
+
+  const renderPanel = (option: string, index: number) => (
+    <div
+      key={index}
+      onClick={() => onSelect(index)}
+      className={`cursor-pointer transition-all relative group ${type === 'typeface'
+          ? ''
+          : `border-2 ${selectedIndex === index
+            ? isCorrect
+              ? 'border-green-500'
+              : 'border-red-500'
+            : showExplanation && correctIndex === index
+              ? 'border-green-500'
+              : 'border-gray-200 hover:border-gray-400'
+          }`
+        }`}
+    >
+      {type === 'typeface' ? (
+        <div
+          className={`p-6 sm:p-8 min-h-[250px] sm:min-h-[300px] flex items-center justify-center bg-white transition-transform ${!showExplanation ? 'group-hover:scale-[1.02]' : ''
+            }`}
+          style={{ fontFamily: option }}
+        >
+          <p className="text-2xl sm:text-3xl leading-relaxed text-center px-2">
+            {sampleText}
+          </p>
+        </div>
+      ) : (
+        <AnnotatedImage
+          src={option}
+          alt={t('answer.optionAlt')}
+          className={`w-full h-auto object-contain transition-transform ${!showExplanation ? 'group-hover:scale-[1.02]' : ''
+            }`}
+          style={{ maxHeight: '400px', maxWidth: '100%' }}
+          annotations={annotations[index] || []}
+          showAnnotations={showExplanation}
+        />
+      )}
+      {!showExplanation && (
+        <div className="absolute inset-0 bg-black bg-opacity-0 group-hover:bg-opacity-40 transition-all duration-200 flex items-start justify-center pt-4">
+          <span className="text-white font-medium opacity-0 group-hover:opacity-100 transition-opacity duration-200">
+            {t('answer.clickToSelect')}
+          </span>
+        </div>
+      )}
+      {selectedIndex === index && (
+        <div className={`p-4 text-center font-medium ${isCorrect ? 'bg-green-50 text-green-800' : 'bg-red-50 text-red-800'
+          }`}>
+          {isCorrect
+            ? t('answer.correct', { coins: signedCoins })
+            : coins !== 0 ? t('answer.yourChoiceCoins', { coins: signedCoins }) : t('answer.yourChoice')}
+        </div>
+      )}
+    </div>
+  )
+
+  // Three options sit in one row, two and four fill a two-column grid
+  const columns = options.length === 3 ? 'md:grid-cols-3' : 'md:grid-cols-2'
+
+  return (
+    <div className={`grid grid-cols-1 ${columns} gap-3 sm:gap-6 mb-8 sm:mb-12 w-full`}>
+      {options.map(renderPanel)}
+    </div>
+  )
+}
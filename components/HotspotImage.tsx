@@ -0,0 +1,88 @@
+import type { MouseEvent } from 'react'
+import type { HotspotRegion } from '../data/quizData'
+import { useTranslation } from '../lib/i18n'
+
+interface HotspotImageProps {
+  image: string
+  regions: HotspotRegion[]
+  // Where the player clicked, in relative 0-1 coordinates
+  clickPoint: { x: number; y: number } | null
+  isCorrect: boolean
+  // Coins the answer earned under the session's rule set - negative for a penalty
+  coins: number
+  showExplanation: boolean
+  onSelect: (point: { x: number; y: number }) => void
+}
+
+// Single image where the player clicks the area containing the design problem
+// After answering, the correct regions are highlighted over the image
+export default function HotspotImage({
+  image,
+  regions,
+  clickPoint,
+  isCorrect,
+  coins,
+  showExplanation,
+  onSelect,
+}: HotspotImageProps) {
+  const { t, formatNumber } = useTranslation()
+  const signedCoins = formatNumber(coins, { signDisplay: 'exceptZero' })
+
+  const handleClick = (e: MouseEvent<HTMLDivElement>) => {
+    if (showExplanation) return
+    // Convert the click to coordinates relative to the rendered image
+    const rect = e.currentTarget.getBoundingClientRect()
+    onSelect({
+      x: (e.clientX - rect.left) / rect.width,
+      y: (e.clientY - rect.top) / rect.height,
+    })
+  }
+
+  return (
+    <div className="mb-8 sm:mb-12 w-full flex flex-col items-center">
+      {/* Wrapper hugs the image so relative coordinates map onto its pixels */}
+      <div
+        onClick={handleClick}
+        className={`relative inline-block border-2 ${showExplanation
+            ? isCorrect ? 'border-green-500' : 'border-red-500'
+            : 'border-gray-200 hover:border-gray-400 cursor-crosshair'
+          }`}
+      >
+        <img
+          src={image}
+          alt={t('hotspot.imageAlt')}
+          className="block max-w-full h-auto"
+          style={{ maxHeight: '500px' }}
+          draggable={false}
+        />
+        {showExplanation && regions.map((region, index) => (
+          <div
+            key={index}
+            className="absolute border-2 border-green-500 bg-green-500 bg-opacity-20 pointer-events-none"
+            style={{
+              left: `${region.x * 100}%`,
+              top: `${region.y * 100}%`,
+              width: `${region.width * 100}%`,
+              height: `${region.height * 100}%`,
+            }}
+          />
+        ))}
+        {clickPoint && (
+          <div
+            className={`absolute w-4 h-4 -ml-2 -mt-2 rounded-full border-2 border-white pointer-events-none ${isCorrect ? 'bg-green-500' : 'bg-red-500'}`}
+            style={{ left: `${clickPoint.x * 100}%`, top: `${clickPoint.y * 100}%` }}
+          />
+        )}
+      </div>
+      {showExplanation ? (
+        <div className={`w-full p-4 text-center font-medium ${isCorrect ? 'bg-green-50 text-green-800' : 'bg-red-50 text-red-800'}`}>
+          {isCorrect
+            ? t('answer.correct', { coins: signedCoins })
+            : coins !== 0 ? t('hotspot.missedCoins', { coins: signedCoins }) : t('hotspot.missed')}
+        </div>
+      ) : (
+        <p className="text-xs sm:text-sm text-gray-500 mt-3">{t('hotspot.hint')}</p>
+      )}
+    </div>
+  )
+}
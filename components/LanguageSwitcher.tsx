@@ -0,0 +1,26 @@
+import { LOCALE_NAMES, LOCALES } from '../data/messages'
+import { useTranslation } from '../lib/i18n'
+
+export default function LanguageSwitcher({ className = '' }: { className?: string }) {
+  const { locale, setLocale, t } = useTranslation()
+
+  return (
+    <div role="group" aria-label={t('common.language')} className={`inline-flex gap-1 text-xs ${className}`}>
+      {LOCALES.map(option => (
+        <button
+          key={option}
+          type="button"
+          onClick={() => setLocale(option)}
+          lang={option}
+          title={LOCALE_NAMES[option]}
+          aria-pressed={locale === option}
+          className={`px-2 py-1 rounded-md font-semibold uppercase transition-colors ${
+            locale === option ? 'bg-gray-900 text-white' : 'text-gray-600 hover:bg-gray-100'
+          }`}
+        >
+          {option}
+        </button>
+      ))}
+    </div>
+  )
+}
@@ -0,0 +1,132 @@
+import { useState } from 'react'
+import { useTranslation } from '../lib/i18n'
+
+export interface RankingItem {
+  value: string
+  // Authored position of the variant - 0 is the best
+  // The quiz only learns it when the answer is revealed, and uses the display position until then
+  originalIndex: number
+}
+
+interface RankingListProps {
+  // Variants in the player's current order, best first
+  items: RankingItem[]
+  // Share of correctly ordered pairs, shown once the order is submitted
+  credit: number
+  // Coins the order earned under the session's rule set - negative for a penalty
+  coins: number
+  showExplanation: boolean
+  onReorder: (items: RankingItem[]) => void
+  onSubmit: () => void
+}
+
+// Move one item to another position, shifting the items in between
+function moveItem(items: RankingItem[], from: number, to: number): RankingItem[] {
+  const reordered = [...items]
+  const [moved] = reordered.splice(from, 1)
+  reordered.splice(to, 0, moved)
+  return reordered
+}
+
+// Vertical list of image variants the player drags into order from best to worst
+// Arrow buttons do the same for touch screens and keyboards, where drag and drop isn't available
+export default function RankingList({
+  items,
+  credit,
+  coins,
+  showExplanation,
+  onReorder,
+  onSubmit,
+}: RankingListProps) {
+  const { t, formatNumber, formatPercent } = useTranslation()
+  const [dragIndex, setDragIndex] = useState<number | null>(null)
+  const coinsEarned = formatNumber(coins, { signDisplay: 'exceptZero' })
+
+  const handleDrop = (index: number) => {
+    if (dragIndex !== null && dragIndex !== index) {
+      onReorder(moveItem(items, dragIndex, index))
+    }
+    setDragIndex(null)
+  }
+
+  return (
+    <div className="mb-8 sm:mb-12 w-full max-w-2xl mx-auto">
+      {!showExplanation && (
+        <p className="text-xs sm:text-sm text-gray-500 text-center mb-3">{t('ranking.hint')}</p>
+      )}
+      <ol className="space-y-3">
+        {items.map((item, index) => {
+          const isInPlace = item.originalIndex === index
+          return (
+            <li
+              key={item.originalIndex}
+              draggable={!showExplanation}
+              onDragStart={() => setDragIndex(index)}
+              onDragOver={(e) => e.preventDefault()}
+              onDrop={() => handleDrop(index)}
+              onDragEnd={() => setDragIndex(null)}
+              className={`flex items-center gap-3 sm:gap-4 p-2 sm:p-3 border-2 bg-white ${showExplanation
+                  ? isInPlace ? 'border-green-500' : 'border-red-500'
+                  : dragIndex === index
+                    ? 'border-gray-400 opacity-50'
+                    : 'border-gray-200 hover:border-gray-400 cursor-move'
+                }`}
+            >
+              <span className="w-6 text-center text-lg font-medium text-gray-900">{index + 1}</span>
+              <img
+                src={item.value}
+                alt={t('ranking.variantAlt', { rank: index + 1 })}
+                className="flex-1 min-w-0 h-auto object-contain"
+                style={{ maxHeight: '160px' }}
+                draggable={false}
+              />
+              {showExplanation ? (
+                <span className={`text-xs sm:text-sm font-medium whitespace-nowrap ${isInPlace ? 'text-green-800' : 'text-red-800'}`}>
+                  {isInPlace ? '✓' : t('ranking.shouldBe', { rank: item.originalIndex + 1 })}
+                </span>
+              ) : (
+                <div className="flex flex-col gap-1">
+                  <button
+                    onClick={() => onReorder(moveItem(items, index, index - 1))}
+                    disabled={index === 0}
+                    aria-label={t('ranking.moveUp')}
+                    className="px-2 py-1 text-xs rounded-[8px] bg-gray-100 text-gray-700 hover:bg-gray-200 disabled:opacity-30"
+                  >
+                    ↑
+                  </button>
+                  <button
+                    onClick={() => onReorder(moveItem(items, index, index + 1))}
+                    disabled={index === items.length - 1}
+                    aria-label={t('ranking.moveDown')}
+                    className="px-2 py-1 text-xs rounded-[8px] bg-gray-100 text-gray-700 hover:bg-gray-200 disabled:opacity-30"
+                  >
+                    ↓
+                  </button>
+                </div>
+              )}
+            </li>
+          )
+        })}
+      </ol>
+      {showExplanation ? (
+        <div className={`mt-4 p-4 text-center font-medium ${credit === 1
+            ? 'bg-green-50 text-green-800'
+            : credit > 0 ? 'bg-amber-50 text-amber-900' : 'bg-red-50 text-red-800'
+          }`}>
+          {credit === 1
+            ? t('ranking.perfect', { coins: coinsEarned })
+            : t('ranking.partial', { percent: formatPercent(credit * 100), coins: coinsEarned })}
+        </div>
+      ) : (
+        <div className="text-center mt-6">
+          <button
+            onClick={onSubmit}
+            className="px-8 py-3 bg-black text-white font-normal hover:bg-gray-800 transition-colors rounded-[8px]"
+          >
+            {t('ranking.lockIn')}
+          </button>
+        </div>
+      )}
+    </div>
+  )
+}
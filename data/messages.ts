@@ -0,0 +1,695 @@
+// UI strings for every supported locale
+// English is complete and is the fallback for any string missing from another locale
+
+export const LOCALES = ['en', 'es', 'pt'] as const
+
+export type Locale = typeof LOCALES[number]
+
+export const DEFAULT_LOCALE: Locale = 'en'
+
+// Shown in the language switcher, each in its own language
+export const LOCALE_NAMES: Record<Locale, string> = {
+  en: 'English',
+  es: 'Español',
+  pt: 'Português',
+}
+
+// Placeholders like {count} are filled in by t()
+export const en = {
+  'common.backToHome': 'Back to Home',
+  'common.viewLeaderboard': 'View Leaderboard',
+  'common.startTraining': 'Start Training',
+  'common.retry': 'Retry',
+  'common.loading': 'Loading...',
+  'common.language': 'Language',
+
+  'table.rank': 'Rank',
+  'table.name': 'Name',
+  'table.score': 'Score',
+  'table.accuracy': 'Accuracy',
+  'table.time': 'Time',
+  'table.date': 'Date',
+
+  'principle.layout': 'Layout',
+  'principle.contrast': 'Contrast',
+  'principle.color': 'Color',
+  'principle.hierarchy': 'Hierarchy',
+  'principle.spacing': 'Spacing',
+  'principle.alignment': 'Alignment',
+  'principle.typography': 'Typography',
+  'principle.copy': 'Copy',
+  'principle.consistency': 'Consistency',
+  'principle.balance': 'Balance',
+  'principle.feedback': 'Feedback',
+  'principle.imagery': 'Imagery',
+  'principle.iconography': 'Iconography',
+
+  'home.metaDescription': 'Practice platform where designers train their visual judgment',
+  'home.designersTraining': '110+ designers already training',
+  'home.firstToConnect': 'Be the first to connect your Twitter!',
+  'home.eyebrow': 'Trusted design practice, Worldwide',
+  'home.tagline': 'Experience a hassle-free, seamless practice with efficient, professional design training tailored to your needs.',
+  'home.imageAlt': 'Design training example {number}',
+  'home.credit': 'Vibe coded by',
+  'home.moreModes': 'More ways to train:',
+  'home.practiceLevel': 'Practice one level:',
+  'home.otherScoring': 'Try other scoring:',
+
+  'level.beginner': 'Beginner',
+  'level.mid': 'Intermediate',
+  'level.expert': 'Expert',
+
+  'questionType.image': 'Image comparison',
+  'questionType.typeface': 'Typeface',
+  'questionType.hotspot': 'Hotspot',
+  'questionType.ranking': 'Ranking',
+
+  'skill.title': 'Skill Rating',
+  'skill.detail': '{level} level, ±{margin}',
+  'skill.sessions': 'Adaptive sessions: {count}',
+  'skill.none': 'Take an adaptive session to get a skill rating.',
+  'skill.rateMySkill': 'Rate My Skill',
+  'skill.intro': 'Questions adapt to your answers. The session ends once your skill is rated.',
+  'skill.nameForRating': 'Your skill rating will be saved under your name',
+
+  'review.title': 'Review Mistakes',
+  'review.due': 'Missed questions due for review: {count}',
+  'review.nothingDue': 'Nothing due for review today. Questions you miss come back on a spaced-repetition schedule.',
+  'review.start': 'Start Review',
+  'review.needsPlayer': 'Open your review from your stats page.',
+  'review.intro': 'These are questions you missed before. Each one comes back sooner or later depending on how you do.',
+  'review.nameHint': 'Your review schedule is kept under this name',
+
+  'blitz.title': 'Blitz',
+  'blitz.intro': 'Every question has a {seconds}-second countdown. Running out of time counts as a miss.',
+  'blitz.timeLeft': '{seconds}s',
+  'blitz.timedOut': 'Out of time',
+  'blitz.nextFailed': 'Could not load the next question. Please try again.',
+
+  'scoring.classic': 'Classic',
+  'scoring.streak': 'Streak',
+  'scoring.timed': 'Time bonus',
+  'scoring.negative': 'Negative marking',
+  'scoring.streakText': 'Correct answers in a row\nearn up to 3× coins.',
+  'scoring.timedText': 'Faster correct answers\nearn up to 200 coins.',
+  'scoring.negativeText': 'Correct answers earn 100 coins,\nwrong ones cost 50.',
+
+  'daily.title': 'Daily Design Gym',
+  'daily.intro': 'Everyone plays the same questions today, and you get one attempt.',
+  'daily.nameHint': 'You get one attempt at each daily challenge, under this name',
+  'daily.alreadyPlayed': 'You have already played this daily challenge. Come back tomorrow for a new one.',
+
+  'custom.pageTitle': 'Custom Quiz - Design Gym',
+  'custom.title': 'Custom Quiz',
+  'custom.subtitle': 'Build a focused session and share the link with your team',
+  'custom.anyHint': 'Leave a group empty to include all of it',
+  'custom.levels': 'Levels',
+  'custom.types': 'Question types',
+  'custom.principles': 'Principles',
+  'custom.count': 'Number of questions',
+  'custom.matching': '{count} questions match',
+  'custom.fewerMatching': 'Only {count} questions match, so the quiz will be shorter',
+  'custom.noneMatching': 'No questions match these filters',
+  'custom.sameQuestions': 'Deal everyone the same questions',
+  'custom.link': 'Shareable link',
+  'custom.copy': 'Copy Link',
+  'custom.copied': 'Copied',
+  'custom.start': 'Start This Quiz',
+  'custom.offLeaderboard': 'Custom quiz results stay off the leaderboard.',
+  'custom.loadFailed': 'Failed to load the question bank',
+  'custom.intro': 'A custom quiz of {count} questions. Results stay off the leaderboard.',
+  'custom.nameHint': 'Custom quiz results stay off the leaderboard',
+  'custom.invalidLink': 'This custom quiz link is broken. Ask for a new one, or build your own.',
+  'custom.nothingMatches': 'No questions match this custom quiz any more. Build a new one.',
+
+  'leaderboard.pageTitle': 'Leaderboard - Design Gym',
+  'leaderboard.title': 'Leaderboard',
+  'leaderboard.subtitle': 'See how you stack up against other designers',
+  'leaderboard.loading': 'Loading leaderboard...',
+  'leaderboard.loadFailed': 'Failed to load leaderboard',
+  'leaderboard.empty': 'No entries yet. Be the first!',
+  'leaderboard.you': 'You',
+  'leaderboard.global': 'All Levels',
+  'leaderboard.blitz': 'Blitz',
+  'leaderboard.daily': 'Daily',
+  'leaderboard.scoring': 'Scoring:',
+
+  'stats.pageTitle': 'Your Progress - Design Gym',
+  'stats.errorPageTitle': 'Stats - Design Gym',
+  'stats.loading': 'Loading your stats...',
+  'stats.errorTitle': 'Stats',
+  'stats.noIdentifier': 'No user identifier found. Please provide ?name=YourName or ?twitter=YourHandle',
+  'stats.notFound': 'Could not find your stats. Please provide ?name=YourName',
+  'stats.loadFailed': 'Failed to load stats',
+  'stats.noStats': 'No stats found',
+  'stats.viewBy': 'View stats by visiting:',
+  'stats.title': 'Your Progress',
+  'stats.subtitle': 'Track your improvement over time',
+  'stats.totalSessions': 'Total Sessions',
+  'stats.personalBest': 'Personal Best',
+  'stats.avgAccuracy': 'Avg Accuracy',
+  'stats.avgTime': 'Avg Time',
+  'stats.strengthsAndWeaknesses': 'Strengths & Weaknesses',
+  'stats.strengths': 'Strengths',
+  'stats.practiseNext': 'Practise Next',
+  'stats.noStrengths': 'Keep training - no principle above {threshold} yet.',
+  'stats.noWeaknesses': 'Nothing below {threshold} - great work.',
+  'stats.accuracyTrend': 'Accuracy Trend (Last 10 Sessions)',
+  'stats.session': 'Session {number}',
+  'stats.recentSessions': 'Recent Sessions',
+  'stats.practiceAgain': 'Practice Again',
+
+  'quiz.pageTitle': 'Design Gym - Training',
+  'quiz.metaDescription': 'Practice your visual judgment',
+  'quiz.loadingQuestions': 'Loading questions...',
+  'quiz.loadFailed': 'Failed to load questions',
+  'quiz.progress': 'Question {current} of {total}',
+  'quiz.adaptiveProgress': 'Question {current} of up to {max}',
+  'quiz.loadingFonts': 'Loading fonts...',
+  'quiz.resumed': 'Welcome back - picked up where you left off.',
+  'quiz.startNewSession': 'Start a new session',
+  'quiz.answerFailed': 'Your answer could not be saved. Please try again.',
+  'quiz.startFailed': 'The session could not be started. Please try again.',
+  'quiz.fontsFailed': 'Could not load the fonts for this question',
+  'quiz.nextQuestion': 'Next Question',
+  'quiz.howItWorks': 'How Design Gym Works',
+  'quiz.choose': 'Choose',
+  'quiz.chooseText': 'Pick the better\ndesign.',
+  'quiz.compare': 'Compare',
+  'quiz.compareText': 'Review both\nafter answering.',
+  'quiz.earn': 'Earn',
+  'quiz.earnText': 'Correct answers\nearn 100 coins.',
+  'quiz.startTraining': 'Start training',
+  'quiz.levelComplete': '{level} Level Complete!',
+  'quiz.levelCompleteText': 'Great job completing the {level} level! Ready to move on to the {next} level?',
+  'quiz.stageComplete': 'Stage {number} of {total} Complete!',
+  'quiz.stageCompleteText': 'Great job! Ready for the next {count} questions?',
+  'quiz.continue': 'Continue to Next Level',
+  'quiz.continueStage': 'Continue',
+  'quiz.sessionComplete': 'Session Complete',
+  'quiz.coinsEarned': 'Coins Earned',
+  'quiz.accuracy': 'Accuracy: {accuracy}',
+  'quiz.feedbackStrong': 'Strong',
+  'quiz.feedbackSolid': 'Solid',
+  'quiz.feedbackPractice': 'Needs practice',
+  'quiz.shareTone': 'Share tone:',
+  'quiz.humble': 'Humble',
+  'quiz.brag': 'Brag',
+  'quiz.viewStats': 'View Your Stats',
+  'quiz.shareOnX': 'Share on X',
+  'quiz.startOver': 'Start Over',
+  'quiz.replaySeed': 'Replay these questions',
+  'quiz.seed': 'Session seed: {seed}',
+  'quiz.replayNameHint': 'Replayed sessions stay off the leaderboard',
+  'quiz.connectAccount': 'Connect Your Account',
+  'quiz.nameOnLeaderboard': 'Your name will appear on the leaderboard',
+  'quiz.yourName': 'Your Name *',
+  'quiz.namePlaceholder': 'Your name',
+  'quiz.twitterHandle': 'Twitter Handle (Optional)',
+  'quiz.twitterHint': 'Connect your Twitter to appear in social proof',
+  'quiz.saveServerError': 'Server error saving score. Please check the leaderboard - it may have been saved.',
+  'quiz.saveFailed': 'Failed to save score: {message}',
+  'quiz.saveError': 'Error saving score: {message}',
+
+  'share.brag1': 'Just crushed a session at Design Gym. My eye is getting sharper.',
+  'share.brag2': 'Finished another round at Design Gym. Feeling confident about my design instincts.',
+  'share.brag3': 'Design Gym session complete. My visual judgment is on point.',
+  'share.brag4': 'Just leveled up my design eye at Design Gym. Results speak for themselves.',
+  'share.humble1': 'Just finished a session at Design Gym. Still learning, but making progress.',
+  'share.humble2': 'Completed another round at Design Gym. Every session teaches me something new.',
+  'share.humble3': 'Finished a Design Gym session. Practice makes progress, not perfect.',
+  'share.humble4': 'Just wrapped up at Design Gym. Always room to improve, but happy with the effort.',
+  'share.summary': '{coins} points • {accuracy} accuracy',
+
+  'answer.correct': '✓ Correct {coins} coins',
+  'answer.yourChoice': '✗ Your choice',
+  'answer.yourChoiceCoins': '✗ Your choice {coins} coins',
+  'answer.clickToSelect': 'Click to select',
+  'answer.optionAlt': 'Design option',
+  'hotspot.missed': '✗ Missed - the problem area is highlighted',
+  'hotspot.missedCoins': '✗ Missed {coins} coins - the problem area is highlighted',
+  'hotspot.hint': 'Click the part of the design that has the problem',
+  'hotspot.imageAlt': 'Design to inspect',
+  'ranking.hint': 'Drag the designs into order, best at the top',
+  'ranking.shouldBe': 'Should be #{rank}',
+  'ranking.perfect': '✓ Perfect order {coins} coins',
+  'ranking.partial': '{percent} of pairs in the right order {coins} coins',
+  'ranking.lockIn': 'Lock In Order',
+  'ranking.moveUp': 'Move up',
+  'ranking.moveDown': 'Move down',
+  'ranking.variantAlt': 'Design variant ranked {rank}',
+}
+
+export type MessageKey = keyof typeof en
+
+const es: Partial<Record<MessageKey, string>> = {
+  'common.backToHome': 'Volver al inicio',
+  'common.viewLeaderboard': 'Ver clasificación',
+  'common.startTraining': 'Empezar a entrenar',
+  'common.retry': 'Reintentar',
+  'common.loading': 'Cargando...',
+  'common.language': 'Idioma',
+
+  'table.rank': 'Puesto',
+  'table.name': 'Nombre',
+  'table.score': 'Puntos',
+  'table.accuracy': 'Precisión',
+  'table.time': 'Tiempo',
+  'table.date': 'Fecha',
+
+  'principle.layout': 'Maquetación',
+  'principle.contrast': 'Contraste',
+  'principle.color': 'Color',
+  'principle.hierarchy': 'Jerarquía',
+  'principle.spacing': 'Espaciado',
+  'principle.alignment': 'Alineación',
+  'principle.typography': 'Tipografía',
+  'principle.copy': 'Textos',
+  'principle.consistency': 'Coherencia',
+  'principle.balance': 'Equilibrio',
+  'principle.feedback': 'Feedback',
+  'principle.imagery': 'Imágenes',
+  'principle.iconography': 'Iconografía',
+
+  'home.metaDescription': 'Plataforma donde los diseñadores entrenan su criterio visual',
+  'home.designersTraining': 'Más de 110 diseñadores ya entrenan',
+  'home.firstToConnect': '¡Sé el primero en conectar tu Twitter!',
+  'home.eyebrow': 'Práctica de diseño de confianza, en todo el mundo',
+  'home.tagline': 'Practica sin complicaciones con un entrenamiento de diseño eficiente y profesional, adaptado a lo que necesitas.',
+  'home.imageAlt': 'Ejemplo de entrenamiento de diseño {number}',
+  'home.credit': 'Programado a ritmo de vibes por',
+  'home.moreModes': 'Otras formas de entrenar:',
+  'home.practiceLevel': 'Practica un solo nivel:',
+  'home.otherScoring': 'Prueba otra puntuación:',
+
+  'level.beginner': 'Principiante',
+  'level.mid': 'Intermedio',
+  'level.expert': 'Experto',
+
+  'questionType.image': 'Comparación de imágenes',
+  'questionType.typeface': 'Tipografía',
+  'questionType.hotspot': 'Punto crítico',
+  'questionType.ranking': 'Ordenar',
+
+  'skill.title': 'Nivel de habilidad',
+  'skill.detail': 'Nivel {level}, ±{margin}',
+  'skill.sessions': 'Sesiones adaptativas: {count}',
+  'skill.none': 'Haz una sesión adaptativa para obtener tu nivel de habilidad.',
+  'skill.rateMySkill': 'Mide mi nivel',
+  'skill.intro': 'Las preguntas se adaptan a tus respuestas. La sesión termina cuando tu nivel está medido.',
+  'skill.nameForRating': 'Tu nivel de habilidad se guardará con tu nombre',
+
+  'review.title': 'Repasa tus errores',
+  'review.due': 'Preguntas falladas pendientes de repaso: {count}',
+  'review.nothingDue': 'Hoy no tienes nada que repasar. Las preguntas que fallas vuelven según un calendario de repetición espaciada.',
+  'review.start': 'Empezar repaso',
+  'review.needsPlayer': 'Abre tu repaso desde tu página de estadísticas.',
+  'review.intro': 'Son preguntas que fallaste antes. Cada una vuelve antes o después según cómo te vaya.',
+  'review.nameHint': 'Tu calendario de repaso se guarda con este nombre',
+
+  'blitz.title': 'Blitz',
+  'blitz.intro': 'Cada pregunta tiene una cuenta atrás de {seconds} segundos. Si se acaba el tiempo, cuenta como fallo.',
+  'blitz.timeLeft': '{seconds} s',
+  'blitz.timedOut': 'Se acabó el tiempo',
+  'blitz.nextFailed': 'No se pudo cargar la siguiente pregunta. Inténtalo de nuevo.',
+
+  'scoring.classic': 'Clásica',
+  'scoring.streak': 'Racha',
+  'scoring.timed': 'Bonus por tiempo',
+  'scoring.negative': 'Penalización por fallo',
+  'scoring.streakText': 'Los aciertos seguidos\nganan hasta 3× monedas.',
+  'scoring.timedText': 'Los aciertos más rápidos\nganan hasta 200 monedas.',
+  'scoring.negativeText': 'Los aciertos ganan 100 monedas\ny los fallos restan 50.',
+
+  'daily.title': 'Design Gym diario',
+  'daily.intro': 'Hoy todos juegan las mismas preguntas, y tienes un solo intento.',
+  'daily.nameHint': 'Tienes un intento en cada reto diario, con este nombre',
+  'daily.alreadyPlayed': 'Ya jugaste este reto diario. Vuelve mañana para uno nuevo.',
+
+  'custom.pageTitle': 'Quiz personalizado - Design Gym',
+  'custom.title': 'Quiz personalizado',
+  'custom.subtitle': 'Crea una sesión enfocada y comparte el enlace con tu equipo',
+  'custom.anyHint': 'Deja un grupo vacío para incluirlo entero',
+  'custom.levels': 'Niveles',
+  'custom.types': 'Tipos de pregunta',
+  'custom.principles': 'Principios',
+  'custom.count': 'Número de preguntas',
+  'custom.matching': '{count} preguntas coinciden',
+  'custom.fewerMatching': 'Solo coinciden {count} preguntas, así que el quiz será más corto',
+  'custom.noneMatching': 'Ninguna pregunta coincide con estos filtros',
+  'custom.sameQuestions': 'Dar a todos las mismas preguntas',
+  'custom.link': 'Enlace para compartir',
+  'custom.copy': 'Copiar enlace',
+  'custom.copied': 'Copiado',
+  'custom.start': 'Empezar este quiz',
+  'custom.offLeaderboard': 'Los resultados de los quizzes personalizados no entran en la clasificación.',
+  'custom.loadFailed': 'No se pudo cargar el banco de preguntas',
+  'custom.intro': 'Un quiz personalizado de {count} preguntas. Los resultados no entran en la clasificación.',
+  'custom.nameHint': 'Los resultados de los quizzes personalizados no entran en la clasificación',
+  'custom.invalidLink': 'Este enlace de quiz personalizado no funciona. Pide uno nuevo o crea el tuyo.',
+  'custom.nothingMatches': 'Ya no hay preguntas que coincidan con este quiz personalizado. Crea uno nuevo.',
+
+  'leaderboard.pageTitle': 'Clasificación - Design Gym',
+  'leaderboard.title': 'Clasificación',
+  'leaderboard.subtitle': 'Compárate con otros diseñadores',
+  'leaderboard.loading': 'Cargando clasificación...',
+  'leaderboard.loadFailed': 'No se pudo cargar la clasificación',
+  'leaderboard.empty': 'Todavía no hay resultados. ¡Sé el primero!',
+  'leaderboard.you': 'Tú',
+  'leaderboard.global': 'Todos los niveles',
+  'leaderboard.blitz': 'Blitz',
+  'leaderboard.daily': 'Diario',
+  'leaderboard.scoring': 'Puntuación:',
+
+  'stats.pageTitle': 'Tu progreso - Design Gym',
+  'stats.errorPageTitle': 'Estadísticas - Design Gym',
+  'stats.loading': 'Cargando tus estadísticas...',
+  'stats.errorTitle': 'Estadísticas',
+  'stats.noIdentifier': 'No se encontró ningún usuario. Indica ?name=TuNombre o ?twitter=TuUsuario',
+  'stats.notFound': 'No encontramos tus estadísticas. Indica ?name=TuNombre',
+  'stats.loadFailed': 'No se pudieron cargar las estadísticas',
+  'stats.noStats': 'No hay estadísticas',
+  'stats.viewBy': 'Consulta tus estadísticas en:',
+  'stats.title': 'Tu progreso',
+  'stats.subtitle': 'Sigue tu mejora a lo largo del tiempo',
+  'stats.totalSessions': 'Sesiones totales',
+  'stats.personalBest': 'Mejor marca',
+  'stats.avgAccuracy': 'Precisión media',
+  'stats.avgTime': 'Tiempo medio',
+  'stats.strengthsAndWeaknesses': 'Fortalezas y debilidades',
+  'stats.strengths': 'Fortalezas',
+  'stats.practiseNext': 'Practica a continuación',
+  'stats.noStrengths': 'Sigue entrenando: aún no hay ningún principio por encima del {threshold}.',
+  'stats.noWeaknesses': 'Nada por debajo del {threshold}. ¡Buen trabajo!',
+  'stats.accuracyTrend': 'Evolución de la precisión (últimas 10 sesiones)',
+  'stats.session': 'Sesión {number}',
+  'stats.recentSessions': 'Sesiones recientes',
+  'stats.practiceAgain': 'Volver a practicar',
+
+  'quiz.pageTitle': 'Design Gym - Entrenamiento',
+  'quiz.metaDescription': 'Entrena tu criterio visual',
+  'quiz.loadingQuestions': 'Cargando preguntas...',
+  'quiz.loadFailed': 'No se pudieron cargar las preguntas',
+  'quiz.progress': 'Pregunta {current} de {total}',
+  'quiz.adaptiveProgress': 'Pregunta {current} de {max} como máximo',
+  'quiz.loadingFonts': 'Cargando tipografías...',
+  'quiz.resumed': 'Bienvenido de nuevo: seguimos donde lo dejaste.',
+  'quiz.startNewSession': 'Empezar una sesión nueva',
+  'quiz.answerFailed': 'No se pudo guardar tu respuesta. Inténtalo de nuevo.',
+  'quiz.startFailed': 'No se pudo iniciar la sesión. Inténtalo de nuevo.',
+  'quiz.fontsFailed': 'No se pudieron cargar las tipografías de esta pregunta',
+  'quiz.nextQuestion': 'Siguiente pregunta',
+  'quiz.howItWorks': 'Cómo funciona Design Gym',
+  'quiz.choose': 'Elige',
+  'quiz.chooseText': 'Escoge el mejor\ndiseño.',
+  'quiz.compare': 'Compara',
+  'quiz.compareText': 'Revisa ambos\ntras responder.',
+  'quiz.earn': 'Gana',
+  'quiz.earnText': 'Cada acierto\nda 100 monedas.',
+  'quiz.startTraining': 'Empezar a entrenar',
+  'quiz.levelComplete': '¡Nivel {level} completado!',
+  'quiz.levelCompleteText': '¡Buen trabajo con el nivel {level}! ¿Listo para pasar al nivel {next}?',
+  'quiz.stageComplete': '¡Etapa {number} de {total} completada!',
+  'quiz.stageCompleteText': '¡Buen trabajo! ¿Listo para las próximas {count} preguntas?',
+  'quiz.continue': 'Continuar al siguiente nivel',
+  'quiz.continueStage': 'Continuar',
+  'quiz.sessionComplete': 'Sesión completada',
+  'quiz.coinsEarned': 'Monedas ganadas',
+  'quiz.accuracy': 'Precisión: {accuracy}',
+  'quiz.feedbackStrong': 'Excelente',
+  'quiz.feedbackSolid': 'Sólido',
+  'quiz.feedbackPractice': 'Necesita práctica',
+  'quiz.shareTone': 'Tono para compartir:',
+  'quiz.humble': 'Humilde',
+  'quiz.brag': 'Presumir',
+  'quiz.viewStats': 'Ver tus estadísticas',
+  'quiz.shareOnX': 'Compartir en X',
+  'quiz.startOver': 'Empezar de nuevo',
+  'quiz.replaySeed': 'Repetir estas preguntas',
+  'quiz.seed': 'Semilla de la sesión: {seed}',
+  'quiz.replayNameHint': 'Las sesiones repetidas no entran en la clasificación',
+  'quiz.connectAccount': 'Conecta tu cuenta',
+  'quiz.nameOnLeaderboard': 'Tu nombre aparecerá en la clasificación',
+  'quiz.yourName': 'Tu nombre *',
+  'quiz.namePlaceholder': 'Tu nombre',
+  'quiz.twitterHandle': 'Usuario de Twitter (opcional)',
+  'quiz.twitterHint': 'Conecta tu Twitter para aparecer en la portada',
+  'quiz.saveServerError': 'Error del servidor al guardar la puntuación. Revisa la clasificación: puede que se haya guardado.',
+  'quiz.saveFailed': 'No se pudo guardar la puntuación: {message}',
+  'quiz.saveError': 'Error al guardar la puntuación: {message}',
+
+  'share.brag1': 'Acabo de arrasar en una sesión de Design Gym. Mi ojo está cada vez más afinado.',
+  'share.brag2': 'Otra ronda terminada en Design Gym. Confío en mi instinto de diseño.',
+  'share.brag3': 'Sesión de Design Gym completada. Mi criterio visual está en forma.',
+  'share.brag4': 'Acabo de subir de nivel mi ojo de diseño en Design Gym. Los resultados hablan solos.',
+  'share.humble1': 'Acabo de terminar una sesión en Design Gym. Sigo aprendiendo, pero avanzo.',
+  'share.humble2': 'Otra ronda completada en Design Gym. Cada sesión me enseña algo nuevo.',
+  'share.humble3': 'Sesión de Design Gym terminada. La práctica no hace al maestro, pero ayuda.',
+  'share.humble4': 'Acabo de terminar en Design Gym. Siempre se puede mejorar, pero estoy contento con el esfuerzo.',
+  'share.summary': '{coins} puntos • {accuracy} de precisión',
+
+  'answer.correct': '✓ Correcto {coins} monedas',
+  'answer.yourChoice': '✗ Tu elección',
+  'answer.yourChoiceCoins': '✗ Tu elección {coins} monedas',
+  'answer.clickToSelect': 'Haz clic para elegir',
+  'answer.optionAlt': 'Opción de diseño',
+  'hotspot.missed': '✗ Fallaste: la zona del problema está resaltada',
+  'hotspot.missedCoins': '✗ Fallaste {coins} monedas: la zona del problema está resaltada',
+  'hotspot.hint': 'Haz clic en la parte del diseño que tiene el problema',
+  'hotspot.imageAlt': 'Diseño a revisar',
+  'ranking.hint': 'Arrastra los diseños para ordenarlos, el mejor arriba',
+  'ranking.shouldBe': 'Debería ser el n.º {rank}',
+  'ranking.perfect': '✓ Orden perfecto {coins} monedas',
+  'ranking.partial': '{percent} de los pares en el orden correcto {coins} monedas',
+  'ranking.lockIn': 'Confirmar orden',
+  'ranking.moveUp': 'Subir',
+  'ranking.moveDown': 'Bajar',
+  'ranking.variantAlt': 'Variante de diseño en el puesto {rank}',
+}
+
+const pt: Partial<Record<MessageKey, string>> = {
+  'common.backToHome': 'Voltar ao início',
+  'common.viewLeaderboard': 'Ver ranking',
+  'common.startTraining': 'Começar a treinar',
+  'common.retry': 'Tentar novamente',
+  'common.loading': 'Carregando...',
+  'common.language': 'Idioma',
+
+  'table.rank': 'Posição',
+  'table.name': 'Nome',
+  'table.score': 'Pontos',
+  'table.accuracy': 'Precisão',
+  'table.time': 'Tempo',
+  'table.date': 'Data',
+
+  'principle.layout': 'Layout',
+  'principle.contrast': 'Contraste',
+  'principle.color': 'Cor',
+  'principle.hierarchy': 'Hierarquia',
+  'principle.spacing': 'Espaçamento',
+  'principle.alignment': 'Alinhamento',
+  'principle.typography': 'Tipografia',
+  'principle.copy': 'Textos',
+  'principle.consistency': 'Consistência',
+  'principle.balance': 'Equilíbrio',
+  'principle.feedback': 'Feedback',
+  'principle.imagery': 'Imagens',
+  'principle.iconography': 'Iconografia',
+
+  'home.metaDescription': 'Plataforma onde designers treinam seu olhar visual',
+  'home.designersTraining': 'Mais de 110 designers já estão treinando',
+  'home.firstToConnect': 'Seja o primeiro a conectar seu Twitter!',
+  'home.eyebrow': 'Prática de design confiável, no mundo todo',
+  'home.tagline': 'Pratique sem complicação com um treino de design eficiente e profissional, feito para o que você precisa.',
+  'home.imageAlt': 'Exemplo de treino de design {number}',
+  'home.credit': 'Programado na vibe por',
+  'home.moreModes': 'Outras formas de treinar:',
+  'home.practiceLevel': 'Pratique um só nível:',
+  'home.otherScoring': 'Experimente outra pontuação:',
+
+  'level.beginner': 'Iniciante',
+  'level.mid': 'Intermediário',
+  'level.expert': 'Avançado',
+
+  'questionType.image': 'Comparação de imagens',
+  'questionType.typeface': 'Tipografia',
+  'questionType.hotspot': 'Ponto crítico',
+  'questionType.ranking': 'Ordenação',
+
+  'skill.title': 'Nível de habilidade',
+  'skill.detail': 'Nível {level}, ±{margin}',
+  'skill.sessions': 'Sessões adaptativas: {count}',
+  'skill.none': 'Faça uma sessão adaptativa para descobrir seu nível de habilidade.',
+  'skill.rateMySkill': 'Medir meu nível',
+  'skill.intro': 'As perguntas se adaptam às suas respostas. A sessão termina quando seu nível estiver medido.',
+  'skill.nameForRating': 'Seu nível de habilidade será salvo com o seu nome',
+
+  'review.title': 'Revise seus erros',
+  'review.due': 'Perguntas erradas para revisar: {count}',
+  'review.nothingDue': 'Nada para revisar hoje. As perguntas que você erra voltam em um calendário de repetição espaçada.',
+  'review.start': 'Começar revisão',
+  'review.needsPlayer': 'Abra sua revisão pela sua página de estatísticas.',
+  'review.intro': 'São perguntas que você errou antes. Cada uma volta mais cedo ou mais tarde, dependendo de como você for.',
+  'review.nameHint': 'Seu calendário de revisão fica salvo com este nome',
+
+  'blitz.title': 'Blitz',
+  'blitz.intro': 'Cada pergunta tem uma contagem regressiva de {seconds} segundos. Se o tempo acabar, conta como erro.',
+  'blitz.timeLeft': '{seconds} s',
+  'blitz.timedOut': 'O tempo acabou',
+  'blitz.nextFailed': 'Não foi possível carregar a próxima pergunta. Tente novamente.',
+
+  'scoring.classic': 'Clássica',
+  'scoring.streak': 'Sequência',
+  'scoring.timed': 'Bônus por tempo',
+  'scoring.negative': 'Penalidade por erro',
+  'scoring.streakText': 'Acertos seguidos\nganham até 3× moedas.',
+  'scoring.timedText': 'Acertos mais rápidos\nganham até 200 moedas.',
+  'scoring.negativeText': 'Acertos ganham 100 moedas\ne erros tiram 50.',
+
+  'daily.title': 'Design Gym diário',
+  'daily.intro': 'Hoje todos jogam as mesmas perguntas, e você tem uma só tentativa.',
+  'daily.nameHint': 'Você tem uma tentativa em cada desafio diário, com este nome',
+  'daily.alreadyPlayed': 'Você já jogou este desafio diário. Volte amanhã para um novo.',
+
+  'custom.pageTitle': 'Quiz personalizado - Design Gym',
+  'custom.title': 'Quiz personalizado',
+  'custom.subtitle': 'Monte uma sessão focada e compartilhe o link com sua equipe',
+  'custom.anyHint': 'Deixe um grupo vazio para incluir tudo dele',
+  'custom.levels': 'Níveis',
+  'custom.types': 'Tipos de pergunta',
+  'custom.principles': 'Princípios',
+  'custom.count': 'Número de perguntas',
+  'custom.matching': '{count} perguntas correspondem',
+  'custom.fewerMatching': 'Só {count} perguntas correspondem, então o quiz será mais curto',
+  'custom.noneMatching': 'Nenhuma pergunta corresponde a estes filtros',
+  'custom.sameQuestions': 'Dar a todos as mesmas perguntas',
+  'custom.link': 'Link para compartilhar',
+  'custom.copy': 'Copiar link',
+  'custom.copied': 'Copiado',
+  'custom.start': 'Começar este quiz',
+  'custom.offLeaderboard': 'Os resultados de quizzes personalizados ficam fora do ranking.',
+  'custom.loadFailed': 'Não foi possível carregar o banco de perguntas',
+  'custom.intro': 'Um quiz personalizado de {count} perguntas. Os resultados ficam fora do ranking.',
+  'custom.nameHint': 'Os resultados de quizzes personalizados ficam fora do ranking',
+  'custom.invalidLink': 'Este link de quiz personalizado não funciona. Peça um novo ou monte o seu.',
+  'custom.nothingMatches': 'Nenhuma pergunta corresponde mais a este quiz personalizado. Monte um novo.',
+
+  'leaderboard.pageTitle': 'Ranking - Design Gym',
+  'leaderboard.title': 'Ranking',
+  'leaderboard.subtitle': 'Veja como você se compara a outros designers',
+  'leaderboard.loading': 'Carregando ranking...',
+  'leaderboard.loadFailed': 'Não foi possível carregar o ranking',
+  'leaderboard.empty': 'Nenhum resultado ainda. Seja o primeiro!',
+  'leaderboard.you': 'Você',
+  'leaderboard.global': 'Todos os níveis',
+  'leaderboard.blitz': 'Blitz',
+  'leaderboard.daily': 'Diário',
+  'leaderboard.scoring': 'Pontuação:',
+
+  'stats.pageTitle': 'Seu progresso - Design Gym',
+  'stats.errorPageTitle': 'Estatísticas - Design Gym',
+  'stats.loading': 'Carregando suas estatísticas...',
+  'stats.errorTitle': 'Estatísticas',
+  'stats.noIdentifier': 'Nenhum usuário encontrado. Informe ?name=SeuNome ou ?twitter=SeuUsuario',
+  'stats.notFound': 'Não encontramos suas estatísticas. Informe ?name=SeuNome',
+  'stats.loadFailed': 'Não foi possível carregar as estatísticas',
+  'stats.noStats': 'Nenhuma estatística encontrada',
+  'stats.viewBy': 'Veja as estatísticas em:',
+  'stats.title': 'Seu progresso',
+  'stats.subtitle': 'Acompanhe sua evolução ao longo do tempo',
+  'stats.totalSessions': 'Total de sessões',
+  'stats.personalBest': 'Recorde pessoal',
+  'stats.avgAccuracy': 'Precisão média',
+  'stats.avgTime': 'Tempo médio',
+  'stats.strengthsAndWeaknesses': 'Pontos fortes e fracos',
+  'stats.strengths': 'Pontos fortes',
+  'stats.practiseNext': 'Pratique a seguir',
+  'stats.noStrengths': 'Continue treinando: nenhum princípio acima de {threshold} ainda.',
+  'stats.noWeaknesses': 'Nada abaixo de {threshold}. Ótimo trabalho!',
+  'stats.accuracyTrend': 'Evolução da precisão (últimas 10 sessões)',
+  'stats.session': 'Sessão {number}',
+  'stats.recentSessions': 'Sessões recentes',
+  'stats.practiceAgain': 'Praticar de novo',
+
+  'quiz.pageTitle': 'Design Gym - Treino',
+  'quiz.metaDescription': 'Treine seu olhar visual',
+  'quiz.loadingQuestions': 'Carregando perguntas...',
+  'quiz.loadFailed': 'Não foi possível carregar as perguntas',
+  'quiz.progress': 'Pergunta {current} de {total}',
+  'quiz.adaptiveProgress': 'Pergunta {current} de no máximo {max}',
+  'quiz.loadingFonts': 'Carregando fontes...',
+  'quiz.resumed': 'Bem-vindo de volta: continuamos de onde você parou.',
+  'quiz.startNewSession': 'Começar uma nova sessão',
+  'quiz.answerFailed': 'Não foi possível salvar sua resposta. Tente novamente.',
+  'quiz.startFailed': 'Não foi possível iniciar a sessão. Tente novamente.',
+  'quiz.fontsFailed': 'Não foi possível carregar as fontes desta pergunta',
+  'quiz.nextQuestion': 'Próxima pergunta',
+  'quiz.howItWorks': 'Como o Design Gym funciona',
+  'quiz.choose': 'Escolha',
+  'quiz.chooseText': 'Escolha o melhor\ndesign.',
+  'quiz.compare': 'Compare',
+  'quiz.compareText': 'Revise os dois\ndepois de responder.',
+  'quiz.earn': 'Ganhe',
+  'quiz.earnText': 'Cada acerto\nvale 100 moedas.',
+  'quiz.startTraining': 'Começar a treinar',
+  'quiz.levelComplete': 'Nível {level} concluído!',
+  'quiz.levelCompleteText': 'Mandou bem no nível {level}! Pronto para o nível {next}?',
+  'quiz.stageComplete': 'Etapa {number} de {total} concluída!',
+  'quiz.stageCompleteText': 'Mandou bem! Pronto para as próximas {count} perguntas?',
+  'quiz.continue': 'Continuar para o próximo nível',
+  'quiz.continueStage': 'Continuar',
+  'quiz.sessionComplete': 'Sessão concluída',
+  'quiz.coinsEarned': 'Moedas ganhas',
+  'quiz.accuracy': 'Precisão: {accuracy}',
+  'quiz.feedbackStrong': 'Forte',
+  'quiz.feedbackSolid': 'Sólido',
+  'quiz.feedbackPractice': 'Precisa praticar',
+  'quiz.shareTone': 'Tom do post:',
+  'quiz.humble': 'Humilde',
+  'quiz.brag': 'Exibido',
+  'quiz.viewStats': 'Ver suas estatísticas',
+  'quiz.shareOnX': 'Compartilhar no X',
+  'quiz.startOver': 'Recomeçar',
+  'quiz.replaySeed': 'Repetir estas perguntas',
+  'quiz.seed': 'Semente da sessão: {seed}',
+  'quiz.replayNameHint': 'Sessões repetidas ficam fora do ranking',
+  'quiz.connectAccount': 'Conecte sua conta',
+  'quiz.nameOnLeaderboard': 'Seu nome vai aparecer no ranking',
+  'quiz.yourName': 'Seu nome *',
+  'quiz.namePlaceholder': 'Seu nome',
+  'quiz.twitterHandle': 'Usuário do Twitter (opcional)',
+  'quiz.twitterHint': 'Conecte seu Twitter para aparecer na página inicial',
+  'quiz.saveServerError': 'Erro no servidor ao salvar a pontuação. Confira o ranking: ela pode ter sido salva.',
+  'quiz.saveFailed': 'Não foi possível salvar a pontuação: {message}',
+  'quiz.saveError': 'Erro ao salvar a pontuação: {message}',
+
+  'share.brag1': 'Acabei de arrasar numa sessão do Design Gym. Meu olhar está cada vez mais afiado.',
+  'share.brag2': 'Mais uma rodada no Design Gym. Confiante no meu instinto de design.',
+  'share.brag3': 'Sessão do Design Gym concluída. Meu olhar visual está em dia.',
+  'share.brag4': 'Acabei de subir de nível no Design Gym. Os resultados falam por si.',
+  'share.humble1': 'Acabei de terminar uma sessão no Design Gym. Ainda aprendendo, mas evoluindo.',
+  'share.humble2': 'Mais uma rodada no Design Gym. Cada sessão me ensina algo novo.',
+  'share.humble3': 'Sessão do Design Gym concluída. A prática leva ao progresso, não à perfeição.',
+  'share.humble4': 'Acabei de treinar no Design Gym. Sempre dá para melhorar, mas estou feliz com o esforço.',
+  'share.summary': '{coins} pontos • {accuracy} de precisão',
+
+  'answer.correct': '✓ Correto {coins} moedas',
+  'answer.yourChoice': '✗ Sua escolha',
+  'answer.yourChoiceCoins': '✗ Sua escolha {coins} moedas',
+  'answer.clickToSelect': 'Clique para escolher',
+  'answer.optionAlt': 'Opção de design',
+  'hotspot.missed': '✗ Errou: a área do problema está destacada',
+  'hotspot.missedCoins': '✗ Errou {coins} moedas: a área do problema está destacada',
+  'hotspot.hint': 'Clique na parte do design que tem o problema',
+  'hotspot.imageAlt': 'Design para analisar',
+  'ranking.hint': 'Arraste os designs para ordená-los, o melhor no topo',
+  'ranking.shouldBe': 'Deveria ser o nº {rank}',
+  'ranking.perfect': '✓ Ordem perfeita {coins} moedas',
+  'ranking.partial': '{percent} dos pares na ordem certa {coins} moedas',
+  'ranking.lockIn': 'Confirmar ordem',
+  'ranking.moveUp': 'Mover para cima',
+  'ranking.moveDown': 'Mover para baixo',
+  'ranking.variantAlt': 'Variante de design na posição {rank}',
+}
+
+export const messages: Record<Locale, Partial<Record<MessageKey, string>>> = { en, es, pt }
@@ -1,167 +1,413 @@
+import type { Locale } from './messages'
+
+// Design principles a question can test - used for per-principle accuracy breakdowns
+export const PRINCIPLES = [
+  "layout",
+  "contrast",
+  "color",
+  "hierarchy",
+  "spacing",
+  "alignment",
+  "typography",
+  "copy",
+  "consistency",
+  "balance",
+  "feedback",
+  "imagery",
+  "iconography"
+] as const
+
+export type Principle = typeof PRINCIPLES[number]
+
+// Area of a hotspot image, in coordinates relative to the image (0-1, top-left origin)
+export interface HotspotRegion {
+  x: number
+  y: number
+  width: number
+  height: number
+}
+
+// Mark drawn over an option image once the answer is shown, in coordinates relative to the image (0-1, top-left origin)
+// Boxes outline x/y/width/height, arrows point from x/y to toX/toY, labels sit centred on x/y
+export interface QuestionAnnotation {
+  // Authored index of the option it is drawn on - 0 is optionA
+  option: number
+  kind: "box" | "arrow" | "label"
+  x: number
+  y: number
+  width?: number
+  height?: number
+  toX?: number
+  toY?: number
+  // Required for labels, optional caption for boxes and arrows
+  label?: string
+}
+
+// Self-hosted font file for a typeface question, served from public/ (e.g. /fonts/garamond.woff2)
+export interface QuestionFont {
+  family: string
+  src: string
+  weight?: string
+  style?: string
+}
+
+// Translated text for one locale - any field left out falls back to the English original
+export interface QuestionTranslation {
+  prompt?: string
+  explanation?: string
+  sampleText?: string
+}
+
 export interface Question {
   id: string
+  // Content version, set by the database - bumped whenever the authored content changes
+  version?: number
   difficulty: "beginner" | "mid" | "expert"
-  type: "image" | "typeface"
+  type: "image" | "typeface" | "hotspot" | "ranking"
+  principles: Principle[]
   prompt: string
-  optionA: string
-  optionB: string
-  correctOption: "A"
+  // Two-option questions: optionA is always the correct one
+  optionA?: string
+  optionB?: string
+  correctOption?: "A"
+  // Multi-option questions: two to four options with the index of the correct one
+  // Ranking questions: three to five image variants listed from best to worst, without correctIndex
+  options?: string[]
+  correctIndex?: number
+  // Hotspot questions: one image and the regions that contain the design problem
+  image?: string
+  regions?: HotspotRegion[]
+  // Typeface questions: the text set in each option's font (defaults to foxQuote)
+  // and the font files to load before the question is shown
+  sampleText?: string
+  fonts?: QuestionFont[]
   explanation: string
+  // Image questions: boxes, arrows and labels that point out the difference between the options after answering
+  annotations?: QuestionAnnotation[]
+  // Prompt, explanation and sample text in other locales, keyed by locale
+  translations?: Partial<Record<Locale, QuestionTranslation>>
 }
 
 export const foxQuote = "The quick brown fox jumps over the lazy dog."
 
+// Seed data for the questions table - quiz sessions are dealt from it by /api/sessions
+// New questions added here reach the database via `npm run seed:questions`
 export const questions: Question[] = [
   // BEGINNER LEVEL - IMAGE QUESTIONS (15 total)
   {
     id: "layout-beg-q1",
     difficulty: "beginner",
     type: "image",
+    principles: ["layout"],
     prompt: "Which of these images is most correct?",
     optionA: "/layout-beg-q1-a.png",
     optionB: "/layout-beg-q1-b.png",
     correctOption: "A",
-    explanation: "The correct option demonstrates better layout structure with proper organization of elements. Good layout creates visual order and improves usability."
+    explanation: "The correct option demonstrates better layout structure with proper organization of elements. Good layout creates visual order and improves usability.",
+    translations: {
+      es: {
+        prompt: "¿Cuál de estas imágenes es la más correcta?",
+        explanation: "La opción correcta muestra una mejor estructura de maquetación, con los elementos bien organizados. Una buena maquetación crea orden visual y mejora la usabilidad."
+      },
+      pt: {
+        prompt: "Qual destas imagens é a mais correta?",
+        explanation: "A opção correta mostra uma estrutura de layout melhor, com os elementos bem organizados. Um bom layout cria ordem visual e melhora a usabilidade."
+      }
+    }
   },
   {
     id: "contrast-beg-q2",
     difficulty: "beginner",
     type: "image",
+    principles: ["contrast"],
     prompt: "Which of these images is most correct?",
     optionA: "/contrast-beg-q2-a.png",
     optionB: "/contrast-beg-q2-b.png",
     correctOption: "A",
-    explanation: "The correct option uses appropriate contrast between elements, making important information stand out clearly. Strong contrast improves readability and visual hierarchy."
+    explanation: "The correct option uses appropriate contrast between elements, making important information stand out clearly. Strong contrast improves readability and visual hierarchy.",
+    translations: {
+      es: {
+        prompt: "¿Cuál de estas imágenes es la más correcta?",
+        explanation: "La opción correcta usa un contraste adecuado entre los elementos, de modo que la información importante destaca con claridad. Un buen contraste mejora la legibilidad y la jerarquía visual."
+      },
+      pt: {
+        prompt: "Qual destas imagens é a mais correta?",
+        explanation: "A opção correta usa um contraste adequado entre os elementos, fazendo a informação importante se destacar com clareza. Um bom contraste melhora a legibilidade e a hierarquia visual."
+      }
+    }
   },
   {
     id: "contrast-beg-q3",
     difficulty: "beginner",
     type: "image",
+    principles: ["contrast"],
     prompt: "Which of these images is most correct?",
     optionA: "/contrast-beg-q3-a.png",
     optionB: "/contrast-beg-q3-b.png",
     correctOption: "A",
-    explanation: "The correct option demonstrates better contrast usage, ensuring text and interactive elements are clearly distinguishable from the background."
+    explanation: "The correct option demonstrates better contrast usage, ensuring text and interactive elements are clearly distinguishable from the background.",
+    translations: {
+      es: {
+        prompt: "¿Cuál de estas imágenes es la más correcta?",
+        explanation: "La opción correcta aprovecha mejor el contraste, para que el texto y los elementos interactivos se distingan claramente del fondo."
+      },
+      pt: {
+        prompt: "Qual destas imagens é a mais correta?",
+        explanation: "A opção correta aproveita melhor o contraste, garantindo que o texto e os elementos interativos se distingam claramente do fundo."
+      }
+    }
   },
   {
     id: "color-beg-q4",
     difficulty: "beginner",
     type: "image",
+    principles: ["color"],
     prompt: "Which of these images is most correct?",
     optionA: "/color-beg-q4-a.png",
     optionB: "/color-beg-q4-b.png",
     correctOption: "A",
-    explanation: "The correct option uses color more effectively to communicate meaning and create visual hierarchy. Appropriate color choices enhance usability and aesthetics."
+    explanation: "The correct option uses color more effectively to communicate meaning and create visual hierarchy. Appropriate color choices enhance usability and aesthetics.",
+    translations: {
+      es: {
+        prompt: "¿Cuál de estas imágenes es la más correcta?",
+        explanation: "La opción correcta usa el color de forma más eficaz para comunicar significado y crear jerarquía visual. Una buena elección de colores mejora la usabilidad y la estética."
+      },
+      pt: {
+        prompt: "Qual destas imagens é a mais correta?",
+        explanation: "A opção correta usa a cor de forma mais eficaz para comunicar significado e criar hierarquia visual. Boas escolhas de cor melhoram a usabilidade e a estética."
+      }
+    }
   },
   {
     id: "hierarchy-beg-q5",
     difficulty: "beginner",
     type: "image",
+    principles: ["hierarchy"],
     prompt: "Which of these images is most correct?",
     optionA: "/hierarchy-beg-q5-a.png",
     optionB: "/hierarchy-beg-q5-b.png",
     correctOption: "A",
-    explanation: "The correct option establishes clearer visual hierarchy, guiding the user's attention to the most important elements first. Good hierarchy improves comprehension."
+    explanation: "The correct option establishes clearer visual hierarchy, guiding the user's attention to the most important elements first. Good hierarchy improves comprehension.",
+    translations: {
+      es: {
+        prompt: "¿Cuál de estas imágenes es la más correcta?",
+        explanation: "La opción correcta establece una jerarquía visual más clara y dirige la atención primero a los elementos más importantes. Una buena jerarquía facilita la comprensión."
+      },
+      pt: {
+        prompt: "Qual destas imagens é a mais correta?",
+        explanation: "A opção correta estabelece uma hierarquia visual mais clara e guia a atenção primeiro para os elementos mais importantes. Uma boa hierarquia facilita a compreensão."
+      }
+    }
   },
   {
     id: "color-beg-q6",
     difficulty: "beginner",
     type: "image",
+    principles: ["color"],
     prompt: "Which of these images is most correct?",
     optionA: "/color-beg-q6-a.png",
     optionB: "/color-beg-q6-b.png",
     correctOption: "A",
-    explanation: "The correct option demonstrates better color application, using color strategically to support the design's purpose and improve user experience."
+    explanation: "The correct option demonstrates better color application, using color strategically to support the design's purpose and improve user experience.",
+    translations: {
+      es: {
+        prompt: "¿Cuál de estas imágenes es la más correcta?",
+        explanation: "La opción correcta aplica mejor el color, usándolo de forma estratégica para apoyar el propósito del diseño y mejorar la experiencia de usuario."
+      },
+      pt: {
+        prompt: "Qual destas imagens é a mais correta?",
+        explanation: "A opção correta aplica melhor a cor, usando-a de forma estratégica para apoiar o propósito do design e melhorar a experiência do usuário."
+      }
+    }
   },
   {
     id: "color-beg-q7",
     difficulty: "beginner",
     type: "image",
+    principles: ["color"],
     prompt: "Which of these images is most correct?",
     optionA: "/color-beg-q7-a.png",
     optionB: "/color-beg-q7-b.png",
     correctOption: "A",
-    explanation: "The correct option uses color more appropriately, ensuring sufficient contrast and meaningful color relationships that support the design's goals."
+    explanation: "The correct option uses color more appropriately, ensuring sufficient contrast and meaningful color relationships that support the design's goals.",
+    translations: {
+      es: {
+        prompt: "¿Cuál de estas imágenes es la más correcta?",
+        explanation: "La opción correcta usa el color de forma más apropiada, con suficiente contraste y relaciones de color con sentido que apoyan los objetivos del diseño."
+      },
+      pt: {
+        prompt: "Qual destas imagens é a mais correta?",
+        explanation: "A opção correta usa a cor de forma mais apropriada, com contraste suficiente e relações de cor que fazem sentido e apoiam os objetivos do design."
+      }
+    }
   },
   {
     id: "contrast-beg-q8",
     difficulty: "beginner",
     type: "image",
+    principles: ["contrast"],
     prompt: "Which of these images is most correct?",
     optionA: "/contrast-beg-q8-a.png",
     optionB: "/contrast-beg-q8-b.png",
     correctOption: "A",
-    explanation: "The correct option provides better contrast between foreground and background elements, making content more readable and accessible."
+    explanation: "The correct option provides better contrast between foreground and background elements, making content more readable and accessible.",
+    translations: {
+      es: {
+        prompt: "¿Cuál de estas imágenes es la más correcta?",
+        explanation: "La opción correcta ofrece mejor contraste entre primer plano y fondo, lo que hace el contenido más legible y accesible."
+      },
+      pt: {
+        prompt: "Qual destas imagens é a mais correta?",
+        explanation: "A opção correta oferece melhor contraste entre primeiro plano e fundo, tornando o conteúdo mais legível e acessível."
+      }
+    }
   },
   {
     id: "width thickness-beg-q9",
     difficulty: "beginner",
     type: "image",
+    principles: ["hierarchy"],
     prompt: "Which of these images is most correct?",
     optionA: "/width thickness-beg-q9-a.png",
     optionB: "/width thickness-beg-q9-b.png",
     correctOption: "A",
-    explanation: "The correct option uses appropriate line weights and thicknesses that create clear visual distinctions between elements. Proper weight hierarchy improves clarity."
+    explanation: "The correct option uses appropriate line weights and thicknesses that create clear visual distinctions between elements. Proper weight hierarchy improves clarity.",
+    translations: {
+      es: {
+        prompt: "¿Cuál de estas imágenes es la más correcta?",
+        explanation: "La opción correcta usa grosores de línea adecuados que crean distinciones visuales claras entre los elementos. Una buena jerarquía de grosores mejora la claridad."
+      },
+      pt: {
+        prompt: "Qual destas imagens é a mais correta?",
+        explanation: "A opção correta usa espessuras de linha adequadas que criam distinções visuais claras entre os elementos. Uma boa hierarquia de espessuras melhora a clareza."
+      }
+    }
   },
   {
     id: "visual hierarchy-beg-q10",
     difficulty: "beginner",
     type: "image",
+    principles: ["hierarchy"],
     prompt: "Which of these images is most correct?",
     optionA: "/visual hierarchy-beg-q10-a.png",
     optionB: "/visual hierarchy-beg-q10-b.png",
     correctOption: "A",
-    explanation: "The correct option establishes better visual hierarchy through size, weight, and positioning, making it easier for users to understand the content structure."
+    explanation: "The correct option establishes better visual hierarchy through size, weight, and positioning, making it easier for users to understand the content structure.",
+    translations: {
+      es: {
+        prompt: "¿Cuál de estas imágenes es la más correcta?",
+        explanation: "La opción correcta establece una mejor jerarquía visual mediante el tamaño, el peso y la posición, y así es más fácil entender la estructura del contenido."
+      },
+      pt: {
+        prompt: "Qual destas imagens é a mais correta?",
+        explanation: "A opção correta estabelece uma hierarquia visual melhor por meio de tamanho, peso e posição, facilitando o entendimento da estrutura do conteúdo."
+      }
+    }
   },
   {
     id: "alignment-beg-q11",
     difficulty: "beginner",
     type: "image",
+    principles: ["alignment"],
     prompt: "Which of these images is most correct?",
     optionA: "/alignment-beg-q11-a.png",
     optionB: "/alignment-beg-q11-b.png",
     correctOption: "A",
-    explanation: "The correct option demonstrates better alignment of elements, creating visual order and making the interface appear more organized and professional."
+    explanation: "The correct option demonstrates better alignment of elements, creating visual order and making the interface appear more organized and professional.",
+    translations: {
+      es: {
+        prompt: "¿Cuál de estas imágenes es la más correcta?",
+        explanation: "La opción correcta alinea mejor los elementos, lo que crea orden visual y hace que la interfaz parezca más organizada y profesional."
+      },
+      pt: {
+        prompt: "Qual destas imagens é a mais correta?",
+        explanation: "A opção correta alinha melhor os elementos, criando ordem visual e fazendo a interface parecer mais organizada e profissional."
+      }
+    }
   },
   {
     id: "spacing-beg-q12",
     difficulty: "beginner",
     type: "image",
+    principles: ["spacing"],
     prompt: "Which of these images is most correct?",
     optionA: "/spacing-beg-q12-a.png",
     optionB: "/spacing-beg-q12-b.png",
     correctOption: "A",
-    explanation: "The correct option uses spacing more effectively, providing adequate white space between elements to improve readability and visual clarity."
+    explanation: "The correct option uses spacing more effectively, providing adequate white space between elements to improve readability and visual clarity.",
+    translations: {
+      es: {
+        prompt: "¿Cuál de estas imágenes es la más correcta?",
+        explanation: "La opción correcta usa el espaciado de forma más eficaz, con suficiente espacio en blanco entre elementos para mejorar la legibilidad y la claridad visual."
+      },
+      pt: {
+        prompt: "Qual destas imagens é a mais correta?",
+        explanation: "A opção correta usa o espaçamento de forma mais eficaz, com espaço em branco suficiente entre os elementos para melhorar a legibilidade e a clareza visual."
+      }
+    }
   },
   {
     id: "spacing-beg-q13",
     difficulty: "beginner",
     type: "image",
+    principles: ["spacing"],
     prompt: "Which of these images is most correct?",
     optionA: "/spacing-beg-q13-a.png",
     optionB: "/spacing-beg-q13-b.png",
     correctOption: "A",
-    explanation: "The correct option demonstrates better spacing relationships, creating appropriate visual rhythm and making the interface easier to scan and understand."
+    explanation: "The correct option demonstrates better spacing relationships, creating appropriate visual rhythm and making the interface easier to scan and understand.",
+    translations: {
+      es: {
+        prompt: "¿Cuál de estas imágenes es la más correcta?",
+        explanation: "La opción correcta muestra mejores relaciones de espaciado, con un ritmo visual adecuado que hace la interfaz más fácil de recorrer y entender."
+      },
+      pt: {
+        prompt: "Qual destas imagens é a mais correta?",
+        explanation: "A opção correta mostra relações de espaçamento melhores, com um ritmo visual adequado que torna a interface mais fácil de percorrer e entender."
+      }
+    }
   },
   {
     id: "copy-beg-q14",
     difficulty: "beginner",
     type: "image",
+    principles: ["copy", "typography"],
     prompt: "Which of these images is most correct?",
     optionA: "/copy-beg-q14-a.png",
     optionB: "/copy-beg-q14-b.png",
     correctOption: "A",
-    explanation: "The correct option presents copy more effectively, with better typography and layout that improves readability and user comprehension."
+    explanation: "The correct option presents copy more effectively, with better typography and layout that improves readability and user comprehension.",
+    translations: {
+      es: {
+        prompt: "¿Cuál de estas imágenes es la más correcta?",
+        explanation: "La opción correcta presenta los textos de forma más eficaz, con mejor tipografía y maquetación, lo que mejora la legibilidad y la comprensión."
+      },
+      pt: {
+        prompt: "Qual destas imagens é a mais correta?",
+        explanation: "A opção correta apresenta os textos de forma mais eficaz, com tipografia e layout melhores que aumentam a legibilidade e a compreensão."
+      }
+    }
   },
   {
     id: "contrast-beg-q15",
     difficulty: "beginner",
     type: "image",
+    principles: ["contrast"],
     prompt: "Which of these images is most correct?",
     optionA: "/contrast-beg-q15-a.png",
     optionB: "/contrast-beg-q15-b.png",
     correctOption: "A",
-    explanation: "The correct option uses contrast more appropriately, ensuring that important elements stand out and the interface remains accessible and clear."
+    explanation: "The correct option uses contrast more appropriately, ensuring that important elements stand out and the interface remains accessible and clear.",
+    translations: {
+      es: {
+        prompt: "¿Cuál de estas imágenes es la más correcta?",
+        explanation: "La opción correcta usa el contraste de forma más apropiada: los elementos importantes destacan y la interfaz sigue siendo clara y accesible."
+      },
+      pt: {
+        prompt: "Qual destas imagens é a mais correta?",
+        explanation: "A opção correta usa o contraste de forma mais apropriada: os elementos importantes se destacam e a interface continua clara e acessível."
+      }
+    }
   },
 
   // BEGINNER LEVEL - TYPEFACE QUESTIONS (5 total)
@@ -170,51 +416,135 @@ export const questions: Question[] = [
     id: "typeface-beg-q1",
     difficulty: "beginner",
     type: "typeface",
+    principles: ["typography"],
     prompt: "Which typeface belongs to the serif family?",
     optionA: "'Times New Roman', serif",
     optionB: "'Arial', sans-serif",
     correctOption: "A",
-    explanation: "Times New Roman is a serif typeface, characterized by small decorative strokes (serifs) at the ends of letters. Arial is a sans-serif typeface without these decorative elements."
+    fonts: [
+      { family: "Times New Roman", src: "/fonts/tinos.woff2" },
+      { family: "Arial", src: "/fonts/arimo.woff2" }
+    ],
+    explanation: "Times New Roman is a serif typeface, characterized by small decorative strokes (serifs) at the ends of letters. Arial is a sans-serif typeface without these decorative elements.",
+    translations: {
+      es: {
+        prompt: "¿Qué tipografía pertenece a la familia serif?",
+        explanation: "Times New Roman es una tipografía serif, caracterizada por los pequeños trazos decorativos (serifas) en los extremos de las letras. Arial es una sans serif sin esos elementos decorativos."
+      },
+      pt: {
+        prompt: "Qual fonte pertence à família serifada?",
+        explanation: "Times New Roman é uma fonte serifada, caracterizada pelos pequenos traços decorativos (serifas) nas extremidades das letras. Arial é uma fonte sem serifa, sem esses elementos decorativos."
+      }
+    }
   },
   {
     id: "typeface-beg-q2",
     difficulty: "beginner",
     type: "typeface",
+    principles: ["typography"],
     prompt: "Which typeface works better for a formal business document?",
     optionA: "'Times New Roman', serif",
     optionB: "'Comic Sans MS', sans-serif",
     correctOption: "A",
-    explanation: "Times New Roman is a traditional serif typeface appropriate for formal business documents. Comic Sans MS is an informal, playful font designed for casual use and is inappropriate for formal settings."
+    sampleText: "Quarterly Financial Report: Summary of Results for the Board of Directors",
+    fonts: [
+      { family: "Times New Roman", src: "/fonts/tinos.woff2" },
+      { family: "Comic Sans MS", src: "/fonts/comic-neue.woff2" }
+    ],
+    explanation: "Times New Roman is a traditional serif typeface appropriate for formal business documents. Comic Sans MS is an informal, playful font designed for casual use and is inappropriate for formal settings.",
+    translations: {
+      es: {
+        prompt: "¿Qué tipografía funciona mejor para un documento empresarial formal?",
+        sampleText: "Informe financiero trimestral: resumen de resultados para el Consejo de Administración",
+        explanation: "Times New Roman es una serif tradicional, apropiada para documentos empresariales formales. Comic Sans MS es una fuente informal y desenfadada, pensada para usos casuales e inadecuada en contextos formales."
+      },
+      pt: {
+        prompt: "Qual fonte funciona melhor para um documento empresarial formal?",
+        sampleText: "Relatório financeiro trimestral: resumo dos resultados para o Conselho de Administração",
+        explanation: "Times New Roman é uma fonte serifada tradicional, adequada para documentos empresariais formais. Comic Sans MS é uma fonte informal e descontraída, feita para usos casuais e inadequada em contextos formais."
+      }
+    }
   },
   {
     id: "typeface-beg-q3",
     difficulty: "beginner",
     type: "typeface",
+    principles: ["typography"],
     prompt: "Which typeface is a sans-serif font?",
-    optionA: "'Helvetica', sans-serif",
+    optionA: "'Arial', sans-serif",
     optionB: "'Garamond', serif",
     correctOption: "A",
-    explanation: "Helvetica is a sans-serif typeface, meaning it lacks the decorative strokes (serifs) found at the ends of letters. Garamond is a serif typeface with decorative serifs."
+    fonts: [
+      { family: "Arial", src: "/fonts/arimo.woff2" },
+      { family: "Garamond", src: "/fonts/eb-garamond.woff2" }
+    ],
+    explanation: "Arial is a sans-serif typeface, meaning it lacks the decorative strokes (serifs) found at the ends of letters. Garamond is a serif typeface with decorative serifs.",
+    translations: {
+      es: {
+        prompt: "¿Qué tipografía es sans serif?",
+        explanation: "Arial es una tipografía sans serif, es decir, no tiene los trazos decorativos (serifas) en los extremos de las letras. Garamond es una serif con serifas decorativas."
+      },
+      pt: {
+        prompt: "Qual fonte é sem serifa?",
+        explanation: "Arial é uma fonte sem serifa, ou seja, não tem os traços decorativos (serifas) nas extremidades das letras. Garamond é uma fonte serifada, com serifas decorativas."
+      }
+    }
   },
   {
     id: "typeface-beg-q4",
     difficulty: "beginner",
     type: "typeface",
+    principles: ["typography"],
     prompt: "Which typeface is more appropriate for a children's book?",
     optionA: "'Comic Sans MS', sans-serif",
     optionB: "'Times New Roman', serif",
     correctOption: "A",
-    explanation: "Comic Sans MS is a playful, informal font that works well for children's content. Times New Roman is a formal serif font better suited for academic or business documents."
+    sampleText: "Once upon a time, a little fox found a big red balloon.",
+    fonts: [
+      { family: "Comic Sans MS", src: "/fonts/comic-neue.woff2" },
+      { family: "Times New Roman", src: "/fonts/tinos.woff2" }
+    ],
+    explanation: "Comic Sans MS is a playful, informal font that works well for children's content. Times New Roman is a formal serif font better suited for academic or business documents.",
+    translations: {
+      es: {
+        prompt: "¿Qué tipografía es más apropiada para un libro infantil?",
+        sampleText: "Había una vez un zorrito que encontró un gran globo rojo.",
+        explanation: "Comic Sans MS es una fuente desenfadada e informal que funciona bien en contenidos infantiles. Times New Roman es una serif formal, más adecuada para documentos académicos o empresariales."
+      },
+      pt: {
+        prompt: "Qual fonte é mais adequada para um livro infantil?",
+        sampleText: "Era uma vez uma raposinha que encontrou um grande balão vermelho.",
+        explanation: "Comic Sans MS é uma fonte descontraída e informal que funciona bem em conteúdo infantil. Times New Roman é uma fonte serifada formal, mais adequada para documentos acadêmicos ou empresariais."
+      }
+    }
   },
   {
     id: "typeface-beg-q5",
     difficulty: "beginner",
     type: "typeface",
+    principles: ["typography"],
     prompt: "Which typeface is better for a wedding invitation?",
     optionA: "'Garamond', serif",
     optionB: "'Arial', sans-serif",
     correctOption: "A",
-    explanation: "Garamond is an elegant serif typeface with classic, refined letterforms appropriate for formal occasions like weddings. Arial is a utilitarian sans-serif better suited for modern, casual contexts."
+    sampleText: "Together with their families, Emma and James request the pleasure of your company",
+    fonts: [
+      { family: "Garamond", src: "/fonts/eb-garamond.woff2" },
+      { family: "Arial", src: "/fonts/arimo.woff2" }
+    ],
+    explanation: "Garamond is an elegant serif typeface with classic, refined letterforms appropriate for formal occasions like weddings. Arial is a utilitarian sans-serif better suited for modern, casual contexts.",
+    translations: {
+      es: {
+        prompt: "¿Qué tipografía es mejor para una invitación de boda?",
+        sampleText: "Junto a sus familias, Emma y James tienen el placer de invitarle",
+        explanation: "Garamond es una serif elegante, con formas clásicas y refinadas, apropiada para ocasiones formales como una boda. Arial es una sans serif utilitaria, más adecuada para contextos modernos e informales."
+      },
+      pt: {
+        prompt: "Qual fonte é melhor para um convite de casamento?",
+        sampleText: "Junto com suas famílias, Emma e James têm o prazer de convidar você",
+        explanation: "Garamond é uma fonte serifada elegante, com formas clássicas e refinadas, adequada para ocasiões formais como um casamento. Arial é uma fonte sem serifa utilitária, mais adequada para contextos modernos e informais."
+      }
+    }
   },
 
   // MID LEVEL - IMAGE QUESTIONS (12 total)
@@ -222,121 +552,253 @@ export const questions: Question[] = [
     id: "typo-med-q16",
     difficulty: "mid",
     type: "image",
+    principles: ["typography"],
     prompt: "Which of these images is most correct?",
     optionA: "/typo-med-q16-a.png",
     optionB: "/typo-med-q16-b.png",
     correctOption: "A",
-    explanation: "The correct option demonstrates better typography choices, with appropriate font selection, sizing, and spacing that improve readability and visual hierarchy."
+    explanation: "The correct option demonstrates better typography choices, with appropriate font selection, sizing, and spacing that improve readability and visual hierarchy.",
+    translations: {
+      es: {
+        prompt: "¿Cuál de estas imágenes es la más correcta?",
+        explanation: "La opción correcta toma mejores decisiones tipográficas, con una selección de fuente, tamaño y espaciado que mejora la legibilidad y la jerarquía visual."
+      },
+      pt: {
+        prompt: "Qual destas imagens é a mais correta?",
+        explanation: "A opção correta faz escolhas tipográficas melhores, com seleção de fonte, tamanho e espaçamento que melhoram a legibilidade e a hierarquia visual."
+      }
+    }
   },
   {
     id: "spacing-med-q17",
     difficulty: "mid",
     type: "image",
+    principles: ["spacing"],
     prompt: "Which of these images is most correct?",
     optionA: "/spacing-med-q17-a.png",
     optionB: "/spacing-med-q17-b.png",
     correctOption: "A",
-    explanation: "The correct option uses spacing more strategically, balancing information density with visual breathing room to support both scanning and detailed reading."
+    explanation: "The correct option uses spacing more strategically, balancing information density with visual breathing room to support both scanning and detailed reading.",
+    translations: {
+      es: {
+        prompt: "¿Cuál de estas imágenes es la más correcta?",
+        explanation: "La opción correcta usa el espaciado de forma más estratégica y equilibra la densidad de información con aire visual, para facilitar tanto el escaneo como la lectura detallada."
+      },
+      pt: {
+        prompt: "Qual destas imagens é a mais correta?",
+        explanation: "A opção correta usa o espaçamento de forma mais estratégica, equilibrando a densidade de informação com respiro visual para facilitar tanto a leitura rápida quanto a detalhada."
+      }
+    }
   },
   {
     id: "curve radius consistency-med-q18",
     difficulty: "mid",
     type: "image",
+    principles: ["consistency"],
     prompt: "Which of these images is most correct?",
     optionA: "/curve radius consistency-med-q18-a.png",
     optionB: "/curve radius consistency-med-q18-b.png",
     correctOption: "A",
-    explanation: "The correct option maintains consistent curve radius and corner rounding throughout the interface, creating visual harmony and a more polished appearance."
+    explanation: "The correct option maintains consistent curve radius and corner rounding throughout the interface, creating visual harmony and a more polished appearance.",
+    translations: {
+      es: {
+        prompt: "¿Cuál de estas imágenes es la más correcta?",
+        explanation: "La opción correcta mantiene un radio de curvatura y un redondeo de esquinas coherentes en toda la interfaz, lo que crea armonía visual y un acabado más pulido."
+      },
+      pt: {
+        prompt: "Qual destas imagens é a mais correta?",
+        explanation: "A opção correta mantém um raio de curvatura e um arredondamento de cantos consistentes em toda a interface, criando harmonia visual e um acabamento mais refinado."
+      }
+    }
   },
   {
     id: "selection type-med-q19",
     difficulty: "mid",
     type: "image",
+    principles: ["feedback"],
     prompt: "Which of these images is most correct?",
     optionA: "/selection type-med-q19-a.png",
     optionB: "/selection type-med-q19-b.png",
     correctOption: "A",
-    explanation: "The correct option uses selection states more effectively, providing clear visual feedback that helps users understand their current context and available actions."
+    explanation: "The correct option uses selection states more effectively, providing clear visual feedback that helps users understand their current context and available actions.",
+    translations: {
+      es: {
+        prompt: "¿Cuál de estas imágenes es la más correcta?",
+        explanation: "La opción correcta usa mejor los estados de selección y da un feedback visual claro que ayuda a entender el contexto actual y las acciones disponibles."
+      },
+      pt: {
+        prompt: "Qual destas imagens é a mais correta?",
+        explanation: "A opção correta usa melhor os estados de seleção e dá um feedback visual claro, que ajuda a entender o contexto atual e as ações disponíveis."
+      }
+    }
   },
   {
     id: "size-med-q20",
     difficulty: "mid",
     type: "image",
+    principles: ["hierarchy"],
     prompt: "Which of these images is most correct?",
     optionA: "/size-med-q20-a.png",
     optionB: "/size-med-q20-b.png",
     correctOption: "A",
-    explanation: "The correct option demonstrates better size relationships between elements, creating appropriate visual hierarchy while maintaining functional usability."
+    explanation: "The correct option demonstrates better size relationships between elements, creating appropriate visual hierarchy while maintaining functional usability.",
+    translations: {
+      es: {
+        prompt: "¿Cuál de estas imágenes es la más correcta?",
+        explanation: "La opción correcta muestra mejores relaciones de tamaño entre los elementos, con una jerarquía visual adecuada que no sacrifica la usabilidad."
+      },
+      pt: {
+        prompt: "Qual destas imagens é a mais correta?",
+        explanation: "A opção correta mostra relações de tamanho melhores entre os elementos, com uma hierarquia visual adequada que não sacrifica a usabilidade."
+      }
+    }
   },
   {
     id: "spacing-med-q21",
     difficulty: "mid",
     type: "image",
+    principles: ["spacing"],
     prompt: "Which of these images is most correct?",
     optionA: "/spacing-med-q21-a.png",
     optionB: "/spacing-med-q21-b.png",
     correctOption: "A",
-    explanation: "The correct option balances spacing more effectively, considering both visual rhythm and functional grouping to improve information architecture."
+    explanation: "The correct option balances spacing more effectively, considering both visual rhythm and functional grouping to improve information architecture.",
+    translations: {
+      es: {
+        prompt: "¿Cuál de estas imágenes es la más correcta?",
+        explanation: "La opción correcta equilibra mejor el espaciado, teniendo en cuenta tanto el ritmo visual como la agrupación funcional para mejorar la arquitectura de la información."
+      },
+      pt: {
+        prompt: "Qual destas imagens é a mais correta?",
+        explanation: "A opção correta equilibra melhor o espaçamento, considerando tanto o ritmo visual quanto o agrupamento funcional para melhorar a arquitetura da informação."
+      }
+    }
   },
   {
     id: "contrast-med-q22",
     difficulty: "mid",
     type: "image",
+    principles: ["contrast"],
     prompt: "Which of these images is most correct?",
     optionA: "/contrast-med-q22-a.png",
     optionB: "/contrast-med-q22-b.png",
     correctOption: "A",
-    explanation: "The correct option uses contrast more strategically, applying it where it matters most to guide attention without creating visual noise or overwhelming the user."
+    explanation: "The correct option uses contrast more strategically, applying it where it matters most to guide attention without creating visual noise or overwhelming the user.",
+    translations: {
+      es: {
+        prompt: "¿Cuál de estas imágenes es la más correcta?",
+        explanation: "La opción correcta usa el contraste de forma más estratégica, aplicándolo donde más importa para guiar la atención sin crear ruido visual ni abrumar al usuario."
+      },
+      pt: {
+        prompt: "Qual destas imagens é a mais correta?",
+        explanation: "A opção correta usa o contraste de forma mais estratégica, aplicando-o onde mais importa para guiar a atenção sem criar ruído visual nem sobrecarregar o usuário."
+      }
+    }
   },
   {
     id: "spacing-med-q23",
     difficulty: "mid",
     type: "image",
+    principles: ["spacing", "consistency"],
     prompt: "Which of these images is most correct?",
     optionA: "/spacing-med-q23-a.png",
     optionB: "/spacing-med-q23-b.png",
     correctOption: "A",
-    explanation: "The correct option demonstrates better spacing consistency, using systematic spacing relationships that create visual cohesion and improve the overall design quality."
+    explanation: "The correct option demonstrates better spacing consistency, using systematic spacing relationships that create visual cohesion and improve the overall design quality.",
+    translations: {
+      es: {
+        prompt: "¿Cuál de estas imágenes es la más correcta?",
+        explanation: "La opción correcta tiene un espaciado más coherente, con relaciones sistemáticas que crean cohesión visual y mejoran la calidad general del diseño."
+      },
+      pt: {
+        prompt: "Qual destas imagens é a mais correta?",
+        explanation: "A opção correta tem um espaçamento mais consistente, com relações sistemáticas que criam coesão visual e melhoram a qualidade geral do design."
+      }
+    }
   },
   {
     id: "visual balance-med-q24",
     difficulty: "mid",
     type: "image",
+    principles: ["balance"],
     prompt: "Which of these images is most correct?",
     optionA: "/visual balance-med-q24-a.png",
     optionB: "/visual balance-med-q24-b.png",
     correctOption: "A",
-    explanation: "The correct option achieves better visual balance, distributing visual weight more effectively to create a harmonious and stable composition."
+    explanation: "The correct option achieves better visual balance, distributing visual weight more effectively to create a harmonious and stable composition.",
+    translations: {
+      es: {
+        prompt: "¿Cuál de estas imágenes es la más correcta?",
+        explanation: "La opción correcta logra un mejor equilibrio visual, repartiendo el peso visual para crear una composición armoniosa y estable."
+      },
+      pt: {
+        prompt: "Qual destas imagens é a mais correta?",
+        explanation: "A opção correta alcança um equilíbrio visual melhor, distribuindo o peso visual para criar uma composição harmoniosa e estável."
+      }
+    }
   },
   {
     id: "contrast-med-q25",
     difficulty: "mid",
     type: "image",
+    principles: ["contrast", "hierarchy"],
     prompt: "Which of these images is most correct?",
     optionA: "/contrast-med-q25-a.png",
     optionB: "/contrast-med-q25-b.png",
     correctOption: "A",
-    explanation: "The correct option applies contrast more thoughtfully, using it to establish hierarchy and emphasis while maintaining overall visual harmony."
+    explanation: "The correct option applies contrast more thoughtfully, using it to establish hierarchy and emphasis while maintaining overall visual harmony.",
+    translations: {
+      es: {
+        prompt: "¿Cuál de estas imágenes es la más correcta?",
+        explanation: "La opción correcta aplica el contraste con más criterio, usándolo para establecer jerarquía y énfasis sin perder la armonía visual del conjunto."
+      },
+      pt: {
+        prompt: "Qual destas imagens é a mais correta?",
+        explanation: "A opção correta aplica o contraste com mais critério, usando-o para estabelecer hierarquia e ênfase sem perder a harmonia visual do conjunto."
+      }
+    }
   },
   {
     id: "alignment-med-q26",
     difficulty: "mid",
     type: "image",
+    principles: ["alignment"],
     prompt: "Which of these images is most correct?",
     optionA: "/alignment-med-q26-a.png",
     optionB: "/alignment-med-q26-b.png",
     correctOption: "A",
-    explanation: "The correct option demonstrates better alignment strategy, using consistent alignment patterns that create visual order and improve the interface's professional appearance."
+    explanation: "The correct option demonstrates better alignment strategy, using consistent alignment patterns that create visual order and improve the interface's professional appearance.",
+    translations: {
+      es: {
+        prompt: "¿Cuál de estas imágenes es la más correcta?",
+        explanation: "La opción correcta sigue una mejor estrategia de alineación, con patrones coherentes que crean orden visual y dan a la interfaz un aspecto más profesional."
+      },
+      pt: {
+        prompt: "Qual destas imagens é a mais correta?",
+        explanation: "A opção correta segue uma estratégia de alinhamento melhor, com padrões consistentes que criam ordem visual e dão à interface uma aparência mais profissional."
+      }
+    }
   },
   {
     id: "alignment-med-q27",
     difficulty: "mid",
     type: "image",
+    principles: ["alignment"],
     prompt: "Which of these images is most correct?",
     optionA: "/alignment-med-q27-a.png",
     optionB: "/alignment-med-q27-b.png",
     correctOption: "A",
-    explanation: "The correct option uses alignment more effectively to create visual relationships between elements, improving both aesthetics and usability."
+    explanation: "The correct option uses alignment more effectively to create visual relationships between elements, improving both aesthetics and usability.",
+    translations: {
+      es: {
+        prompt: "¿Cuál de estas imágenes es la más correcta?",
+        explanation: "La opción correcta usa la alineación de forma más eficaz para relacionar visualmente los elementos, lo que mejora tanto la estética como la usabilidad."
+      },
+      pt: {
+        prompt: "Qual destas imagens é a mais correta?",
+        explanation: "A opção correta usa o alinhamento de forma mais eficaz para relacionar visualmente os elementos, melhorando tanto a estética quanto a usabilidade."
+      }
+    }
   },
 
   // MID LEVEL - TYPEFACE QUESTIONS (8 total)
@@ -345,81 +807,222 @@ export const questions: Question[] = [
     id: "typeface-med-q1",
     difficulty: "mid",
     type: "typeface",
+    principles: ["typography"],
     prompt: "Which typeface has better readability for extended reading?",
     optionA: "'Merriweather', serif",
     optionB: "'Courier New', monospace",
     correctOption: "A",
-    explanation: "Merriweather is a serif typeface designed specifically for comfortable reading in long-form content. Courier New is a monospace font designed for code, not body text."
+    sampleText: "The evening light settled over the harbor as the last boats came in. She walked along the quay, counting the masts and wondering which of them would carry her north when the season turned.",
+    fonts: [
+      { family: "Merriweather", src: "/fonts/merriweather.woff2" },
+      { family: "Courier New", src: "/fonts/cousine.woff2" }
+    ],
+    explanation: "Merriweather is a serif typeface designed specifically for comfortable reading in long-form content. Courier New is a monospace font designed for code, not body text.",
+    translations: {
+      es: {
+        prompt: "¿Qué tipografía se lee mejor en textos largos?",
+        sampleText: "La luz de la tarde se posaba sobre el puerto mientras entraban las últimas barcas. Ella paseaba por el muelle, contando los mástiles y preguntándose cuál la llevaría al norte cuando cambiara la estación.",
+        explanation: "Merriweather es una serif diseñada específicamente para leer con comodidad contenidos extensos. Courier New es una fuente monoespaciada pensada para código, no para texto corrido."
+      },
+      pt: {
+        prompt: "Qual fonte tem melhor legibilidade em leituras longas?",
+        sampleText: "A luz do entardecer pousava sobre o porto enquanto os últimos barcos chegavam. Ela caminhava pelo cais, contando os mastros e imaginando qual deles a levaria para o norte quando a estação mudasse.",
+        explanation: "Merriweather é uma fonte serifada criada especificamente para a leitura confortável de textos longos. Courier New é uma fonte monoespaçada pensada para código, não para texto corrido."
+      }
+    }
   },
   {
     id: "typeface-med-q2",
     difficulty: "mid",
     type: "typeface",
+    principles: ["typography"],
     prompt: "Which typeface provides better contrast for accessibility?",
     optionA: "'Open Sans', sans-serif",
     optionB: "'Papyrus', fantasy",
     correctOption: "A",
-    explanation: "Open Sans is a humanist sans-serif designed for excellent readability and contrast on screens. Papyrus is a decorative font with poor readability and contrast."
+    sampleText: "Your appointment is confirmed for Tuesday at 10:30 AM.",
+    fonts: [
+      { family: "Open Sans", src: "/fonts/open-sans.woff2" },
+      { family: "Papyrus", src: "/fonts/uncial-antiqua.woff2" }
+    ],
+    explanation: "Open Sans is a humanist sans-serif designed for excellent readability and contrast on screens. Papyrus is a decorative font with poor readability and contrast.",
+    translations: {
+      es: {
+        prompt: "¿Qué tipografía ofrece mejor contraste para la accesibilidad?",
+        sampleText: "Tu cita está confirmada para el martes a las 10:30.",
+        explanation: "Open Sans es una sans serif humanista diseñada para ofrecer una legibilidad y un contraste excelentes en pantalla. Papyrus es una fuente decorativa con poca legibilidad y poco contraste."
+      },
+      pt: {
+        prompt: "Qual fonte oferece melhor contraste para acessibilidade?",
+        sampleText: "Sua consulta está confirmada para terça-feira às 10h30.",
+        explanation: "Open Sans é uma fonte sem serifa humanista criada para oferecer excelente legibilidade e contraste na tela. Papyrus é uma fonte decorativa com pouca legibilidade e pouco contraste."
+      }
+    }
   },
   {
     id: "typeface-med-q3",
     difficulty: "mid",
     type: "typeface",
+    principles: ["typography"],
     prompt: "Which typeface is Poppins?",
     optionA: "'Poppins', sans-serif",
     optionB: "'Roboto', sans-serif",
     correctOption: "A",
-    explanation: "Poppins is a geometric sans-serif typeface with rounded letterforms, designed by Indian Type Foundry. Roboto is a different geometric sans-serif with distinct character shapes."
+    fonts: [
+      { family: "Poppins", src: "/fonts/poppins.woff2" },
+      { family: "Roboto", src: "/fonts/roboto.woff2" }
+    ],
+    explanation: "Poppins is a geometric sans-serif typeface with rounded letterforms, designed by Indian Type Foundry. Roboto is a different geometric sans-serif with distinct character shapes.",
+    translations: {
+      es: {
+        prompt: "¿Cuál de estas tipografías es Poppins?",
+        explanation: "Poppins es una sans serif geométrica con formas redondeadas, diseñada por Indian Type Foundry. Roboto es otra sans serif geométrica con formas de caracteres distintas."
+      },
+      pt: {
+        prompt: "Qual destas fontes é a Poppins?",
+        explanation: "Poppins é uma fonte sem serifa geométrica com formas arredondadas, criada pela Indian Type Foundry. Roboto é outra sem serifa geométrica, com formas de caracteres diferentes."
+      }
+    }
   },
   {
     id: "typeface-med-q4",
     difficulty: "mid",
     type: "typeface",
+    principles: ["typography"],
     prompt: "Which typeface offers better readability in small sizes?",
     optionA: "'Source Sans Pro', sans-serif",
     optionB: "'Bodoni', serif",
     correctOption: "A",
-    explanation: "Source Sans Pro is designed for optimal screen readability at various sizes. Bodoni is a high-contrast serif font that performs poorly at small sizes due to thin strokes."
+    sampleText: "By continuing you agree to the Terms of Service and Privacy Policy. Fees may apply.",
+    fonts: [
+      { family: "Source Sans Pro", src: "/fonts/source-sans-3.woff2" },
+      { family: "Bodoni", src: "/fonts/libre-bodoni.woff2" }
+    ],
+    explanation: "Source Sans Pro is designed for optimal screen readability at various sizes. Bodoni is a high-contrast serif font that performs poorly at small sizes due to thin strokes.",
+    translations: {
+      es: {
+        prompt: "¿Qué tipografía se lee mejor en tamaños pequeños?",
+        sampleText: "Al continuar aceptas los Términos del servicio y la Política de privacidad. Pueden aplicarse cargos.",
+        explanation: "Source Sans Pro está diseñada para una legibilidad óptima en pantalla a distintos tamaños. Bodoni es una serif de alto contraste que funciona mal en tamaños pequeños por sus trazos finos."
+      },
+      pt: {
+        prompt: "Qual fonte oferece melhor legibilidade em tamanhos pequenos?",
+        sampleText: "Ao continuar, você concorda com os Termos de Serviço e a Política de Privacidade. Podem ser cobradas taxas.",
+        explanation: "Source Sans Pro foi criada para oferecer legibilidade ideal na tela em vários tamanhos. Bodoni é uma fonte serifada de alto contraste que funciona mal em tamanhos pequenos por causa dos traços finos."
+      }
+    }
   },
   {
     id: "typeface-med-q5",
     difficulty: "mid",
     type: "typeface",
+    principles: ["typography"],
     prompt: "Which typeface has better contrast for UI elements?",
     optionA: "'Inter', sans-serif",
     optionB: "'Brush Script', cursive",
     correctOption: "A",
-    explanation: "Inter is a typeface specifically designed for user interfaces with excellent letter clarity and contrast. Brush Script is a decorative script font unsuitable for UI elements."
+    sampleText: "Save changes  ·  Cancel  ·  Settings",
+    fonts: [
+      { family: "Inter", src: "/fonts/inter.woff2" },
+      { family: "Brush Script", src: "/fonts/yesteryear.woff2" }
+    ],
+    explanation: "Inter is a typeface specifically designed for user interfaces with excellent letter clarity and contrast. Brush Script is a decorative script font unsuitable for UI elements.",
+    translations: {
+      es: {
+        prompt: "¿Qué tipografía tiene mejor contraste para elementos de interfaz?",
+        sampleText: "Guardar cambios  ·  Cancelar  ·  Ajustes",
+        explanation: "Inter es una tipografía diseñada específicamente para interfaces, con letras claras y buen contraste. Brush Script es una fuente caligráfica decorativa, inadecuada para elementos de interfaz."
+      },
+      pt: {
+        prompt: "Qual fonte tem melhor contraste para elementos de interface?",
+        sampleText: "Salvar alterações  ·  Cancelar  ·  Configurações",
+        explanation: "Inter é uma fonte criada especificamente para interfaces, com letras nítidas e bom contraste. Brush Script é uma fonte cursiva decorativa, inadequada para elementos de interface."
+      }
+    }
   },
   {
     id: "typeface-med-q6",
     difficulty: "mid",
     type: "typeface",
+    principles: ["typography"],
     prompt: "Which typeface is more appropriate for a modern web interface?",
     optionA: "'System UI', sans-serif",
     optionB: "'Old English Text MT', serif",
     correctOption: "A",
-    explanation: "System UI fonts are designed for modern digital interfaces with optimal readability and performance. Old English Text MT is a decorative blackletter font inappropriate for UI."
+    sampleText: "Dashboard  ·  Projects  ·  Team  ·  Sign out",
+    fonts: [
+      { family: "System UI", src: "/fonts/roboto.woff2" },
+      { family: "Old English Text MT", src: "/fonts/unifrakturmaguntia.woff2" }
+    ],
+    explanation: "System UI fonts are designed for modern digital interfaces with optimal readability and performance. Old English Text MT is a decorative blackletter font inappropriate for UI.",
+    translations: {
+      es: {
+        prompt: "¿Qué tipografía es más apropiada para una interfaz web moderna?",
+        sampleText: "Panel  ·  Proyectos  ·  Equipo  ·  Cerrar sesión",
+        explanation: "Las fuentes del sistema están diseñadas para interfaces digitales modernas, con una legibilidad y un rendimiento óptimos. Old English Text MT es una fuente gótica decorativa, inadecuada para interfaces."
+      },
+      pt: {
+        prompt: "Qual fonte é mais adequada para uma interface web moderna?",
+        sampleText: "Painel  ·  Projetos  ·  Equipe  ·  Sair",
+        explanation: "As fontes do sistema foram feitas para interfaces digitais modernas, com legibilidade e desempenho ideais. Old English Text MT é uma fonte gótica decorativa, inadequada para interfaces."
+      }
+    }
   },
   {
     id: "typeface-med-q7",
     difficulty: "mid",
     type: "typeface",
+    principles: ["typography"],
     prompt: "Which typeface provides better readability in body text?",
     optionA: "'Lora', serif",
     optionB: "'Impact', sans-serif",
     correctOption: "A",
-    explanation: "Lora is a serif typeface designed for comfortable reading in body text. Impact is a condensed display font meant for headlines, not extended reading."
+    sampleText: "Good typography is invisible. Readers should notice the ideas on the page, not the letters that carry them, and move from line to line without effort.",
+    fonts: [
+      { family: "Lora", src: "/fonts/lora.woff2" },
+      { family: "Impact", src: "/fonts/anton.woff2" }
+    ],
+    explanation: "Lora is a serif typeface designed for comfortable reading in body text. Impact is a condensed display font meant for headlines, not extended reading.",
+    translations: {
+      es: {
+        prompt: "¿Qué tipografía ofrece mejor legibilidad en texto corrido?",
+        sampleText: "La buena tipografía es invisible. Quien lee debería fijarse en las ideas de la página, no en las letras que las transportan, y pasar de una línea a otra sin esfuerzo.",
+        explanation: "Lora es una serif diseñada para leer con comodidad en texto corrido. Impact es una fuente condensada de titulares, no pensada para lecturas extensas."
+      },
+      pt: {
+        prompt: "Qual fonte oferece melhor legibilidade em texto corrido?",
+        sampleText: "A boa tipografia é invisível. Quem lê deve perceber as ideias na página, não as letras que as carregam, e passar de uma linha para outra sem esforço.",
+        explanation: "Lora é uma fonte serifada criada para leitura confortável em texto corrido. Impact é uma fonte condensada para títulos, não para leituras longas."
+      }
+    }
   },
   {
     id: "typeface-med-q8",
     difficulty: "mid",
     type: "typeface",
+    principles: ["typography"],
     prompt: "Which typeface has better letter spacing for readability?",
     optionA: "'PT Sans', sans-serif",
     optionB: "'Stencil', fantasy",
     correctOption: "A",
-    explanation: "PT Sans is designed with optimal letter spacing for screen readability. Stencil is a display font with tight spacing that reduces readability in body text."
+    sampleText: "Minimum 8 characters, including one number and one symbol.",
+    fonts: [
+      { family: "PT Sans", src: "/fonts/pt-sans.woff2" },
+      { family: "Stencil", src: "/fonts/stardos-stencil.woff2" }
+    ],
+    explanation: "PT Sans is designed with optimal letter spacing for screen readability. Stencil is a display font with tight spacing that reduces readability in body text.",
+    translations: {
+      es: {
+        prompt: "¿Qué tipografía tiene un espaciado entre letras más legible?",
+        sampleText: "Mínimo 8 caracteres, con al menos un número y un símbolo.",
+        explanation: "PT Sans está diseñada con un espaciado entre letras óptimo para leer en pantalla. Stencil es una fuente de exhibición con un espaciado apretado que dificulta la lectura en texto corrido."
+      },
+      pt: {
+        prompt: "Qual fonte tem espaçamento entre letras mais legível?",
+        sampleText: "Mínimo de 8 caracteres, com pelo menos um número e um símbolo.",
+        explanation: "PT Sans foi criada com espaçamento entre letras ideal para leitura na tela. Stencil é uma fonte de exibição com espaçamento apertado que prejudica a leitura em texto corrido."
+      }
+    }
   },
 
   // EXPERT LEVEL - IMAGE QUESTIONS (13 total)
@@ -427,131 +1030,274 @@ export const questions: Question[] = [
     id: "info break-exp-q28",
     difficulty: "expert",
     type: "image",
+    principles: ["layout"],
     prompt: "Which of these images is most correct?",
     optionA: "/info break-exp-q28-a.png",
     optionB: "/info break-exp-q28-a-1.png",
     correctOption: "A",
-    explanation: "The correct option handles information breaks more effectively, using appropriate visual separation and grouping to improve information architecture and cognitive load."
+    explanation: "The correct option handles information breaks more effectively, using appropriate visual separation and grouping to improve information architecture and cognitive load.",
+    translations: {
+      es: {
+        prompt: "¿Cuál de estas imágenes es la más correcta?",
+        explanation: "La opción correcta gestiona mejor las separaciones de información, con una separación visual y una agrupación adecuadas que mejoran la arquitectura de la información y reducen la carga cognitiva."
+      },
+      pt: {
+        prompt: "Qual destas imagens é a mais correta?",
+        explanation: "A opção correta lida melhor com as quebras de informação, usando separação visual e agrupamento adequados que melhoram a arquitetura da informação e reduzem a carga cognitiva."
+      }
+    }
   },
   {
     id: "spacing-exp-q29",
     difficulty: "expert",
     type: "image",
+    principles: ["spacing"],
     prompt: "Which of these images is most correct?",
     optionA: "/spacing-exp-q29-a.png",
     optionB: "/spacing-exp-q29-b.png",
     correctOption: "A",
-    explanation: "The correct option demonstrates more sophisticated spacing relationships, using nuanced spacing to create subtle visual hierarchy and improve information density."
+    explanation: "The correct option demonstrates more sophisticated spacing relationships, using nuanced spacing to create subtle visual hierarchy and improve information density.",
+    translations: {
+      es: {
+        prompt: "¿Cuál de estas imágenes es la más correcta?",
+        explanation: "La opción correcta muestra relaciones de espaciado más sofisticadas, con matices que crean una jerarquía visual sutil y mejoran la densidad de información."
+      },
+      pt: {
+        prompt: "Qual destas imagens é a mais correta?",
+        explanation: "A opção correta mostra relações de espaçamento mais sofisticadas, com nuances que criam uma hierarquia visual sutil e melhoram a densidade de informação."
+      }
+    }
   },
   {
     id: "spacing-exp-q30",
     difficulty: "expert",
     type: "image",
+    principles: ["spacing"],
     prompt: "Which of these images is most correct?",
     optionA: "/spacing-exp-q30-a.png",
     optionB: "/spacing-exp-q30-a-1.png",
     correctOption: "A",
-    explanation: "The correct option uses spacing more precisely, applying advanced spacing principles to optimize both visual rhythm and functional relationships between elements."
+    explanation: "The correct option uses spacing more precisely, applying advanced spacing principles to optimize both visual rhythm and functional relationships between elements.",
+    translations: {
+      es: {
+        prompt: "¿Cuál de estas imágenes es la más correcta?",
+        explanation: "La opción correcta usa el espaciado con más precisión, aplicando principios avanzados para optimizar tanto el ritmo visual como las relaciones funcionales entre elementos."
+      },
+      pt: {
+        prompt: "Qual destas imagens é a mais correta?",
+        explanation: "A opção correta usa o espaçamento com mais precisão, aplicando princípios avançados para otimizar tanto o ritmo visual quanto as relações funcionais entre os elementos."
+      }
+    }
   },
   {
     id: "line spacing-exp-q31",
     difficulty: "expert",
     type: "image",
+    principles: ["typography", "spacing"],
     prompt: "Which of these images is most correct?",
     optionA: "/line spacing-exp-q31-a.png",
     optionB: "/line spacing-exp-q31-b.png",
     correctOption: "A",
-    explanation: "The correct option demonstrates better line spacing (leading), using optimal line height that improves readability and creates appropriate visual rhythm in text blocks."
+    explanation: "The correct option demonstrates better line spacing (leading), using optimal line height that improves readability and creates appropriate visual rhythm in text blocks.",
+    translations: {
+      es: {
+        prompt: "¿Cuál de estas imágenes es la más correcta?",
+        explanation: "La opción correcta tiene un mejor interlineado, con una altura de línea óptima que mejora la legibilidad y crea un ritmo visual adecuado en los bloques de texto."
+      },
+      pt: {
+        prompt: "Qual destas imagens é a mais correta?",
+        explanation: "A opção correta tem um entrelinhamento melhor, com uma altura de linha ideal que melhora a legibilidade e cria um ritmo visual adequado nos blocos de texto."
+      }
+    }
   },
   {
     id: "Typo-exp-q32",
     difficulty: "expert",
     type: "image",
+    principles: ["typography"],
     prompt: "Which of these images is most correct?",
     optionA: "/Typo-exp-q32-a.png",
     optionB: "/Typo-exp-q32-b.png",
     correctOption: "A",
-    explanation: "The correct option shows more refined typography, with precise font selection, sizing, and spacing that demonstrates advanced typographic understanding."
+    explanation: "The correct option shows more refined typography, with precise font selection, sizing, and spacing that demonstrates advanced typographic understanding.",
+    translations: {
+      es: {
+        prompt: "¿Cuál de estas imágenes es la más correcta?",
+        explanation: "La opción correcta muestra una tipografía más refinada, con una selección de fuente, tamaño y espaciado precisa que demuestra un dominio tipográfico avanzado."
+      },
+      pt: {
+        prompt: "Qual destas imagens é a mais correta?",
+        explanation: "A opção correta mostra uma tipografia mais refinada, com seleção de fonte, tamanho e espaçamento precisos que demonstram domínio tipográfico avançado."
+      }
+    }
   },
   {
     id: "contrast-exp-q33",
     difficulty: "expert",
     type: "image",
+    principles: ["contrast"],
     prompt: "Which of these images is most correct?",
     optionA: "/contrast-exp-q33-a.png",
     optionB: "/contrast-exp-q33-b.png",
     correctOption: "A",
-    explanation: "The correct option applies contrast with greater sophistication, using subtle contrast relationships to create nuanced hierarchy without visual noise."
+    explanation: "The correct option applies contrast with greater sophistication, using subtle contrast relationships to create nuanced hierarchy without visual noise.",
+    translations: {
+      es: {
+        prompt: "¿Cuál de estas imágenes es la más correcta?",
+        explanation: "La opción correcta aplica el contraste con mayor sofisticación, usando relaciones de contraste sutiles para crear una jerarquía con matices sin ruido visual."
+      },
+      pt: {
+        prompt: "Qual destas imagens é a mais correta?",
+        explanation: "A opção correta aplica o contraste com mais sofisticação, usando relações de contraste sutis para criar uma hierarquia com nuances e sem ruído visual."
+      }
+    }
   },
   {
     id: "alignment-exp-q34",
     difficulty: "expert",
     type: "image",
+    principles: ["alignment"],
     prompt: "Which of these images is most correct?",
     optionA: "/alignment-exp-q34-a.png",
     optionB: "/alignment-exp-q34-b.png",
     correctOption: "A",
-    explanation: "The correct option demonstrates advanced alignment principles, using complex alignment relationships to create sophisticated visual structure and improve information architecture."
+    explanation: "The correct option demonstrates advanced alignment principles, using complex alignment relationships to create sophisticated visual structure and improve information architecture.",
+    translations: {
+      es: {
+        prompt: "¿Cuál de estas imágenes es la más correcta?",
+        explanation: "La opción correcta aplica principios de alineación avanzados, con relaciones complejas que crean una estructura visual sofisticada y mejoran la arquitectura de la información."
+      },
+      pt: {
+        prompt: "Qual destas imagens é a mais correta?",
+        explanation: "A opção correta aplica princípios de alinhamento avançados, com relações complexas que criam uma estrutura visual sofisticada e melhoram a arquitetura da informação."
+      }
+    }
   },
   {
     id: "font-exp-q35",
     difficulty: "expert",
     type: "image",
+    principles: ["typography"],
     prompt: "Which of these images is most correct?",
     optionA: "/font-exp-q35-a.png",
     optionB: "/font-exp-q35-b.png",
     correctOption: "A",
-    explanation: "The correct option shows more refined font usage, with appropriate typeface selection and application that demonstrates expert-level typographic judgment."
+    explanation: "The correct option shows more refined font usage, with appropriate typeface selection and application that demonstrates expert-level typographic judgment.",
+    translations: {
+      es: {
+        prompt: "¿Cuál de estas imágenes es la más correcta?",
+        explanation: "La opción correcta hace un uso más refinado de las fuentes, con una selección y aplicación de tipografías que demuestra un criterio tipográfico experto."
+      },
+      pt: {
+        prompt: "Qual destas imagens é a mais correta?",
+        explanation: "A opção correta faz um uso mais refinado das fontes, com seleção e aplicação de tipografias que demonstram um critério tipográfico de especialista."
+      }
+    }
   },
   {
     id: "alignment-exp-q36",
     difficulty: "expert",
     type: "image",
+    principles: ["alignment"],
     prompt: "Which of these images is most correct?",
     optionA: "/alignment-exp-q36-a.png",
     optionB: "/alignment-exp-q36-b.png",
     correctOption: "A",
-    explanation: "The correct option uses alignment more strategically, applying advanced alignment techniques to create sophisticated visual relationships and improve overall design quality."
+    explanation: "The correct option uses alignment more strategically, applying advanced alignment techniques to create sophisticated visual relationships and improve overall design quality.",
+    translations: {
+      es: {
+        prompt: "¿Cuál de estas imágenes es la más correcta?",
+        explanation: "La opción correcta usa la alineación de forma más estratégica, con técnicas avanzadas que crean relaciones visuales sofisticadas y mejoran la calidad general del diseño."
+      },
+      pt: {
+        prompt: "Qual destas imagens é a mais correta?",
+        explanation: "A opção correta usa o alinhamento de forma mais estratégica, com técnicas avançadas que criam relações visuais sofisticadas e melhoram a qualidade geral do design."
+      }
+    }
   },
   {
     id: "image quality-exp-q37",
     difficulty: "expert",
     type: "image",
+    principles: ["imagery"],
     prompt: "Which of these images is most correct?",
     optionA: "/image quality-exp-q37-a.png",
     optionB: "/image quality-exp-q37-b.png",
     correctOption: "A",
-    explanation: "The correct option demonstrates better image quality and optimization, using appropriate resolution, compression, and presentation that maintains visual quality while supporting performance."
+    explanation: "The correct option demonstrates better image quality and optimization, using appropriate resolution, compression, and presentation that maintains visual quality while supporting performance.",
+    translations: {
+      es: {
+        prompt: "¿Cuál de estas imágenes es la más correcta?",
+        explanation: "La opción correcta muestra una mejor calidad y optimización de imagen, con una resolución, compresión y presentación adecuadas que mantienen la calidad visual sin perjudicar el rendimiento."
+      },
+      pt: {
+        prompt: "Qual destas imagens é a mais correta?",
+        explanation: "A opção correta mostra melhor qualidade e otimização de imagem, com resolução, compressão e apresentação adequadas que mantêm a qualidade visual sem prejudicar o desempenho."
+      }
+    }
   },
   {
     id: "border width-exp-q38",
     difficulty: "expert",
     type: "image",
+    principles: ["consistency"],
     prompt: "Which of these images is most correct?",
     optionA: "/border width-exp-q38-a.png",
     optionB: "/border width-exp-q38-b.png",
     correctOption: "A",
-    explanation: "The correct option uses border widths more appropriately, applying consistent and purposeful border weights that support visual hierarchy and design consistency."
+    explanation: "The correct option uses border widths more appropriately, applying consistent and purposeful border weights that support visual hierarchy and design consistency.",
+    translations: {
+      es: {
+        prompt: "¿Cuál de estas imágenes es la más correcta?",
+        explanation: "La opción correcta usa los grosores de borde de forma más apropiada, con pesos coherentes e intencionados que apoyan la jerarquía visual y la coherencia del diseño."
+      },
+      pt: {
+        prompt: "Qual destas imagens é a mais correta?",
+        explanation: "A opção correta usa as espessuras de borda de forma mais apropriada, com pesos consistentes e intencionais que apoiam a hierarquia visual e a consistência do design."
+      }
+    }
   },
   {
     id: "image size-exp-q39",
     difficulty: "expert",
     type: "image",
+    principles: ["imagery"],
     prompt: "Which of these images is most correct?",
     optionA: "/image size-exp-q39-a.png",
     optionB: "/image size-exp-q39-b.png",
     correctOption: "A",
-    explanation: "The correct option demonstrates better image sizing, using appropriate dimensions and aspect ratios that support both visual impact and functional requirements."
+    explanation: "The correct option demonstrates better image sizing, using appropriate dimensions and aspect ratios that support both visual impact and functional requirements.",
+    translations: {
+      es: {
+        prompt: "¿Cuál de estas imágenes es la más correcta?",
+        explanation: "La opción correcta dimensiona mejor las imágenes, con medidas y proporciones adecuadas que aportan impacto visual y cumplen los requisitos funcionales."
+      },
+      pt: {
+        prompt: "Qual destas imagens é a mais correta?",
+        explanation: "A opção correta dimensiona melhor as imagens, com medidas e proporções adequadas que trazem impacto visual e atendem aos requisitos funcionais."
+      }
+    }
   },
   {
     id: "icon style-exp-q40",
     difficulty: "expert",
     type: "image",
+    principles: ["iconography", "consistency"],
     prompt: "Which of these images is most correct?",
     optionA: "/icon style-exp-q40-a.png",
     optionB: "/icon style-exp-q40-b.png",
     correctOption: "A",
-    explanation: "The correct option shows more consistent icon styling, using unified visual language and appropriate icon design that maintains coherence throughout the interface."
+    explanation: "The correct option shows more consistent icon styling, using unified visual language and appropriate icon design that maintains coherence throughout the interface.",
+    translations: {
+      es: {
+        prompt: "¿Cuál de estas imágenes es la más correcta?",
+        explanation: "La opción correcta tiene un estilo de iconos más coherente, con un lenguaje visual unificado que mantiene la cohesión en toda la interfaz."
+      },
+      pt: {
+        prompt: "Qual destas imagens é a mais correta?",
+        explanation: "A opção correta tem um estilo de ícones mais consistente, com uma linguagem visual unificada que mantém a coesão em toda a interface."
+      }
+    }
   },
 
   // EXPERT LEVEL - TYPEFACE QUESTIONS (7 total)
@@ -559,70 +1305,175 @@ export const questions: Question[] = [
     id: "typeface-exp-q1",
     difficulty: "expert",
     type: "typeface",
-    prompt: "Which typeface is Arial?",
-    optionA: "'Arial', sans-serif",
-    optionB: "'Helvetica', sans-serif",
+    principles: ["typography"],
+    prompt: "Which typeface is Open Sans?",
+    optionA: "'Open Sans', sans-serif",
+    optionB: "'Source Sans 3', sans-serif",
     correctOption: "A",
-    explanation: "Arial is a sans-serif typeface with specific character shapes, including a slanted tail on the lowercase 't' and rounded terminals. Helvetica has a horizontal tail on 't' and square terminals."
+    fonts: [
+      { family: "Open Sans", src: "/fonts/open-sans.woff2" },
+      { family: "Source Sans 3", src: "/fonts/source-sans-3.woff2" }
+    ],
+    explanation: "Open Sans, designed by Steve Matteson, has wide open apertures and a tall x-height for legibility on screens. Source Sans, Adobe's first open-source family, is narrower with a lower x-height, drawing on American gothics like News Gothic and Franklin Gothic.",
+    translations: {
+      es: {
+        prompt: "¿Cuál de estas tipografías es Open Sans?",
+        explanation: "Open Sans, diseñada por Steve Matteson, tiene aberturas amplias y una altura de x grande para leerse bien en pantalla. Source Sans, la primera familia de código abierto de Adobe, es más estrecha y con una altura de x menor, inspirada en góticas americanas como News Gothic y Franklin Gothic."
+      },
+      pt: {
+        prompt: "Qual destas fontes é a Open Sans?",
+        explanation: "Open Sans, criada por Steve Matteson, tem aberturas amplas e altura-x grande para ser legível na tela. Source Sans, a primeira família de código aberto da Adobe, é mais estreita e tem altura-x menor, inspirada em góticas americanas como News Gothic e Franklin Gothic."
+      }
+    }
   },
   {
     id: "typeface-exp-q2",
     difficulty: "expert",
     type: "typeface",
-    prompt: "Which typeface is Helvetica?",
-    optionA: "'Helvetica', sans-serif",
-    optionB: "'Arial', sans-serif",
+    principles: ["typography"],
+    prompt: "Which typeface is Inter?",
+    optionA: "'Inter', sans-serif",
+    optionB: "'Roboto', sans-serif",
     correctOption: "A",
-    explanation: "Helvetica is characterized by its square terminals, horizontal tail on lowercase 't', and uniform stroke widths. Arial has more rounded terminals and a slanted 't' tail."
+    fonts: [
+      { family: "Inter", src: "/fonts/inter.woff2" },
+      { family: "Roboto", src: "/fonts/roboto.woff2" }
+    ],
+    explanation: "Inter, designed by Rasmus Andersson for user interfaces, has a very tall x-height and generous widths for small text on screens. Roboto, designed by Christian Robertson for Android, is narrower, with a mechanical skeleton and a more compact rhythm.",
+    translations: {
+      es: {
+        prompt: "¿Cuál de estas tipografías es Inter?",
+        explanation: "Inter, diseñada por Rasmus Andersson para interfaces, tiene una altura de x muy grande y letras amplias para textos pequeños en pantalla. Roboto, diseñada por Christian Robertson para Android, es más estrecha, con un esqueleto mecánico y un ritmo más compacto."
+      },
+      pt: {
+        prompt: "Qual destas fontes é a Inter?",
+        explanation: "Inter, criada por Rasmus Andersson para interfaces, tem altura-x muito grande e letras largas para textos pequenos na tela. Roboto, criada por Christian Robertson para o Android, é mais estreita, com esqueleto mecânico e ritmo mais compacto."
+      }
+    }
   },
   {
     id: "typeface-exp-q3",
     difficulty: "expert",
     type: "typeface",
+    principles: ["typography"],
     prompt: "Which typeface is Georgia?",
     optionA: "'Georgia', serif",
     optionB: "'Times New Roman', serif",
     correctOption: "A",
-    explanation: "Georgia has wider letterforms, larger x-height, and more generous spacing designed specifically for screen readability. Times New Roman has narrower proportions optimized for print."
+    fonts: [
+      { family: "Georgia", src: "/fonts/gelasio.woff2" },
+      { family: "Times New Roman", src: "/fonts/tinos.woff2" }
+    ],
+    explanation: "Georgia has wider letterforms, larger x-height, and more generous spacing designed specifically for screen readability. Times New Roman has narrower proportions optimized for print.",
+    translations: {
+      es: {
+        prompt: "¿Cuál de estas tipografías es Georgia?",
+        explanation: "Georgia tiene letras más anchas, una altura de x mayor y un espaciado más generoso, diseñados específicamente para leer en pantalla. Times New Roman tiene proporciones más estrechas, optimizadas para impresión."
+      },
+      pt: {
+        prompt: "Qual destas fontes é a Georgia?",
+        explanation: "Georgia tem letras mais largas, altura-x maior e espaçamento mais generoso, pensados especificamente para leitura na tela. Times New Roman tem proporções mais estreitas, otimizadas para impressão."
+      }
+    }
   },
   {
     id: "typeface-exp-q4",
     difficulty: "expert",
     type: "typeface",
-    prompt: "Which typeface is Verdana?",
-    optionA: "'Verdana', sans-serif",
-    optionB: "'Tahoma', sans-serif",
+    principles: ["typography"],
+    prompt: "Which typeface is Merriweather?",
+    optionA: "'Merriweather', serif",
+    optionB: "'Lora', serif",
     correctOption: "A",
-    explanation: "Verdana has very wide letterforms and generous spacing, designed by Matthew Carter for Microsoft. Tahoma is narrower with tighter spacing, also designed by Carter but with different proportions."
+    fonts: [
+      { family: "Merriweather", src: "/fonts/merriweather.woff2" },
+      { family: "Lora", src: "/fonts/lora.woff2" }
+    ],
+    explanation: "Merriweather, designed by Eben Sorkin for reading on screens, has a large x-height, slightly condensed letters and sturdy, wedge-like serifs. Lora has calligraphic roots, with brushed curves and more contrast between thick and thin strokes.",
+    translations: {
+      es: {
+        prompt: "¿Cuál de estas tipografías es Merriweather?",
+        explanation: "Merriweather, diseñada por Eben Sorkin para leer en pantalla, tiene una altura de x grande, letras algo condensadas y serifas robustas en forma de cuña. Lora tiene raíces caligráficas, con curvas de pincel y más contraste entre trazos gruesos y finos."
+      },
+      pt: {
+        prompt: "Qual destas fontes é a Merriweather?",
+        explanation: "Merriweather, criada por Eben Sorkin para leitura na tela, tem altura-x grande, letras um pouco condensadas e serifas robustas em forma de cunha. Lora tem raízes caligráficas, com curvas de pincel e mais contraste entre traços grossos e finos."
+      }
+    }
   },
   {
     id: "typeface-exp-q5",
     difficulty: "expert",
     type: "typeface",
+    principles: ["typography"],
     prompt: "Which typeface is Garamond?",
     optionA: "'Garamond', serif",
     optionB: "'Baskerville', serif",
     correctOption: "A",
-    explanation: "Garamond is an old-style serif with bracketed serifs, moderate contrast, and a smaller x-height. Baskerville is a transitional serif with higher contrast and sharper serifs."
+    fonts: [
+      { family: "Garamond", src: "/fonts/eb-garamond.woff2" },
+      { family: "Baskerville", src: "/fonts/libre-baskerville.woff2" }
+    ],
+    explanation: "Garamond is an old-style serif with bracketed serifs, moderate contrast, and a smaller x-height. Baskerville is a transitional serif with higher contrast and sharper serifs.",
+    translations: {
+      es: {
+        prompt: "¿Cuál de estas tipografías es Garamond?",
+        explanation: "Garamond es una serif de estilo antiguo, con serifas con apófige, contraste moderado y una altura de x menor. Baskerville es una serif de transición, con más contraste y serifas más afiladas."
+      },
+      pt: {
+        prompt: "Qual destas fontes é a Garamond?",
+        explanation: "Garamond é uma serifada de estilo antigo, com serifas com apófise, contraste moderado e altura-x menor. Baskerville é uma serifada de transição, com mais contraste e serifas mais afiadas."
+      }
+    }
   },
   {
     id: "typeface-exp-q6",
     difficulty: "expert",
     type: "typeface",
+    principles: ["typography"],
     prompt: "Which typeface is Futura?",
     optionA: "'Futura', sans-serif",
     optionB: "'Gotham', sans-serif",
     correctOption: "A",
-    explanation: "Futura is a geometric sans-serif with perfect circles in letters like 'o' and 'a', designed by Paul Renner. Gotham is also geometric but has more humanist proportions and distinct character shapes."
+    fonts: [
+      { family: "Futura", src: "/fonts/jost.woff2" },
+      { family: "Gotham", src: "/fonts/montserrat.woff2" }
+    ],
+    explanation: "Futura is a geometric sans-serif with perfect circles in letters like 'o' and 'a', designed by Paul Renner. Gotham is also geometric but has more humanist proportions and distinct character shapes.",
+    translations: {
+      es: {
+        prompt: "¿Cuál de estas tipografías es Futura?",
+        explanation: "Futura es una sans serif geométrica con círculos perfectos en letras como la 'o' y la 'a'; la diseñó Paul Renner. Gotham también es geométrica, pero tiene proporciones más humanistas y formas de caracteres distintas."
+      },
+      pt: {
+        prompt: "Qual destas fontes é a Futura?",
+        explanation: "Futura é uma fonte sem serifa geométrica com círculos perfeitos em letras como 'o' e 'a'; foi criada por Paul Renner. Gotham também é geométrica, mas tem proporções mais humanistas e formas de caracteres diferentes."
+      }
+    }
   },
   {
     id: "typeface-exp-q7",
     difficulty: "expert",
     type: "typeface",
+    principles: ["typography"],
     prompt: "Which typeface is Baskerville?",
     optionA: "'Baskerville', serif",
     optionB: "'Garamond', serif",
     correctOption: "A",
-    explanation: "Baskerville is a transitional serif typeface with high contrast between thick and thin strokes, sharp serifs, and vertical stress. Garamond is an old-style serif with lower contrast and bracketed serifs."
+    fonts: [
+      { family: "Baskerville", src: "/fonts/libre-baskerville.woff2" },
+      { family: "Garamond", src: "/fonts/eb-garamond.woff2" }
+    ],
+    explanation: "Baskerville is a transitional serif typeface with high contrast between thick and thin strokes, sharp serifs, and vertical stress. Garamond is an old-style serif with lower contrast and bracketed serifs.",
+    translations: {
+      es: {
+        prompt: "¿Cuál de estas tipografías es Baskerville?",
+        explanation: "Baskerville es una serif de transición con un gran contraste entre trazos gruesos y finos, serifas afiladas y eje vertical. Garamond es una serif de estilo antiguo, con menos contraste y serifas con apófige."
+      },
+      pt: {
+        prompt: "Qual destas fontes é a Baskerville?",
+        explanation: "Baskerville é uma serifada de transição com grande contraste entre traços grossos e finos, serifas afiadas e eixo vertical. Garamond é uma serifada de estilo antigo, com menos contraste e serifas com apófise."
+      }
+    }
   }
 ]
@@ -0,0 +1,31 @@
+import type { NextApiRequest, NextApiResponse } from 'next'
+import { timingSafeEqual } from 'crypto'
+
+/**
+ * Guard for admin API routes
+ * Requests must send the ADMIN_TOKEN environment variable in the x-admin-token header
+ * Sends the error response itself and returns false when the request is not allowed
+ */
+export function requireAdmin(req: NextApiRequest, res: NextApiResponse): boolean {
+  const adminToken = process.env.ADMIN_TOKEN
+
+  if (!adminToken) {
+    res.status(503).json({
+      error: 'Admin not configured',
+      message: 'ADMIN_TOKEN environment variable is missing. Add it to .env.local (local) or your deployment platform and redeploy.'
+    })
+    return false
+  }
+
+  const provided = req.headers['x-admin-token']
+  const expected = Buffer.from(adminToken)
+  const actual = Buffer.from(typeof provided === 'string' ? provided : '')
+
+  // Compare in constant time so the token can't be guessed character by character
+  if (actual.length !== expected.length || !timingSafeEqual(actual, expected)) {
+    res.status(401).json({ error: 'Unauthorized' })
+    return false
+  }
+
+  return true
+}
@@ -0,0 +1,96 @@
+import { Principle, PRINCIPLES, Question } from '../data/quizData'
+import { dealQuestion, DealtQuestion, seededRandom, SeenQuestions, shuffleArray } from './quiz'
+
+// A custom quiz is the bank narrowed to the levels, types and principles picked, and how many questions to deal
+// The whole configuration travels in the link (/quiz?mode=custom&levels=mid,expert&principles=contrast,color&count=10),
+// so a team lead can build one on /custom and send it to the team
+
+export const CUSTOM_LEVELS: Question['difficulty'][] = ['beginner', 'mid', 'expert']
+export const CUSTOM_TYPES: Question['type'][] = ['image', 'typeface', 'hotspot', 'ranking']
+
+export const CUSTOM_MIN_QUESTIONS = 1
+export const CUSTOM_MAX_QUESTIONS = 30
+export const CUSTOM_DEFAULT_QUESTIONS = 10
+
+// An empty list doesn't narrow the bank - every level, type or principle is allowed
+export interface CustomQuiz {
+  levels: Question['difficulty'][]
+  types: Question['type'][]
+  // A question is included if it tests any of these
+  principles: Principle[]
+  count: number
+}
+
+// Only the values listed in allowed, in its order, or null if any value is unknown
+// Putting lists in one order means the same quiz always has the same link
+function pickKnown<T extends string>(input: unknown, allowed: readonly T[]): T[] | null {
+  if (!Array.isArray(input) || !input.every(value => allowed.includes(value))) return null
+  return allowed.filter(value => input.includes(value))
+}
+
+// Check a custom quiz sent by the browser - null if anything in it is unknown or out of range
+export function parseCustomQuiz(input: any): CustomQuiz | null {
+  if (!input || typeof input !== 'object') return null
+  const levels = pickKnown(input.levels ?? [], CUSTOM_LEVELS)
+  const types = pickKnown(input.types ?? [], CUSTOM_TYPES)
+  const principles = pickKnown(input.principles ?? [], PRINCIPLES)
+  const count = input.count ?? CUSTOM_DEFAULT_QUESTIONS
+  if (!levels || !types || !principles) return null
+  if (!Number.isInteger(count) || count < CUSTOM_MIN_QUESTIONS || count > CUSTOM_MAX_QUESTIONS) return null
+  return { levels, types, principles, count }
+}
+
+// The custom quiz in a page URL, or null if the link is broken
+export function customQuizFromParams(params: URLSearchParams): CustomQuiz | null {
+  const list = (name: string) => (params.get(name) || '').split(',').filter(Boolean)
+  const count = params.get('count')
+  return parseCustomQuiz({
+    levels: list('levels'),
+    types: list('types'),
+    principles: list('principles'),
+    count: count === null ? CUSTOM_DEFAULT_QUESTIONS : Number(count),
+  })
+}
+
+// The link parameters for a custom quiz, leaving out lists that don't narrow the bank
+export function customQuizParams(quiz: CustomQuiz): URLSearchParams {
+  const params = new URLSearchParams({ mode: 'custom' })
+  if (quiz.levels.length > 0) params.set('levels', quiz.levels.join(','))
+  if (quiz.types.length > 0) params.set('types', quiz.types.join(','))
+  if (quiz.principles.length > 0) params.set('principles', quiz.principles.join(','))
+  params.set('count', String(quiz.count))
+  return params
+}
+
+// Whether two custom quizzes would deal from the same questions
+export function sameCustomQuiz(a: CustomQuiz | null, b: CustomQuiz | null): boolean {
+  return (a && customQuizParams(a).toString()) === (b && customQuizParams(b).toString())
+}
+
+export function matchesCustomQuiz(question: Pick<Question, 'difficulty' | 'type' | 'principles'>, quiz: CustomQuiz): boolean {
+  return (
+    (quiz.levels.length === 0 || quiz.levels.includes(question.difficulty)) &&
+    (quiz.types.length === 0 || quiz.types.includes(question.type)) &&
+    (quiz.principles.length === 0 || quiz.principles.some(principle => question.principles.includes(principle)))
+  )
+}
+
+// Deal a custom quiz from the bank, drawing every choice from the seed as dealSeededQuestions does
+// Unseen and least recently seen questions are picked first, and the picks are played easiest level first
+// Fewer questions than asked for are dealt if not enough match
+export function dealCustomQuestions(
+  pool: Question[],
+  quiz: CustomQuiz,
+  seed: string,
+  seen: SeenQuestions = {}
+): DealtQuestion[] {
+  const random = seededRandom(seed)
+  const matching = pool
+    .filter(question => matchesCustomQuiz(question, quiz))
+    .sort((a, b) => (a.id < b.id ? -1 : a.id > b.id ? 1 : 0))
+  return shuffleArray(matching, random)
+    .sort((a, b) => (seen[a.id] || 0) - (seen[b.id] || 0))
+    .slice(0, quiz.count)
+    .sort((a, b) => CUSTOM_LEVELS.indexOf(a.difficulty) - CUSTOM_LEVELS.indexOf(b.difficulty))
+    .map(question => dealQuestion(question, random))
+}
@@ -0,0 +1,40 @@
+import type { QuizSession } from './quizSessions'
+import { SESSION_TEMPLATES } from './sessionTemplates'
+
+// The daily challenge deals every player the same questions, in the same option order, for a given date
+// The set is dealt from a seed worked out from the date alone, so it only changes if the bank does
+
+// A daily challenge's date (UTC), as YYYY-MM-DD
+export function dailyDate(now = Date.now()): string {
+  return new Date(now).toISOString().slice(0, 10)
+}
+
+export function isDailyDate(value: unknown): value is string {
+  return typeof value === 'string' && /^\d{4}-\d{2}-\d{2}$/.test(value) && dailyDate(Date.parse(value)) === value
+}
+
+const DAILY_SEED_PREFIX = 'daily:'
+
+// Every daily session of a date is dealt from this seed
+export function dailySeed(date: string): string {
+  return `${DAILY_SEED_PREFIX}${date}`
+}
+
+// Daily seeds are reserved for daily sessions - replaying one as a classic session would show a day's challenge in advance
+export function isDailySeed(seed: string): boolean {
+  return seed.startsWith(DAILY_SEED_PREFIX)
+}
+
+// Whether a session played the given date's challenge: dealt from the day's seed, a full session's worth of questions,
+// and every answer stored against the question and version dealt in its place
+// Checked against what the session stored rather than a new deal from the bank, which edits made during the day would change
+export function matchesDailyChallenge(session: Pick<QuizSession, 'seed' | 'questions' | 'results'>, date: string): boolean {
+  const count = SESSION_TEMPLATES.full.stages.reduce((sum, stage) => sum + stage.count, 0)
+  return session.seed === dailySeed(date) &&
+    session.questions.length === count &&
+    session.results.length === count &&
+    session.results.every((result, index) =>
+      result.questionId === session.questions[index].question.id &&
+      result.questionVersion === (session.questions[index].question.version || 1)
+    )
+}
@@ -1,4 +1,4 @@
-import { Pool } from 'pg'
+import { Pool, PoolClient } from 'pg'
 
 // Database connection pool
 let pool: Pool | null = null
@@ -65,6 +65,23 @@ export async function query(text: string, params?: any[]) {
   }
 }
 
+// Run several queries atomically on one client
+// Rolls back and re-throws if the callback fails
+export async function transaction<T>(callback: (client: PoolClient) => Promise<T>): Promise<T> {
+  const client = await getDbPool().connect()
+  try {
+    await client.query('BEGIN')
+    const result = await callback(client)
+    await client.query('COMMIT')
+    return result
+  } catch (error) {
+    await client.query('ROLLBACK')
+    throw error
+  } finally {
+    client.release()
+  }
+}
+
 // Test database connection (for debugging)
 export async function testConnection(): Promise<boolean> {
   try {
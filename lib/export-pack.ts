@@ -0,0 +1,65 @@
+import fs from 'fs'
+import path from 'path'
+import { getAllQuestions } from './questionBank'
+import { buildPack, writePack } from './questionPack'
+
+// Load .env.local file if it exists
+const envPath = path.join(process.cwd(), '.env.local')
+if (fs.existsSync(envPath)) {
+  const envFile = fs.readFileSync(envPath, 'utf8')
+  envFile.split('\n').forEach(line => {
+    const trimmed = line.trim()
+    if (trimmed && !trimmed.startsWith('#')) {
+      const [key, ...valueParts] = trimmed.split('=')
+      if (key && valueParts.length > 0) {
+        process.env[key.trim()] = valueParts.join('=').trim()
+      }
+    }
+  })
+}
+
+const USAGE = 'Usage: npm run pack:export -- <file> [--ids id1,id2] [--include-retired]'
+
+/**
+ * Export questions from the database as a question pack
+ * Exports the active pool by default, or only the questions listed with --ids
+ * Every image and font file the questions use is read from the uploads table or public/ into the pack
+ */
+async function exportPack() {
+  try {
+    const args = process.argv.slice(2)
+    // --ids takes the next argument as its value, so the file is whatever is left once flags and their values are taken out
+    const idsIndex = args.indexOf('--ids')
+    const idsValue = idsIndex >= 0 ? args[idsIndex + 1] : undefined
+    const ids = idsIndex < 0 ? null : idsValue && !idsValue.startsWith('--') ? idsValue.split(',').filter(Boolean) : []
+    const includeRetired = args.includes('--include-retired')
+    const positional = args.filter((arg, index) => !arg.startsWith('--') && !(idsIndex >= 0 && index === idsIndex + 1))
+    const outputPath = positional.length === 1 ? positional[0] : null
+
+    if (!outputPath || (ids && ids.length === 0)) {
+      console.error(USAGE)
+      process.exit(1)
+    }
+
+    const bank = await getAllQuestions()
+    const selected = ids
+      ? bank.filter(q => ids.includes(q.id))
+      : bank.filter(q => includeRetired || !q.retired)
+
+    const missing = (ids || []).filter(id => !bank.some(q => q.id === id))
+    if (missing.length > 0) {
+      throw new Error(`Questions not found: ${missing.join(', ')}`)
+    }
+
+    const pack = await buildPack(selected.map(({ retired, ...question }) => question))
+    writePack(outputPath, pack)
+
+    console.log(`✅ Exported ${selected.length} questions and ${Object.keys(pack.assets).length} files to ${outputPath}`)
+    process.exit(0)
+  } catch (error) {
+    console.error('❌ Export failed:', error)
+    process.exit(1)
+  }
+}
+
+exportPack()
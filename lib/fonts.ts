@@ -0,0 +1,33 @@
+import type { Question, QuestionFont } from '../data/quizData'
+
+// Font loads started during this page visit, so each file is fetched once
+const fontLoads = new Map<string, Promise<void>>()
+
+function loadFont(font: QuestionFont): Promise<void> {
+  const key = [font.family, font.src, font.weight, font.style].join('|')
+  let pending = fontLoads.get(key)
+  if (!pending) {
+    const face = new FontFace(font.family, `url(${JSON.stringify(font.src)})`, {
+      weight: font.weight || 'normal',
+      style: font.style || 'normal',
+    })
+    pending = face.load().then(loaded => {
+      document.fonts.add(loaded)
+    })
+    // Forget failed loads so a retry fetches the file again
+    pending.catch(() => fontLoads.delete(key))
+    fontLoads.set(key, pending)
+  }
+  return pending
+}
+
+// Load a list of font files - resolves once all of them can render
+// Browser only: the quiz and admin preview call this before showing typeface options
+export function loadFonts(fonts: QuestionFont[]): Promise<void> {
+  return Promise.all(fonts.map(loadFont)).then(() => undefined)
+}
+
+// Load every font file a question declares
+export function loadQuestionFonts(question: Pick<Question, 'fonts'>): Promise<void> {
+  return loadFonts(question.fonts || [])
+}
@@ -0,0 +1,102 @@
+import { createContext, ReactNode, useCallback, useContext, useEffect, useMemo, useState } from 'react'
+import { DEFAULT_LOCALE, Locale, LOCALES, MessageKey, messages } from '../data/messages'
+import type { Question, QuestionTranslation } from '../data/quizData'
+
+const LOCALE_STORAGE_KEY = 'locale'
+
+// Intl locale tags used for number and date formatting
+const INTL_LOCALES: Record<Locale, string> = {
+  en: 'en-US',
+  es: 'es-ES',
+  pt: 'pt-BR',
+}
+
+function isLocale(value: unknown): value is Locale {
+  return typeof value === 'string' && (LOCALES as readonly string[]).includes(value)
+}
+
+// Saved choice first, then the browser's language, then English
+function detectLocale(): Locale {
+  const saved = localStorage.getItem(LOCALE_STORAGE_KEY)
+  if (isLocale(saved)) return saved
+  const browser = (navigator.language || '').slice(0, 2).toLowerCase()
+  return isLocale(browser) ? browser : DEFAULT_LOCALE
+}
+
+// Look up a UI string, falling back to English, and fill in {placeholders}
+export function translate(locale: Locale, key: MessageKey, params?: Record<string, string | number>): string {
+  const message = messages[locale][key] ?? messages[DEFAULT_LOCALE][key] ?? key
+  if (!params) return message
+  return message.replace(/\{(\w+)\}/g, (match, name) => (name in params ? String(params[name]) : match))
+}
+
+// A question's player-facing text in the given locale, field by field falling back to English
+// Takes anything with the text fields, so the quiz can localize a question before and after its explanation is revealed
+export function localizeQuestion(
+  question: Partial<Pick<Question, 'prompt' | 'explanation' | 'sampleText'>> & { translations?: Partial<Record<Locale, QuestionTranslation>> },
+  locale: Locale
+): Partial<Pick<Question, 'prompt' | 'explanation' | 'sampleText'>> {
+  const translation = locale === DEFAULT_LOCALE ? undefined : question.translations?.[locale]
+  return {
+    prompt: translation?.prompt || question.prompt,
+    explanation: translation?.explanation || question.explanation,
+    sampleText: translation?.sampleText || question.sampleText,
+  }
+}
+
+interface I18nContextValue {
+  locale: Locale
+  setLocale: (locale: Locale) => void
+  t: (key: MessageKey, params?: Record<string, string | number>) => string
+  formatNumber: (value: number, options?: Intl.NumberFormatOptions) => string
+  // Takes a percentage (0-100), not a fraction
+  formatPercent: (value: number, fractionDigits?: number) => string
+  formatDate: (value: string | number | Date, options?: Intl.DateTimeFormatOptions) => string
+}
+
+const I18nContext = createContext<I18nContextValue | null>(null)
+
+export function LocaleProvider({ children }: { children: ReactNode }) {
+  // Pages render in English on the server; the saved or browser locale applies after mount
+  const [locale, setLocaleState] = useState<Locale>(DEFAULT_LOCALE)
+
+  useEffect(() => {
+    setLocaleState(detectLocale())
+  }, [])
+
+  useEffect(() => {
+    document.documentElement.lang = locale
+  }, [locale])
+
+  const setLocale = useCallback((next: Locale) => {
+    setLocaleState(next)
+    localStorage.setItem(LOCALE_STORAGE_KEY, next)
+  }, [])
+
+  const value = useMemo<I18nContextValue>(() => {
+    const intlLocale = INTL_LOCALES[locale]
+    return {
+      locale,
+      setLocale,
+      t: (key, params) => translate(locale, key, params),
+      formatNumber: (number, options) => new Intl.NumberFormat(intlLocale, options).format(number),
+      formatPercent: (percent, fractionDigits = 0) =>
+        new Intl.NumberFormat(intlLocale, {
+          style: 'percent',
+          minimumFractionDigits: fractionDigits,
+          maximumFractionDigits: fractionDigits,
+        }).format(percent / 100),
+      formatDate: (date, options) => new Date(date).toLocaleDateString(intlLocale, options),
+    }
+  }, [locale, setLocale])
+
+  return <I18nContext.Provider value={value}>{children}</I18nContext.Provider>
+}
+
+export function useTranslation(): I18nContextValue {
+  const context = useContext(I18nContext)
+  if (!context) {
+    throw new Error('useTranslation must be used inside LocaleProvider')
+  }
+  return context
+}
@@ -0,0 +1,197 @@
+import fs from 'fs'
+import path from 'path'
+import type { Question } from '../data/quizData'
+import { createQuestion, getAllQuestions, hasSameContent, updateQuestion } from './questionBank'
+import { assetHash, publicFilePath, QuestionPack, readAsset, readPack, validatePack } from './questionPack'
+import { getQuestionAssets, toQuestion, validateQuestionBank } from './quiz'
+import { saveUpload, uploadContentType, uploadName } from './uploads'
+
+// Load .env.local file if it exists
+const envPath = path.join(process.cwd(), '.env.local')
+if (fs.existsSync(envPath)) {
+  const envFile = fs.readFileSync(envPath, 'utf8')
+  envFile.split('\n').forEach(line => {
+    const trimmed = line.trim()
+    if (trimmed && !trimmed.startsWith('#')) {
+      const [key, ...valueParts] = trimmed.split('=')
+      if (key && valueParts.length > 0) {
+        process.env[key.trim()] = valueParts.join('=').trim()
+      }
+    }
+  })
+}
+
+const USAGE = 'Usage: npm run pack:import -- <file> [--update] [--retired] [--dry-run]'
+
+type Outcome = 'added' | 'updated' | 'skipped'
+
+interface PlannedQuestion {
+  question: Question
+  outcome: Outcome
+  reason?: string
+  // Status the question will have after the import
+  retired: boolean
+}
+
+// Where each pack asset its questions use will live in this deployment - uploads in the uploads table, other files under public/
+// Assets no question uses are left out
+// A file already at the same path with the same content is reused
+// A different file at that path is never overwritten - the asset gets a name with its hash instead
+async function planAssets(pack: QuestionPack): Promise<{ paths: Map<string, string>; writes: Map<string, Buffer> }> {
+  const paths = new Map<string, string>()
+  const writes = new Map<string, Buffer>()
+  const referenced = new Set(pack.manifest.questions.flatMap(question => getQuestionAssets(question).map(asset => asset.src)))
+
+  for (const [src, base64] of Object.entries(pack.assets)) {
+    if (!referenced.has(src)) continue
+    const data = Buffer.from(base64, 'base64')
+    const hash = assetHash(data)
+    const { dir, name, ext } = path.posix.parse(src)
+    const candidates = [src, path.posix.join(dir, `${name}-${hash.slice(0, 8)}${ext}`)]
+
+    for (const candidate of candidates) {
+      if (!publicFilePath(candidate)) continue
+      const stored = await readAsset(candidate)
+      if (!stored) {
+        writes.set(candidate, data)
+      } else if (assetHash(stored) !== hash) {
+        continue
+      }
+      paths.set(src, candidate)
+      break
+    }
+    if (!paths.has(src)) {
+      throw new Error(`No free path for ${src} - a different file is already stored under its name and hashed name`)
+    }
+  }
+
+  return { paths, writes }
+}
+
+// Point a question's images and fonts at where its assets were stored in this deployment
+function relocateAssets(question: Question, paths: Map<string, string>): Question {
+  const relocate = (src: string) => paths.get(src) || src
+  const relocated: Question = { ...question }
+  if (relocated.optionA) relocated.optionA = relocate(relocated.optionA)
+  if (relocated.optionB) relocated.optionB = relocate(relocated.optionB)
+  if (relocated.image) relocated.image = relocate(relocated.image)
+  if (relocated.options && relocated.type !== 'typeface') relocated.options = relocated.options.map(relocate)
+  if (relocated.fonts) relocated.fonts = relocated.fonts.map(font => ({ ...font, src: relocate(font.src) }))
+  return relocated
+}
+
+/**
+ * Import a question pack into the database
+ * New ids are added; an id that already exists with different content is an id collision,
+ * skipped unless --update is given. Questions identical to the bank are skipped
+ * The import is refused if the active pool would no longer pass validateQuestionBank -
+ * --retired adds new questions as retired so they can be swapped in from the admin page
+ * --dry-run prints the report without writing anything
+ */
+async function importPack() {
+  try {
+    const args = process.argv.slice(2)
+    const packPath = args.find(arg => !arg.startsWith('--'))
+    const update = args.includes('--update')
+    const addRetired = args.includes('--retired')
+    const dryRun = args.includes('--dry-run')
+
+    if (!packPath) {
+      console.error(USAGE)
+      process.exit(1)
+    }
+
+    const pack = readPack(packPath)
+    console.log(`Importing ${pack.manifest.questions.length} questions from ${packPath} (exported ${pack.manifest.exportedAt})...`)
+
+    const problems = validatePack(pack)
+    if (problems.size > 0) {
+      problems.forEach((messages, id) => {
+        console.log(`\n${id || 'Pack'}`)
+        messages.forEach(message => console.log(`  - ${message}`))
+      })
+      console.error('\n❌ Pack is invalid - nothing was imported')
+      process.exit(1)
+    }
+
+    const { paths, writes } = await planAssets(pack)
+    const bank = await getAllQuestions()
+
+    const plan: PlannedQuestion[] = pack.manifest.questions.map(input => {
+      const question = relocateAssets(toQuestion(input), paths)
+      const current = bank.find(q => q.id === question.id)
+      if (!current) {
+        return { question, outcome: 'added', retired: addRetired }
+      }
+      const { retired, ...currentQuestion } = current
+      if (hasSameContent(currentQuestion, question)) {
+        return { question, outcome: 'skipped', reason: 'already in the bank', retired }
+      }
+      if (!update) {
+        return { question, outcome: 'skipped', reason: 'id collision - exists with different content (use --update)', retired }
+      }
+      return { question, outcome: 'updated', retired }
+    })
+
+    // Check the pool the import would leave, like the admin API does for a single change
+    const changes = plan.filter(item => item.outcome !== 'skipped')
+    const resulting = [
+      ...bank.map(q => changes.find(item => item.question.id === q.id) || { question: q, retired: q.retired }),
+      ...changes.filter(item => item.outcome === 'added'),
+    ]
+    try {
+      validateQuestionBank(resulting.filter(item => !item.retired).map(item => item.question))
+    } catch (error) {
+      console.error(`❌ Import would leave the question bank invalid: ${error instanceof Error ? error.message : error}`)
+      if (!addRetired) console.error('   Re-run with --retired to add new questions as retired, then swap them in on the admin page')
+      process.exit(1)
+    }
+
+    if (!dryRun) {
+      // Write only the files the imported questions use
+      const used = new Set(changes.flatMap(item => getQuestionAssets(item.question).map(asset => asset.src)))
+      for (const [src, data] of Array.from(writes.entries())) {
+        if (!used.has(src)) continue
+        const name = uploadName(src)
+        if (name !== null) {
+          // validatePack has checked the upload's type
+          await saveUpload(name, uploadContentType(name) as string, data)
+          continue
+        }
+        const filePath = publicFilePath(src) as string
+        await fs.promises.mkdir(path.dirname(filePath), { recursive: true })
+        await fs.promises.writeFile(filePath, data)
+      }
+
+      for (const item of changes) {
+        if (item.outcome === 'added') {
+          await createQuestion(item.question, { retired: item.retired })
+        } else {
+          await updateQuestion(item.question, item.retired)
+        }
+      }
+    }
+
+    for (const outcome of ['added', 'updated', 'skipped'] as Outcome[]) {
+      const items = plan.filter(item => item.outcome === outcome)
+      console.log(`\n${outcome[0].toUpperCase()}${outcome.slice(1)} (${items.length})`)
+      items.forEach(item => {
+        const notes = [item.reason, item.outcome === 'added' && item.retired ? 'retired' : undefined].filter(Boolean)
+        console.log(`  - ${item.question.id}${notes.length > 0 ? ` - ${notes.join(', ')}` : ''}`)
+      })
+    }
+    const renamed = Array.from(paths.entries()).filter(([src, stored]) => src !== stored)
+    if (renamed.length > 0) {
+      console.log(`\nStored under a new name to avoid overwriting a different file (${renamed.length})`)
+      renamed.forEach(([src, stored]) => console.log(`  - ${src} → ${stored}`))
+    }
+
+    console.log(`\n${dryRun ? '✅ Dry run complete - nothing was written' : '✅ Import completed'}`)
+    process.exit(0)
+  } catch (error) {
+    console.error('❌ Import failed:', error)
+    process.exit(1)
+  }
+}
+
+importPack()
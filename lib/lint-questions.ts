@@ -0,0 +1,156 @@
+import crypto from 'crypto'
+import fs from 'fs'
+import path from 'path'
+import { Question, questions } from '../data/quizData'
+import {
+  getQuestionAssets,
+  getQuestionOptions,
+  optionFamily,
+  REQUIRED_POOL_COMPOSITION,
+  stageMix,
+  validateQuestionInput,
+} from './quiz'
+import { SESSION_TEMPLATES, TEMPLATE_IDS } from './sessionTemplates'
+
+const PUBLIC_DIR = path.join(process.cwd(), 'public')
+
+// Hash file contents so the same picture saved under two names is still caught
+function fileHash(filePath: string): string {
+  return crypto.createHash('sha1').update(fs.readFileSync(filePath)).digest('hex')
+}
+
+// Problems with a single question: malformed fields, missing files and duplicate options
+function lintQuestion(question: Question): string[] {
+  const problems = validateQuestionInput(question)
+
+  // Without a font file, each player sees whatever face their device has under that name - or a fallback
+  if (question.type === 'typeface') {
+    const fonts = question.fonts || []
+    if (fonts.length === 0) {
+      problems.push('typeface questions must declare a font file for each option in fonts')
+    } else {
+      getQuestionOptions(question).options.map(optionFamily).forEach(family => {
+        if (!fonts.some(font => font.family === family)) problems.push(`no font file for option family ${family}`)
+      })
+    }
+  }
+
+  const hashes = new Map<string, string>()
+  for (const { label, src } of getQuestionAssets(question)) {
+    if (!src) continue
+    const filePath = path.join(PUBLIC_DIR, src)
+    if (!filePath.startsWith(PUBLIC_DIR) || !fs.existsSync(filePath)) {
+      problems.push(`${label} file not found: public${src}`)
+      continue
+    }
+    if (label.startsWith('font')) continue
+    const hash = fileHash(filePath)
+    const duplicate = hashes.get(hash)
+    if (duplicate) {
+      problems.push(`${label} is the same image as ${duplicate} (${src})`)
+    }
+    hashes.set(hash, label)
+  }
+
+  return problems
+}
+
+// Problems with the bank as a whole: duplicate ids and each level's composition
+function lintBank(bank: Question[]): string[] {
+  const problems: string[] = []
+
+  const seen = new Set<string>()
+  const duplicates = new Set<string>()
+  for (const question of bank) {
+    if (seen.has(question.id)) duplicates.add(question.id)
+    seen.add(question.id)
+  }
+  if (duplicates.size > 0) {
+    problems.push(`Duplicate ids: ${Array.from(duplicates).join(', ')}`)
+  }
+
+  for (const level of ['beginner', 'mid', 'expert'] as const) {
+    const levelQuestions = bank.filter(q => q.difficulty === level)
+    const required = REQUIRED_POOL_COMPOSITION[level]
+    const image = levelQuestions.filter(q => q.type === 'image').length
+    const typeface = levelQuestions.filter(q => q.type === 'typeface').length
+    if (image !== required.image || typeface !== required.typeface) {
+      problems.push(
+        `${level}: needs ${required.image} image and ${required.typeface} typeface questions, ` +
+        `has ${image} image and ${typeface} typeface`
+      )
+    }
+  }
+
+  // Every template must be able to draw all its stages' questions
+  // A session never deals a question twice, so stages of the same level share its pool - their counts are added up
+  for (const template of TEMPLATE_IDS) {
+    const levelCounts: Record<string, number> = {}
+    const typeCounts: Record<string, number> = {}
+    SESSION_TEMPLATES[template].stages.forEach((stage, index) => {
+      levelCounts[stage.level] = (levelCounts[stage.level] || 0) + stage.count
+      if (!stage.mix) return
+      const mixTotal = stageMix(stage).reduce((sum, [, typeCount]) => sum + typeCount, 0)
+      if (mixTotal !== stage.count) {
+        problems.push(`${template} template, stage ${index + 1}: mix adds up to ${mixTotal} questions, but its count is ${stage.count}`)
+      }
+      for (const [type, typeCount] of stageMix(stage)) {
+        const key = `${stage.level} ${type}`
+        typeCounts[key] = (typeCounts[key] || 0) + typeCount
+      }
+    })
+
+    Object.keys(levelCounts).forEach(level => {
+      const available = bank.filter(q => q.difficulty === level).length
+      if (available < levelCounts[level]) {
+        problems.push(`${template} template: draws ${levelCounts[level]} ${level} questions, but the pool only has ${available}`)
+      }
+    })
+    Object.keys(typeCounts).forEach(key => {
+      const [level, type] = key.split(' ')
+      const available = bank.filter(q => q.difficulty === level && q.type === type).length
+      if (available < typeCounts[key]) {
+        problems.push(`${template} template: draws ${typeCounts[key]} ${key} questions, but the pool only has ${available}`)
+      }
+    })
+  }
+
+  return problems
+}
+
+/**
+ * Lint the seed question bank in data/quizData.ts
+ * Catches the problems the quiz would otherwise only hit in the browser
+ * Exits non-zero when anything is wrong so it can gate a build
+ */
+function lintQuestions() {
+  console.log(`Linting ${questions.length} questions in data/quizData.ts...`)
+
+  let problemCount = 0
+
+  for (const question of questions) {
+    const problems = lintQuestion(question)
+    if (problems.length > 0) {
+      console.log(`\n${question.id || '(missing id)'}`)
+      problems.forEach(problem => console.log(`  - ${problem}`))
+      problemCount += problems.length
+    }
+  }
+
+  const bankProblems = lintBank(questions)
+  if (bankProblems.length > 0) {
+    console.log('\nQuestion bank')
+    bankProblems.forEach(problem => console.log(`  - ${problem}`))
+    problemCount += bankProblems.length
+  }
+
+  if (problemCount > 0) {
+    console.error(`\n❌ Found ${problemCount} problem(s)`)
+    process.exit(1)
+  }
+
+  console.log('✅ Question bank is valid')
+  process.exit(0)
+}
+
+lintQuestions()
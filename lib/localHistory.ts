@@ -0,0 +1,59 @@
+import type { SeenQuestions } from './quiz'
+
+const STORAGE_KEY = 'designGymHistory'
+
+// Questions kept in the history - the oldest are dropped beyond this
+const MAX_SEEN = 500
+
+// What this device remembers across sessions, so new sessions can prefer questions it hasn't shown
+// The player who last played here is remembered too, so the server can add their history from other devices
+export interface LocalHistory {
+  seen: SeenQuestions
+  playerName: string
+  twitterHandle: string
+}
+
+// Browser only: the stored history, or an empty one
+export function loadLocalHistory(): LocalHistory {
+  try {
+    const stored = localStorage.getItem(STORAGE_KEY)
+    const history = stored ? JSON.parse(stored) : null
+    if (history && typeof history.seen === 'object' && history.seen) {
+      return {
+        seen: history.seen,
+        playerName: typeof history.playerName === 'string' ? history.playerName : '',
+        twitterHandle: typeof history.twitterHandle === 'string' ? history.twitterHandle : '',
+      }
+    }
+  } catch (error) {
+    console.error('Error reading question history:', error)
+  }
+  return { seen: {}, playerName: '', twitterHandle: '' }
+}
+
+function saveLocalHistory(history: LocalHistory): void {
+  try {
+    localStorage.setItem(STORAGE_KEY, JSON.stringify(history))
+  } catch (error) {
+    // Storage can be full or disabled - sessions just won't know what this device has seen
+    console.error('Error saving question history:', error)
+  }
+}
+
+// Record that a question was shown on this device
+export function markQuestionSeen(questionId: string): void {
+  const history = loadLocalHistory()
+  history.seen[questionId] = Date.now()
+  const ids = Object.keys(history.seen)
+  if (ids.length > MAX_SEEN) {
+    ids
+      .sort((a, b) => history.seen[a] - history.seen[b])
+      .slice(0, ids.length - MAX_SEEN)
+      .forEach(id => delete history.seen[id])
+  }
+  saveLocalHistory(history)
+}
+
+export function rememberPlayer(playerName: string, twitterHandle: string): void {
+  saveLocalHistory({ ...loadLocalHistory(), playerName, twitterHandle })
+}
@@ -0,0 +1,14 @@
+-- Create answers table (one row per question answered in a session)
+CREATE TABLE IF NOT EXISTS answers (
+  id SERIAL PRIMARY KEY,
+  leaderboard_id VARCHAR(255) NOT NULL REFERENCES leaderboard(id) ON DELETE CASCADE,
+  question_id VARCHAR(255) NOT NULL,
+  is_correct BOOLEAN NOT NULL,
+  created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP
+);
+
+-- Create index for joining answers back to leaderboard entries
+CREATE INDEX IF NOT EXISTS idx_answers_leaderboard ON answers(leaderboard_id);
+
+-- Create index for per-question analytics
+CREATE INDEX IF NOT EXISTS idx_answers_question ON answers(question_id);
@@ -0,0 +1,18 @@
+-- Create questions table (the question bank, previously hard-coded in data/quizData.ts)
+CREATE TABLE IF NOT EXISTS questions (
+  id VARCHAR(255) PRIMARY KEY,
+  difficulty VARCHAR(20) NOT NULL CHECK (difficulty IN ('beginner', 'mid', 'expert')),
+  type VARCHAR(20) NOT NULL,
+  principles TEXT[] NOT NULL DEFAULT '{}',
+  prompt TEXT NOT NULL,
+  option_a TEXT NOT NULL,
+  option_b TEXT NOT NULL,
+  correct_option CHAR(1) NOT NULL DEFAULT 'A' CHECK (correct_option = 'A'),
+  explanation TEXT NOT NULL,
+  sort_order INTEGER NOT NULL DEFAULT 0,
+  created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+  updated_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP
+);
+
+-- Create index for filtering by difficulty pool
+CREATE INDEX IF NOT EXISTS idx_questions_difficulty ON questions(difficulty);
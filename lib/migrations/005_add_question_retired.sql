@@ -0,0 +1,7 @@
+-- Add retired flag to questions table
+-- Retired questions stay in the table (answers still reference them) but are never drawn
+ALTER TABLE questions 
+ADD COLUMN IF NOT EXISTS retired BOOLEAN NOT NULL DEFAULT false;
+
+-- Create index for loading the active pool
+CREATE INDEX IF NOT EXISTS idx_questions_active ON questions(difficulty) WHERE retired = false;
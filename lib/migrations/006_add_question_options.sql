@@ -0,0 +1,18 @@
+-- Allow questions with more than two options
+-- Two-option questions keep using option_a/option_b, others use options + correct_index
+ALTER TABLE questions 
+ADD COLUMN IF NOT EXISTS options TEXT[],
+ADD COLUMN IF NOT EXISTS correct_index INTEGER;
+
+ALTER TABLE questions 
+ALTER COLUMN option_a DROP NOT NULL,
+ALTER COLUMN option_b DROP NOT NULL,
+ALTER COLUMN correct_option DROP NOT NULL,
+ALTER COLUMN correct_option DROP DEFAULT;
+
+-- Every question must have one of the two forms
+ALTER TABLE questions DROP CONSTRAINT IF EXISTS questions_options_check;
+ALTER TABLE questions ADD CONSTRAINT questions_options_check CHECK (
+  (option_a IS NOT NULL AND option_b IS NOT NULL AND correct_option = 'A')
+  OR (options IS NOT NULL AND correct_index IS NOT NULL AND correct_index >= 0 AND correct_index < cardinality(options))
+);
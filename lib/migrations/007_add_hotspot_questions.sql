@@ -0,0 +1,13 @@
+-- Add hotspot questions: one image and the regions that contain the design problem
+-- Regions are stored as JSON: [{ "x": 0.1, "y": 0.2, "width": 0.3, "height": 0.1 }]
+ALTER TABLE questions 
+ADD COLUMN IF NOT EXISTS image TEXT,
+ADD COLUMN IF NOT EXISTS regions JSONB;
+
+-- Every question must have one of the option forms, or be a hotspot question
+ALTER TABLE questions DROP CONSTRAINT IF EXISTS questions_options_check;
+ALTER TABLE questions ADD CONSTRAINT questions_options_check CHECK (
+  (option_a IS NOT NULL AND option_b IS NOT NULL AND correct_option = 'A')
+  OR (options IS NOT NULL AND correct_index IS NOT NULL AND correct_index >= 0 AND correct_index < cardinality(options))
+  OR (type = 'hotspot' AND image IS NOT NULL AND regions IS NOT NULL)
+);
@@ -0,0 +1,9 @@
+-- Add ranking questions: options lists three to five variants from best to worst, with no correct_index
+-- Every question must have one of the option forms, or be a hotspot or ranking question
+ALTER TABLE questions DROP CONSTRAINT IF EXISTS questions_options_check;
+ALTER TABLE questions ADD CONSTRAINT questions_options_check CHECK (
+  (option_a IS NOT NULL AND option_b IS NOT NULL AND correct_option = 'A')
+  OR (options IS NOT NULL AND correct_index IS NOT NULL AND correct_index >= 0 AND correct_index < cardinality(options))
+  OR (type = 'hotspot' AND image IS NOT NULL AND regions IS NOT NULL)
+  OR (type = 'ranking' AND options IS NOT NULL AND cardinality(options) BETWEEN 3 AND 5)
+);
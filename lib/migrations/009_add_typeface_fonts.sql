@@ -0,0 +1,5 @@
+-- Add per-question sample text and self-hosted font files for typeface questions
+-- Fonts are stored as JSON: [{ "family": "EB Garamond", "src": "/fonts/eb-garamond.woff2", "weight": "400" }]
+ALTER TABLE questions 
+ADD COLUMN IF NOT EXISTS sample_text TEXT,
+ADD COLUMN IF NOT EXISTS fonts JSONB;
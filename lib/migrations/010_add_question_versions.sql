@@ -0,0 +1,42 @@
+-- Version questions so answers stay tied to the content the player actually saw
+-- questions holds the current version, question_versions keeps a snapshot of every version
+ALTER TABLE questions 
+ADD COLUMN IF NOT EXISTS version INTEGER NOT NULL DEFAULT 1;
+
+CREATE TABLE IF NOT EXISTS question_versions (
+  question_id VARCHAR(255) NOT NULL REFERENCES questions(id) ON DELETE CASCADE,
+  version INTEGER NOT NULL,
+  -- The authored question as JSON, in the same shape as the Question type
+  content JSONB NOT NULL,
+  created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+  PRIMARY KEY (question_id, version)
+);
+
+-- Snapshot the existing questions as their first version
+INSERT INTO question_versions (question_id, version, content)
+SELECT id, version, jsonb_strip_nulls(jsonb_build_object(
+  'id', id,
+  'difficulty', difficulty,
+  'type', type,
+  'principles', to_jsonb(principles),
+  'prompt', prompt,
+  'optionA', option_a,
+  'optionB', option_b,
+  'correctOption', correct_option,
+  'options', to_jsonb(options),
+  'correctIndex', correct_index,
+  'image', image,
+  'regions', regions,
+  'sampleText', sample_text,
+  'fonts', fonts,
+  'explanation', explanation
+))
+FROM questions
+ON CONFLICT (question_id, version) DO NOTHING;
+
+-- Record which version each answer was given against
+-- Answers stored before versioning were all against version 1
+ALTER TABLE answers 
+ADD COLUMN IF NOT EXISTS question_version INTEGER NOT NULL DEFAULT 1;
+
+CREATE INDEX IF NOT EXISTS idx_answers_question_version ON answers(question_id, question_version);
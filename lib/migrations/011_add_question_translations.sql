@@ -0,0 +1,5 @@
+-- Add translated question text, keyed by locale
+-- Stored as JSON: { "es": { "prompt": "...", "explanation": "..." }, "pt": { ... } }
+-- Missing locales and fields fall back to the English columns
+ALTER TABLE questions 
+ADD COLUMN IF NOT EXISTS translations JSONB;
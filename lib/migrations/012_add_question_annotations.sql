@@ -0,0 +1,4 @@
+-- Add boxes, arrows and labels drawn over an image question's options after answering
+-- Stored as JSON: [{ "option": 0, "kind": "box", "x": 0.1, "y": 0.2, "width": 0.3, "height": 0.1, "label": "Aligned" }]
+ALTER TABLE questions 
+ADD COLUMN IF NOT EXISTS annotations JSONB;
@@ -0,0 +1,19 @@
+-- Quiz sessions dealt and scored by the server
+-- The leaderboard only accepts an entry for a completed session, scored from its stored answers
+CREATE TABLE IF NOT EXISTS quiz_sessions (
+  id VARCHAR(255) PRIMARY KEY,
+  -- Questions as dealt, in order: [{ "question": {...}, "optionOrder": [...] }]
+  -- Kept with the session so an edit to the bank mid-session doesn't change what is scored
+  questions JSONB NOT NULL,
+  -- One result per answered question, in order
+  results JSONB NOT NULL DEFAULT '[]',
+  score INTEGER NOT NULL DEFAULT 0,
+  -- Epoch milliseconds, like leaderboard.timestamp
+  -- started_at is set when the player starts playing, not when the questions are dealt
+  started_at BIGINT,
+  completed_at BIGINT,
+  last_active_at BIGINT NOT NULL,
+  -- Set once the session's leaderboard entry is saved, so a session gives at most one entry
+  leaderboard_id VARCHAR(255) UNIQUE REFERENCES leaderboard(id) ON DELETE SET NULL,
+  created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP
+);
@@ -0,0 +1,29 @@
+-- Store every answer as it is given, keyed by the quiz session it belongs to
+-- Rows are linked to the leaderboard entry once the session's entry is saved
+-- Answers stored before sessions only have leaderboard_id
+ALTER TABLE answers 
+ALTER COLUMN leaderboard_id DROP NOT NULL;
+
+ALTER TABLE answers 
+ADD COLUMN IF NOT EXISTS session_id VARCHAR(255) REFERENCES quiz_sessions(id) ON DELETE CASCADE,
+-- Position of the question in the session (0 = first)
+ADD COLUMN IF NOT EXISTS question_index INTEGER,
+-- Authored index of the option picked, for questions with options to pick from
+ADD COLUMN IF NOT EXISTS option_index INTEGER,
+-- Where the picked option was shown after shuffling (0 = first / left)
+ADD COLUMN IF NOT EXISTS display_position INTEGER,
+-- The answer as given: { "position": 1 }, { "point": { "x": 0.4, "y": 0.2 } } or { "order": [2, 0, 1] }
+ADD COLUMN IF NOT EXISTS answer JSONB,
+-- Share of the question's coins earned, between 0 and 1 (partial for rankings)
+ADD COLUMN IF NOT EXISTS credit REAL,
+-- Time from the question being shown to the answer
+ADD COLUMN IF NOT EXISTS response_time_ms INTEGER;
+
+ALTER TABLE answers 
+DROP CONSTRAINT IF EXISTS answers_session_or_entry;
+
+ALTER TABLE answers 
+ADD CONSTRAINT answers_session_or_entry CHECK (session_id IS NOT NULL OR leaderboard_id IS NOT NULL);
+
+-- Each question in a session is answered once
+CREATE UNIQUE INDEX IF NOT EXISTS idx_answers_session_question ON answers(session_id, question_index);
@@ -0,0 +1,31 @@
+-- Ratings for adaptive sessions: a skill rating per player and a difficulty rating per question
+-- Both are on the scale used by lib/skill.ts, where 0 is an average player or a mid question
+
+-- Questions start from their authored difficulty and move with every adaptive answer
+CREATE TABLE IF NOT EXISTS question_ratings (
+  question_id VARCHAR(255) PRIMARY KEY REFERENCES questions(id) ON DELETE CASCADE,
+  rating REAL NOT NULL,
+  -- Adaptive answers the rating has been calibrated on
+  answered INTEGER NOT NULL DEFAULT 0,
+  -- Epoch milliseconds, like leaderboard.timestamp
+  updated_at BIGINT NOT NULL
+);
+
+-- A player's rating as of their last completed adaptive session
+-- player_key identifies the player the way /stats does: their Twitter handle if they gave one, otherwise their name
+CREATE TABLE IF NOT EXISTS player_ratings (
+  player_key VARCHAR(255) PRIMARY KEY,
+  rating REAL NOT NULL,
+  uncertainty REAL NOT NULL,
+  sessions INTEGER NOT NULL DEFAULT 0,
+  updated_at BIGINT NOT NULL
+);
+
+-- 'classic' sessions are dealt in full up front, 'adaptive' ones one question at a time
+ALTER TABLE quiz_sessions 
+ADD COLUMN IF NOT EXISTS mode VARCHAR(20) NOT NULL DEFAULT 'classic',
+ADD COLUMN IF NOT EXISTS player_key VARCHAR(255),
+-- Adaptive sessions: the player's rating going in, and the estimate after the latest answer
+-- { "rating": 0.4, "uncertainty": 0.6 }
+ADD COLUMN IF NOT EXISTS prior JSONB,
+ADD COLUMN IF NOT EXISTS skill JSONB;
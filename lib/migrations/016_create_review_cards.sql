@@ -0,0 +1,43 @@
+-- Spaced-repetition review: one card per player per question they have missed
+-- Scheduled with SM-2 (see lib/spacedRepetition.ts) and shown in review sessions once due
+CREATE TABLE IF NOT EXISTS review_cards (
+  -- The player as in player_ratings: 'twitter:@handle' or 'name:Name'
+  player_key VARCHAR(255) NOT NULL,
+  question_id VARCHAR(255) NOT NULL REFERENCES questions(id) ON DELETE CASCADE,
+  -- SM-2 easiness factor, never below 1.3
+  ease REAL NOT NULL DEFAULT 2.5,
+  interval_days INTEGER NOT NULL DEFAULT 0,
+  -- Reviews passed in a row since the last miss
+  repetitions INTEGER NOT NULL DEFAULT 0,
+  lapses INTEGER NOT NULL DEFAULT 0,
+  -- Epoch milliseconds, like leaderboard.timestamp
+  due_at BIGINT NOT NULL,
+  last_reviewed_at BIGINT,
+  PRIMARY KEY (player_key, question_id)
+);
+
+-- Review sessions deal a player's cards that are due
+CREATE INDEX IF NOT EXISTS idx_review_cards_due ON review_cards(player_key, due_at);
+
+-- Start from the answer history: every question a player has missed so far is due now
+INSERT INTO review_cards (player_key, question_id, lapses, due_at)
+SELECT player_key, question_id, COUNT(*), (EXTRACT(EPOCH FROM NOW()) * 1000)::BIGINT
+FROM (
+  SELECT
+    CASE
+      WHEN l.twitter_handle IS NOT NULL AND l.twitter_handle <> '' THEN 'twitter:' || l.twitter_handle
+      ELSE 'name:' || TRIM(l.name)
+    END as player_key,
+    a.question_id
+  FROM answers a
+  JOIN leaderboard l ON l.id = a.leaderboard_id
+  WHERE a.is_correct = false
+  UNION ALL
+  SELECT s.player_key, a.question_id
+  FROM answers a
+  JOIN quiz_sessions s ON s.id = a.session_id
+  WHERE a.is_correct = false AND a.leaderboard_id IS NULL AND s.player_key IS NOT NULL
+) missed
+WHERE question_id IN (SELECT id FROM questions)
+GROUP BY player_key, question_id
+ON CONFLICT (player_key, question_id) DO NOTHING;
@@ -0,0 +1,4 @@
+-- Single-level practice sessions play one level's pool instead of all three
+-- NULL for sessions that cover every level
+ALTER TABLE quiz_sessions 
+ADD COLUMN IF NOT EXISTS level VARCHAR(20) CHECK (level IN ('beginner', 'mid', 'expert'));
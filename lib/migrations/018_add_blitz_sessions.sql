@@ -0,0 +1,13 @@
+-- Blitz sessions: a countdown per question, so the server sends the questions one at a time
+-- and times each from when it was sent
+ALTER TABLE quiz_sessions 
+-- Questions sent to the player so far - NULL for sessions whose questions are all sent up front
+ADD COLUMN IF NOT EXISTS shown_count INTEGER,
+-- Epoch milliseconds when the latest question was sent, which starts its countdown
+ADD COLUMN IF NOT EXISTS question_started_at BIGINT;
+
+-- Blitz scores include a speed bonus, so they get a leaderboard of their own
+ALTER TABLE leaderboard 
+ADD COLUMN IF NOT EXISTS mode VARCHAR(20) NOT NULL DEFAULT 'classic';
+
+CREATE INDEX IF NOT EXISTS idx_leaderboard_mode_level ON leaderboard(mode, level);
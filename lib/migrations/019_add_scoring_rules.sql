@@ -0,0 +1,13 @@
+-- Scoring rule sets: every answer in a session is scored with the session's rule set,
+-- and each leaderboard entry records the rule set that produced its score
+ALTER TABLE quiz_sessions 
+ADD COLUMN IF NOT EXISTS scoring VARCHAR(20) NOT NULL DEFAULT 'classic';
+
+ALTER TABLE leaderboard 
+ADD COLUMN IF NOT EXISTS scoring VARCHAR(20) NOT NULL DEFAULT 'classic';
+
+-- Blitz sessions were scored with a speed bonus before rule sets existed, which is the 'timed' rule set
+UPDATE quiz_sessions SET scoring = 'timed' WHERE mode = 'blitz';
+UPDATE leaderboard SET scoring = 'timed' WHERE mode = 'blitz';
+
+CREATE INDEX IF NOT EXISTS idx_leaderboard_mode_scoring ON leaderboard(mode, scoring, level);
@@ -0,0 +1,15 @@
+-- Daily challenge: every player is dealt the same seeded questions for a date, once
+ALTER TABLE quiz_sessions 
+-- The challenge's date (UTC, YYYY-MM-DD) - NULL for other sessions
+ADD COLUMN IF NOT EXISTS daily_date VARCHAR(10);
+
+-- One attempt per player: a player can only start one session of each day's challenge
+CREATE UNIQUE INDEX IF NOT EXISTS idx_quiz_sessions_daily_player
+ON quiz_sessions(daily_date, player_key)
+WHERE daily_date IS NOT NULL AND player_key IS NOT NULL;
+
+-- Each day's challenge has a leaderboard of its own
+ALTER TABLE leaderboard 
+ADD COLUMN IF NOT EXISTS daily_date VARCHAR(10);
+
+CREATE INDEX IF NOT EXISTS idx_leaderboard_daily_date ON leaderboard(daily_date) WHERE daily_date IS NOT NULL;
@@ -0,0 +1,12 @@
+-- Seeded sessions: the questions and option order of a classic, blitz or daily session are all drawn
+-- from its seed, so /quiz?seed=... replays it exactly
+-- NULL for adaptive and review sessions, which are dealt from the player's history instead
+ALTER TABLE quiz_sessions 
+ADD COLUMN IF NOT EXISTS seed VARCHAR(64);
+
+ALTER TABLE leaderboard 
+ADD COLUMN IF NOT EXISTS seed VARCHAR(64);
+
+-- Daily sessions were already dealt from the date
+UPDATE quiz_sessions SET seed = 'daily:' || daily_date WHERE daily_date IS NOT NULL AND seed IS NULL;
+UPDATE leaderboard SET seed = 'daily:' || daily_date WHERE daily_date IS NOT NULL AND seed IS NULL;
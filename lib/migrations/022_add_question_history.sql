@@ -0,0 +1,11 @@
+-- Question history: classic and blitz sessions prefer questions the player hasn't seen, or saw longest ago
+ALTER TABLE quiz_sessions 
+-- The history the session was dealt with: { "<question id>": <epoch ms last seen> }
+-- Kept so replaying the session's seed deals exactly the same questions
+ADD COLUMN IF NOT EXISTS seen JSONB;
+
+-- An identified player's history is read from their sessions' answers
+CREATE INDEX IF NOT EXISTS idx_quiz_sessions_player ON quiz_sessions(player_key) WHERE player_key IS NOT NULL;
+
+-- Replays look up the first session dealt from a seed
+CREATE INDEX IF NOT EXISTS idx_quiz_sessions_seed ON quiz_sessions(seed, created_at) WHERE seed IS NOT NULL;
@@ -0,0 +1,5 @@
+-- Custom quizzes: a session dealt from the bank narrowed by level, type and principle
+-- The configuration it was built with: { "levels": [...], "types": [...], "principles": [...], "count": n }
+-- NULL for every other mode - custom sessions never go on the leaderboard, so it has no column there
+ALTER TABLE quiz_sessions 
+ADD COLUMN IF NOT EXISTS custom JSONB;
@@ -0,0 +1,9 @@
+-- Session templates: classic, blitz and daily sessions are dealt as an ordered list of stages from a named template
+-- (lib/sessionTemplates.ts), which also decides where a session stops for a stage-complete screen
+-- NULL for adaptive, review and custom sessions
+ALTER TABLE quiz_sessions 
+ADD COLUMN IF NOT EXISTS template VARCHAR(20);
+
+-- Sessions dealt before templates used the standard layout, or their practice level's
+UPDATE quiz_sessions SET template = COALESCE(level, 'full')
+WHERE mode IN ('classic', 'blitz', 'daily') AND template IS NULL;
@@ -0,0 +1,10 @@
+-- Replays: sessions dealt from the seed of an earlier one play questions the player could have seen in advance,
+-- so they stay off the leaderboard
+ALTER TABLE quiz_sessions 
+ADD COLUMN IF NOT EXISTS replay BOOLEAN NOT NULL DEFAULT FALSE;
+
+-- Sessions dealt before this from a seed an earlier session had already used were replays
+UPDATE quiz_sessions s SET replay = TRUE
+WHERE s.mode <> 'daily' AND s.seed IS NOT NULL AND EXISTS (
+  SELECT 1 FROM quiz_sessions e WHERE e.seed = s.seed AND e.created_at < s.created_at
+);
@@ -0,0 +1,10 @@
+-- Uploads: option images and typeface font files added on the admin page
+-- Kept in the database rather than under public/, which isn't persistent on most hosts, and served by /api/uploads/<name>
+CREATE TABLE IF NOT EXISTS uploads (
+  -- File name as used in the path, e.g. card-1700000000000.png - never reused
+  name VARCHAR(255) PRIMARY KEY,
+  content_type VARCHAR(100) NOT NULL,
+  data BYTEA NOT NULL,
+  -- Epoch milliseconds, like leaderboard.timestamp
+  created_at BIGINT NOT NULL
+);
@@ -0,0 +1,48 @@
+import fs from 'fs'
+import path from 'path'
+import { questions } from '../../data/quizData'
+import { validateQuestionBank } from '../quiz'
+import { insertQuestion } from '../questionBank'
+
+// Load .env.local file if it exists
+const envPath = path.join(process.cwd(), '.env.local')
+if (fs.existsSync(envPath)) {
+  const envFile = fs.readFileSync(envPath, 'utf8')
+  envFile.split('\n').forEach(line => {
+    const trimmed = line.trim()
+    if (trimmed && !trimmed.startsWith('#')) {
+      const [key, ...valueParts] = trimmed.split('=')
+      if (key && valueParts.length > 0) {
+        process.env[key.trim()] = valueParts.join('=').trim()
+      }
+    }
+  })
+}
+
+/**
+ * Seed the questions table from the static array in data/quizData.ts
+ * Existing questions are left untouched, so this is safe to re-run after edits made in the database
+ */
+async function seedQuestions() {
+  try {
+    console.log(`Seeding ${questions.length} questions...`)
+
+    // Refuse to seed a bank the quiz would reject at runtime
+    validateQuestionBank(questions)
+
+    let inserted = 0
+    for (let index = 0; index < questions.length; index++) {
+      if (await insertQuestion(questions[index], index)) {
+        inserted++
+      }
+    }
+
+    console.log(`✅ Seed completed: ${inserted} inserted, ${questions.length - inserted} already present`)
+    process.exit(0)
+  } catch (error) {
+    console.error('❌ Seed failed:', error)
+    process.exit(1)
+  }
+}
+
+seedQuestions()
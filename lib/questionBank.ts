@@ -0,0 +1,240 @@
+import type { PoolClient } from 'pg'
+import { query, transaction } from './db'
+import type { Question } from '../data/quizData'
+
+// Columns selected for every question query, aliased to the Question shape
+const QUESTION_COLUMNS = `
+  id, version, difficulty, type, principles, prompt,
+  option_a as "optionA", option_b as "optionB", correct_option as "correctOption",
+  options, correct_index as "correctIndex", image, regions,
+  sample_text as "sampleText", fonts, annotations, explanation, translations
+`
+
+// Authored columns written on insert/update, in the order of questionParams
+const WRITE_COLUMNS = [
+  'id', 'difficulty', 'type', 'principles', 'prompt',
+  'option_a', 'option_b', 'correct_option', 'options', 'correct_index', 'image', 'regions',
+  'sample_text', 'fonts', 'annotations', 'explanation', 'translations',
+]
+
+const WRITE_PLACEHOLDERS = WRITE_COLUMNS.map((_, i) => `$${i + 1}`).join(', ')
+
+// Query parameters for WRITE_COLUMNS
+function questionParams(question: Question): any[] {
+  return [
+    question.id,
+    question.difficulty,
+    question.type,
+    question.principles,
+    question.prompt,
+    question.optionA ?? null,
+    question.optionB ?? null,
+    question.correctOption ?? null,
+    question.options ?? null,
+    question.correctIndex ?? null,
+    question.image ?? null,
+    // JSONB column - pg would otherwise send the array as a Postgres array
+    question.regions ? JSON.stringify(question.regions) : null,
+    question.sampleText ?? null,
+    question.fonts ? JSON.stringify(question.fonts) : null,
+    question.annotations ? JSON.stringify(question.annotations) : null,
+    question.explanation,
+    question.translations ? JSON.stringify(question.translations) : null,
+  ]
+}
+
+// Map a database row to a Question
+// Only copies known fields so database-only columns never leak to the client
+export function rowToQuestion(row: any): Question {
+  const question: Question = {
+    id: row.id,
+    version: row.version,
+    difficulty: row.difficulty,
+    type: row.type,
+    principles: row.principles || [],
+    prompt: row.prompt,
+    explanation: row.explanation,
+  }
+  // Keep whichever answer form the question was authored in
+  if (row.type === 'hotspot') {
+    question.image = row.image
+    question.regions = row.regions
+  } else if (row.type === 'ranking') {
+    question.options = row.options
+  } else if (row.options) {
+    question.options = row.options
+    question.correctIndex = row.correctIndex
+  } else {
+    question.optionA = row.optionA
+    question.optionB = row.optionB
+    question.correctOption = row.correctOption
+  }
+  if (row.sampleText) question.sampleText = row.sampleText
+  if (row.fonts) question.fonts = row.fonts
+  if (row.annotations) question.annotations = row.annotations
+  if (row.translations) question.translations = row.translations
+  return question
+}
+
+// Serialize a value with object keys sorted, so equal content always gives the same string
+function canonicalJson(value: unknown): string {
+  if (Array.isArray(value)) {
+    return `[${value.map(canonicalJson).join(',')}]`
+  }
+  if (value && typeof value === 'object') {
+    const entries = Object.entries(value)
+      .filter(([, entryValue]) => entryValue !== undefined)
+      .sort(([a], [b]) => a.localeCompare(b))
+    return `{${entries.map(([key, entryValue]) => `${JSON.stringify(key)}:${canonicalJson(entryValue)}`).join(',')}}`
+  }
+  return JSON.stringify(value)
+}
+
+// The authored content of a question, as stored in question_versions
+function questionContent(question: Question): string {
+  const { version, ...content } = question
+  return canonicalJson(content)
+}
+
+// Whether two questions have the same authored content, ignoring their versions
+export function hasSameContent(a: Question, b: Question): boolean {
+  return questionContent(a) === questionContent(b)
+}
+
+// Keep a snapshot of a question version so answers can be traced to what the player saw
+async function saveVersion(client: PoolClient, question: Question, version: number): Promise<void> {
+  await client.query(
+    'INSERT INTO question_versions (question_id, version, content) VALUES ($1, $2, $3)',
+    [question.id, version, questionContent(question)]
+  )
+}
+
+// A question as seen by the admin tools, including its retirement status
+export interface AdminQuestion extends Question {
+  retired: boolean
+}
+
+// Load the active question bank in its authored order
+// Retired questions are never part of the pool
+export async function getQuestionBank(): Promise<Question[]> {
+  const result = await query(`
+    SELECT ${QUESTION_COLUMNS}
+    FROM questions
+    WHERE retired = false
+    ORDER BY sort_order ASC, id ASC
+  `)
+  return result.rows.map(rowToQuestion)
+}
+
+// Load every question, active and retired, for the admin tools
+export async function getAllQuestions(): Promise<AdminQuestion[]> {
+  const result = await query(`
+    SELECT ${QUESTION_COLUMNS}, retired
+    FROM questions
+    ORDER BY sort_order ASC, id ASC
+  `)
+  return result.rows.map(row => ({ ...rowToQuestion(row), retired: row.retired }))
+}
+
+// Create a question at the end of the bank, as version 1
+// If replacesId is given, that question is retired in the same transaction
+// Pass retired to add the question without putting it in the active pool
+export async function createQuestion(
+  question: Question,
+  { replacesId, retired = false }: { replacesId?: string; retired?: boolean } = {}
+): Promise<void> {
+  await transaction(async (client) => {
+    await client.query(
+      `
+        INSERT INTO questions (${WRITE_COLUMNS.join(', ')}, retired, sort_order)
+        VALUES (${WRITE_PLACEHOLDERS}, $${WRITE_COLUMNS.length + 1}, (SELECT COALESCE(MAX(sort_order), -1) + 1 FROM questions))
+      `,
+      [...questionParams(question), retired]
+    )
+    await saveVersion(client, question, 1)
+    if (replacesId) {
+      await client.query(
+        'UPDATE questions SET retired = true, updated_at = CURRENT_TIMESTAMP WHERE id = $1',
+        [replacesId]
+      )
+    }
+  })
+}
+
+// Update an existing question's content and retirement status
+// Content changes create a new version, retiring or restoring alone does not
+// Returns the question's version after the update
+export async function updateQuestion(question: Question, retired: boolean): Promise<number> {
+  return transaction(async (client) => {
+    const current = await client.query(
+      `SELECT ${QUESTION_COLUMNS} FROM questions WHERE id = $1 FOR UPDATE`,
+      [question.id]
+    )
+    const previous = rowToQuestion(current.rows[0])
+    const contentChanged = !hasSameContent(previous, question)
+    const version = contentChanged ? (previous.version || 1) + 1 : previous.version || 1
+
+    // Column 1 is the id used in the WHERE clause, the rest are updated
+    const assignments = WRITE_COLUMNS.slice(1).map((column, i) => `${column} = $${i + 2}`).join(', ')
+    await client.query(
+      `
+        UPDATE questions
+        SET ${assignments}, retired = $${WRITE_COLUMNS.length + 1}, version = $${WRITE_COLUMNS.length + 2},
+          updated_at = CURRENT_TIMESTAMP
+        WHERE id = $1
+      `,
+      [...questionParams(question), retired, version]
+    )
+    if (contentChanged) {
+      await saveVersion(client, question, version)
+    }
+    return version
+  })
+}
+
+// Insert a question as version 1, leaving an existing row with the same id untouched
+// Returns true if the question was inserted
+export async function insertQuestion(question: Question, sortOrder: number): Promise<boolean> {
+  return transaction(async (client) => {
+    const result = await client.query(
+      `
+        INSERT INTO questions (${WRITE_COLUMNS.join(', ')}, sort_order)
+        VALUES (${WRITE_PLACEHOLDERS}, $${WRITE_COLUMNS.length + 1})
+        ON CONFLICT (id) DO NOTHING
+      `,
+      [...questionParams(question), sortOrder]
+    )
+    const inserted = (result.rowCount || 0) > 0
+    if (inserted) {
+      await saveVersion(client, question, 1)
+    }
+    return inserted
+  })
+}
+
+// Answer counts for one version of a question
+export interface VersionStats {
+  questionId: string
+  version: number
+  answered: number
+  correct: number
+  // Median time to answer, for answers stored with a response time
+  medianResponseMs: number | null
+}
+
+// Answer counts for every question version that has been answered, in finished and unfinished sessions
+// Kept per version so a fixed question's new statistics aren't mixed with the old ones
+export async function getVersionStats(): Promise<VersionStats[]> {
+  const result = await query(`
+    SELECT
+      question_id as "questionId",
+      question_version as "version",
+      COUNT(*)::int as "answered",
+      COUNT(*) FILTER (WHERE is_correct)::int as "correct",
+      (PERCENTILE_CONT(0.5) WITHIN GROUP (ORDER BY response_time_ms))::int as "medianResponseMs"
+    FROM answers
+    GROUP BY question_id, question_version
+    ORDER BY question_id ASC, question_version ASC
+  `)
+  return result.rows
+}
@@ -0,0 +1,57 @@
+import { query } from './db'
+import type { SeenQuestions } from './quiz'
+
+// Most questions a history sent by the browser is read for - more than any bank holds
+const MAX_HISTORY_SIZE = 1000
+
+// When an identified player last answered each question, across all their sessions
+export async function getPlayerHistory(playerKey: string): Promise<SeenQuestions> {
+  const result = await query(
+    `
+      SELECT a.question_id as "questionId", (EXTRACT(EPOCH FROM MAX(a.created_at)) * 1000)::bigint as "seenAt"
+      FROM answers a
+      JOIN quiz_sessions s ON s.id = a.session_id
+      WHERE s.player_key = $1
+      GROUP BY a.question_id
+    `,
+    [playerKey]
+  )
+  const seen: SeenQuestions = {}
+  result.rows.forEach(row => {
+    // BIGINT columns come back from pg as strings
+    seen[row.questionId] = Number(row.seenAt)
+  })
+  return seen
+}
+
+// A history sent by the browser, keeping only well-formed entries
+export function parseHistory(input: unknown): SeenQuestions {
+  const seen: SeenQuestions = {}
+  if (!input || typeof input !== 'object' || Array.isArray(input)) return seen
+  Object.keys(input).slice(0, MAX_HISTORY_SIZE).forEach(id => {
+    const seenAt = (input as Record<string, unknown>)[id]
+    if (typeof seenAt === 'number' && Number.isFinite(seenAt)) seen[id] = seenAt
+  })
+  return seen
+}
+
+// Combine histories, keeping the latest time each question was seen
+export function mergeHistories(...histories: SeenQuestions[]): SeenQuestions {
+  const merged: SeenQuestions = {}
+  histories.forEach(history => {
+    Object.keys(history).forEach(id => {
+      merged[id] = Math.max(merged[id] || 0, history[id])
+    })
+  })
+  return merged
+}
+
+// The history an earlier session with this seed was dealt with, so a replay deals exactly the same questions
+// Null if no session was dealt from the seed
+export async function getSeedHistory(seed: string): Promise<SeenQuestions | null> {
+  const result = await query(
+    'SELECT seen FROM quiz_sessions WHERE seed = $1 ORDER BY created_at ASC LIMIT 1',
+    [seed]
+  )
+  return result.rows.length > 0 ? result.rows[0].seen || {} : null
+}
@@ -0,0 +1,166 @@
+import crypto from 'crypto'
+import fs from 'fs'
+import path from 'path'
+import zlib from 'zlib'
+import type { Question } from '../data/quizData'
+import { getQuestionAssets, validateQuestionInput, validateQuestions } from './quiz'
+import { getUpload, uploadContentType, uploadName } from './uploads'
+
+// Identifies a file as a Design Gym question pack, and the layout it was written with
+export const PACK_FORMAT = 'design-gym-question-pack'
+export const PACK_VERSION = 1
+
+export const PUBLIC_DIR = path.join(process.cwd(), 'public')
+
+// Describes the questions in a pack - asset paths in questions are the keys of QuestionPack.assets
+export interface PackManifest {
+  format: typeof PACK_FORMAT
+  version: number
+  exportedAt: string
+  questions: Question[]
+}
+
+// A manifest plus every file its questions use, base64 encoded and keyed by path (e.g. /api/uploads/card.png)
+// Written to disk as gzipped JSON, so a pack is a single file with no extra dependencies
+export interface QuestionPack {
+  manifest: PackManifest
+  assets: Record<string, string>
+}
+
+// Resolve a public path like /images/card.png to a file under public/
+// Returns null for paths that would escape public/
+export function publicFilePath(src: string): string | null {
+  const filePath = path.join(PUBLIC_DIR, src)
+  return src.startsWith('/') && filePath.startsWith(PUBLIC_DIR + path.sep) ? filePath : null
+}
+
+// Read a file a question points at: an upload from the database, or a file under public/
+// Null if there is no such file
+export async function readAsset(src: string): Promise<Buffer | null> {
+  const name = uploadName(src)
+  if (name !== null) {
+    const upload = await getUpload(name)
+    return upload ? upload.data : null
+  }
+  const filePath = publicFilePath(src)
+  return filePath && fs.existsSync(filePath) ? fs.promises.readFile(filePath) : null
+}
+
+// Short content hash, used to spot an asset that differs from the file already at its path
+export function assetHash(data: Buffer): string {
+  return crypto.createHash('sha1').update(data).digest('hex')
+}
+
+// Build a pack from questions, reading their files from the uploads table and public/
+// Versions are left out - each deployment numbers its own versions
+export async function buildPack(questions: Question[]): Promise<QuestionPack> {
+  const assets: Record<string, string> = {}
+  const packed = questions.map(({ version, ...question }) => question)
+
+  for (const question of packed) {
+    for (const { label, src } of getQuestionAssets(question)) {
+      if (assets[src]) continue
+      const data = await readAsset(src)
+      if (!data) {
+        throw new Error(`${question.id}: ${label} file not found: ${src}`)
+      }
+      assets[src] = data.toString('base64')
+    }
+  }
+
+  return {
+    manifest: {
+      format: PACK_FORMAT,
+      version: PACK_VERSION,
+      exportedAt: new Date().toISOString(),
+      questions: packed,
+    },
+    assets,
+  }
+}
+
+export function writePack(filePath: string, pack: QuestionPack): void {
+  fs.writeFileSync(filePath, zlib.gzipSync(JSON.stringify(pack)))
+}
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value)
+}
+
+// Read a pack file, checking only that it is a pack this version understands
+// Call validatePack before using its questions
+export function readPack(filePath: string): QuestionPack {
+  let parsed: unknown
+  try {
+    parsed = JSON.parse(zlib.gunzipSync(fs.readFileSync(filePath)).toString('utf8'))
+  } catch (error) {
+    throw new Error(`${filePath} is not a question pack (expected gzipped JSON)`)
+  }
+  const { manifest, assets } = isRecord(parsed) ? parsed : ({} as Record<string, unknown>)
+  if (!isRecord(manifest) || manifest.format !== PACK_FORMAT) {
+    const format = isRecord(manifest) ? manifest.format : undefined
+    throw new Error(`${filePath} is not a question pack (format is ${JSON.stringify(format)})`)
+  }
+  if (typeof manifest.version !== 'number') {
+    throw new Error(`${filePath} has no pack version`)
+  }
+  if (manifest.version > PACK_VERSION) {
+    throw new Error(`Pack version ${manifest.version} is newer than this tool supports (${PACK_VERSION})`)
+  }
+  if (!Array.isArray(manifest.questions) || !isRecord(assets)) {
+    throw new Error(`${filePath} is missing its questions or assets`)
+  }
+  // Questions and asset contents are checked by validatePack
+  return {
+    manifest: {
+      format: PACK_FORMAT,
+      version: manifest.version,
+      exportedAt: typeof manifest.exportedAt === 'string' ? manifest.exportedAt : 'an unknown date',
+      questions: manifest.questions,
+    },
+    assets: assets as Record<string, string>,
+  }
+}
+
+/**
+ * Check a pack's questions before anything is imported
+ * Runs validateQuestions and each question's validateQuestionInput, then checks for
+ * duplicate ids and that every file a question uses is in the pack, and uploads are of an allowed type
+ * Returns problems keyed by question id, with pack-wide problems under ''
+ */
+export function validatePack(pack: QuestionPack): Map<string, string[]> {
+  const problems = new Map<string, string[]>()
+  const report = (id: string, problem: string) => {
+    problems.set(id, [...(problems.get(id) || []), problem])
+  }
+
+  try {
+    validateQuestions(pack.manifest.questions)
+  } catch (error) {
+    report('', error instanceof Error ? error.message : String(error))
+  }
+
+  const seen = new Set<string>()
+  pack.manifest.questions.forEach((question, index) => {
+    const id = typeof question?.id === 'string' && question.id ? question.id : `(question ${index + 1})`
+    if (seen.has(id)) report('', `Duplicate id in pack: ${id}`)
+    seen.add(id)
+
+    const inputProblems = validateQuestionInput(question)
+    inputProblems.forEach(problem => report(id, problem))
+    if (inputProblems.length > 0) return
+
+    for (const { label, src } of getQuestionAssets(question)) {
+      const name = uploadName(src)
+      if (!publicFilePath(src)) {
+        report(id, `${label} path must stay inside public/: ${src}`)
+      } else if (name !== null && !uploadContentType(name)) {
+        report(id, `${label} upload is not an allowed image or font type: ${src}`)
+      } else if (typeof pack.assets[src] !== 'string') {
+        report(id, `${label} file is not in the pack: ${src}`)
+      }
+    }
+  })
+
+  return problems
+}
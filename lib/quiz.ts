@@ -0,0 +1,776 @@
+import {
+  HotspotRegion,
+  Principle,
+  PRINCIPLES,
+  Question,
+  QuestionAnnotation,
+  QuestionFont,
+  QuestionTranslation,
+} from '../data/quizData'
+import { DEFAULT_LOCALE, Locale, LOCALES } from '../data/messages'
+
+// Configuration for questions per level - never show all questions
+export const QUESTIONS_PER_LEVEL: Record<'beginner' | 'mid' | 'expert', number> = {
+  beginner: 5, // Show 5 out of 20 beginner questions
+  mid: 7, // Show 7 out of 20 mid questions
+  expert: 8, // Show 8 out of 20 expert questions
+}
+
+// One stage of a session: count questions of one level, dealt in a row
+// Session templates (lib/sessionTemplates.ts) lay sessions out as a list of these
+export interface SessionStage {
+  level: 'beginner' | 'mid' | 'expert'
+  count: number
+  // How many of the stage's questions are of each type, adding up to count - any mix of types if left out
+  // e.g. { typeface: 3, image: 2 } for a five-question stage
+  mix?: Partial<Record<Question['type'], number>>
+}
+
+// The types a stage's mix lists, with their counts
+export function stageMix(stage: SessionStage): [Question['type'], number][] {
+  return Object.entries(stage.mix || {}) as [Question['type'], number][]
+}
+
+// Required pool composition - validate that pools meet these requirements
+export const REQUIRED_POOL_COMPOSITION: Record<'beginner' | 'mid' | 'expert', { image: number; typeface: number }> = {
+  beginner: { image: 15, typeface: 5 },
+  mid: { image: 12, typeface: 8 },
+  expert: { image: 13, typeface: 7 }
+}
+
+// A source of random numbers in [0, 1), like Math.random
+export type RandomSource = () => number
+
+// A deterministic random source: the same seed always gives the same sequence
+// The seed is hashed to 32 bits (FNV-1a) to start a mulberry32 generator
+export function seededRandom(seed: string): RandomSource {
+  let state = 2166136261
+  for (let i = 0; i < seed.length; i++) {
+    state = Math.imul(state ^ seed.charCodeAt(i), 16777619)
+  }
+  return () => {
+    state = (state + 0x6d2b79f5) | 0
+    let t = Math.imul(state ^ (state >>> 15), 1 | state)
+    t = (t + Math.imul(t ^ (t >>> 7), 61 | t)) ^ t
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296
+  }
+}
+
+// A player's question history: when they last saw each question (epoch milliseconds), by question id
+export type SeenQuestions = Record<string, number>
+
+// Helper function to shuffle an array (Fisher-Yates algorithm)
+// Pass a seeded random source to get the same order every time
+export function shuffleArray<T>(array: T[], random: RandomSource = Math.random): T[] {
+  const shuffled = [...array]
+  for (let i = shuffled.length - 1; i > 0; i--) {
+    const j = Math.floor(random() * (i + 1));
+    [shuffled[i], shuffled[j]] = [shuffled[j], shuffled[i]]
+  }
+  return shuffled
+}
+
+// Most options a single question can show
+export const MAX_OPTIONS = 4
+
+// Ranking questions order between three and five variants
+export const MIN_RANKING_OPTIONS = 3
+export const MAX_RANKING_OPTIONS = 5
+
+// Annotation labels are captions, not sentences
+export const MAX_ANNOTATION_LABEL = 40
+
+// Coins for a fully correct answer - partial answers earn a share of this
+export const COINS_PER_QUESTION = 100
+
+// Sessions left untouched for longer than this expire, on the server and in the browser
+export const SESSION_TTL_MS = 2 * 60 * 60 * 1000
+
+// Blitz sessions: each question has a countdown, and running out of time is a miss
+export const BLITZ_SECONDS_PER_QUESTION = 15
+// Answers arriving this late after the countdown still count, to allow for the network
+export const BLITZ_GRACE_MS = 2000
+
+// Normalize a question's answers to a list with the index of the correct one
+// Two-option questions keep their optionA/optionB form, where optionA is always correct
+export function getQuestionOptions(question: Question): { options: string[]; correctIndex: number } {
+  if (question.options) {
+    return { options: question.options, correctIndex: question.correctIndex ?? 0 }
+  }
+  return { options: [question.optionA || '', question.optionB || ''], correctIndex: 0 }
+}
+
+// Every file a question points at under public/, with a label for reports
+// Used by the seed lint and by question packs, which carry these files with the questions
+export function getQuestionAssets(question: Question): { label: string; src: string }[] {
+  const assets: { label: string; src: string }[] = []
+  if (question.type === 'hotspot') {
+    if (question.image) assets.push({ label: 'image', src: question.image })
+  } else if (question.type !== 'typeface') {
+    const { options } = getQuestionOptions(question)
+    const labels = question.options ? options.map((_, i) => `option ${i + 1}`) : ['optionA', 'optionB']
+    options.forEach((src, i) => assets.push({ label: labels[i], src }))
+  }
+  for (const font of question.fonts || []) {
+    assets.push({ label: `font ${font.family}`, src: font.src })
+  }
+  return assets
+}
+
+// A question's annotations grouped by authored option index
+export function getOptionAnnotations(question: Question): QuestionAnnotation[][] {
+  const { options } = getQuestionOptions(question)
+  return options.map((_, index) => (question.annotations || []).filter(annotation => annotation.option === index))
+}
+
+// Check whether a click (relative 0-1 coordinates) landed on one of a hotspot question's regions
+export function hitsHotspot(question: Question, point: { x: number; y: number }): boolean {
+  return (question.regions || []).some(region =>
+    point.x >= region.x &&
+    point.x <= region.x + region.width &&
+    point.y >= region.y &&
+    point.y <= region.y + region.height
+  )
+}
+
+// Partial credit for a ranking answer: the share of variant pairs the player put in the right order
+// order lists authored option indexes (0 = best) in the order the player ranked them
+export function scoreRanking(order: number[]): number {
+  let pairs = 0
+  let correctPairs = 0
+  for (let i = 0; i < order.length; i++) {
+    for (let j = i + 1; j < order.length; j++) {
+      pairs++
+      if (order[i] < order[j]) correctPairs++
+    }
+  }
+  return pairs > 0 ? correctPairs / pairs : 0
+}
+
+// Validate that all questions have explicit difficulty fields
+export function validateQuestions(questions: Question[]): void {
+  const missingDifficulty = questions.filter(q => !q.difficulty)
+  if (missingDifficulty.length > 0) {
+    throw new Error(
+      `CRITICAL: ${missingDifficulty.length} question(s) are missing explicit difficulty field. ` +
+      `Questions must explicitly define difficulty: "beginner" | "mid" | "expert". ` +
+      `Missing difficulty in questions: ${missingDifficulty.map(q => q.id).join(', ')}`
+    )
+  }
+}
+
+// Validate that difficulty pools meet required composition
+export function validatePoolComposition(
+  difficulty: 'beginner' | 'mid' | 'expert',
+  imageQuestions: Question[],
+  typefaceQuestions: Question[]
+): void {
+  const required = REQUIRED_POOL_COMPOSITION[difficulty]
+  const actualImage = imageQuestions.length
+  const actualTypeface = typefaceQuestions.length
+  
+  if (actualImage !== required.image || actualTypeface !== required.typeface) {
+    throw new Error(
+      `CRITICAL: ${difficulty} difficulty pool does not meet required composition. ` +
+      `Required: ${required.image} image, ${required.typeface} typeface. ` +
+      `Actual: ${actualImage} image, ${actualTypeface} typeface. ` +
+      `Difficulty must be explicitly defined in question data - do not infer from filenames, IDs, or indexes.`
+    )
+  }
+}
+
+// Select and randomize one stage's questions from its level of the given pool
+// Given the player's history, unseen questions are picked first, then the least recently seen
+// Questions in taken (picked by earlier stages of the session) are left out, so a session never deals one twice
+// STRICT RULES: Filter by explicit difficulty field only - never infer from filenames, IDs, or indexes
+export function selectStageQuestions(
+  questions: Question[],
+  stage: SessionStage,
+  random: RandomSource = Math.random,
+  seen: SeenQuestions = {},
+  taken: string[] = []
+): Question[] {
+  const { level, count, mix } = stage
+
+  // STEP 1: Filter questions by explicit difficulty field ONLY
+  // This is the ONLY source of truth - do NOT infer from filenames, IDs, or indexes
+  const levelQuestions = questions.filter(q => {
+    if (!q.difficulty) {
+      throw new Error(
+        `CRITICAL: Question ${q.id} is missing explicit difficulty field. ` +
+        `Every question must explicitly define difficulty: "beginner" | "mid" | "expert"`
+      )
+    }
+    return q.difficulty === level
+  })
+  
+  // STEP 2: Split by type within this difficulty pool
+  // Other types (hotspot, ranking) are drawn alongside but don't count toward the required composition
+  const imageQuestions = levelQuestions.filter(q => q.type === 'image')
+  const typefaceQuestions = levelQuestions.filter(q => q.type === 'typeface')
+  const otherQuestions = levelQuestions.filter(q => q.type !== 'image' && q.type !== 'typeface')
+  
+  // STEP 3: Validate pool composition matches requirements
+  validatePoolComposition(level, imageQuestions, typefaceQuestions)
+  
+  // STEP 4: Shuffle within each type pool
+  const shuffledImage = shuffleArray(imageQuestions, random)
+  const shuffledTypeface = shuffleArray(typefaceQuestions, random)
+  
+  // STEP 5: Select the stage's number of questions from this difficulty level
+  // (Selection is random - doesn't need to maintain image/typeface ratio, unless the stage gives a mix)
+  // The sort is stable, so questions seen equally long ago (or never) stay in shuffled order
+  // Questions already taken are dropped after shuffling, so the draws - and the deal of earlier seeds - stay the same
+  const allShuffled = shuffleArray([...shuffledImage, ...shuffledTypeface, ...otherQuestions], random)
+    .filter(q => !taken.includes(q.id))
+    .sort((a, b) => (seen[a.id] || 0) - (seen[b.id] || 0))
+  
+  if (!mix) {
+    if (allShuffled.length < count) {
+      throw new Error(
+        `CRITICAL: ${level} difficulty pool has only ${allShuffled.length} questions left, ` +
+        `but ${count} are required for selection.`
+      )
+    }
+    return allShuffled.slice(0, count)
+  }
+  
+  // STEP 6: With a mix, take each type's count in the same order, so the types stay interleaved
+  const remaining: Partial<Record<Question['type'], number>> = { ...mix }
+  const selected = allShuffled.filter(q => {
+    if (!remaining[q.type]) return false
+    remaining[q.type]! -= 1
+    return true
+  })
+  
+  for (const [type, typeCount] of stageMix(stage)) {
+    if (remaining[type]) {
+      throw new Error(
+        `CRITICAL: ${level} difficulty pool has only ${typeCount - remaining[type]!} ${type} questions left, ` +
+        `but ${typeCount} are required for selection.`
+      )
+    }
+  }
+  if (selected.length !== count) {
+    throw new Error(`CRITICAL: ${level} stage mix adds up to ${selected.length} questions, but its count is ${count}.`)
+  }
+  
+  return selected
+}
+
+// Select and randomize questions for each of a session's stages from the given pool
+export function selectStagedQuestions(
+  questions: Question[],
+  stages: SessionStage[],
+  random: RandomSource = Math.random,
+  seen: SeenQuestions = {}
+): Question[] {
+  // First, validate all questions have explicit difficulty
+  validateQuestions(questions)
+  
+  // Process each stage in order
+  // Each stage is shuffled within itself, but stages remain in order
+  const selectedQuestions: Question[] = []
+  for (const stage of stages) {
+    selectedQuestions.push(...selectStageQuestions(questions, stage, random, seen, selectedQuestions.map(q => q.id)))
+  }
+  return selectedQuestions
+}
+
+// Validate a whole question bank the same way selectStagedQuestions does before selecting
+// Used wherever the pool is loaded or changed outside a quiz session (API, seeding)
+export function validateQuestionBank(questions: Question[]): void {
+  validateQuestions(questions)
+  
+  for (const level of ['beginner', 'mid', 'expert'] as const) {
+    const levelQuestions = questions.filter(q => q.difficulty === level)
+    validatePoolComposition(
+      level,
+      levelQuestions.filter(q => q.type === 'image'),
+      levelQuestions.filter(q => q.type === 'typeface')
+    )
+  }
+}
+
+// A question dealt to a session: the authored question and the order its options are shown in
+// Kept on the server - the player only ever sees toPublicQuestion's view of it
+export interface DealtQuestion {
+  question: Question
+  // Authored option indexes in display order (empty for hotspot questions)
+  optionOrder: number[]
+  // Adaptive sessions: the question's difficulty rating when it was dealt, which the player is rated against
+  rating?: number
+}
+
+// A question as sent to the player before they answer
+// Options come in display order, and nothing in it gives the answer away:
+// no correct option, hotspot regions, ranks, explanation or annotations
+// Image and ranking options are the session's URLs for the images, not their file paths
+export interface PublicQuestion {
+  id: string
+  version: number
+  difficulty: Question['difficulty']
+  type: Question['type']
+  principles: Principle[]
+  prompt: string
+  options: string[]
+  image?: string
+  sampleText?: string
+  fonts?: QuestionFont[]
+  translations?: Partial<Record<Locale, Omit<QuestionTranslation, 'explanation'>>>
+}
+
+// A player's answer, in display terms
+// Choice questions send the position picked, hotspot questions the click (0-1 coordinates),
+// ranking questions the display positions in the order the player ranked them
+export type PlayerAnswer =
+  | { position: number }
+  | { point: { x: number; y: number } }
+  | { order: number[] }
+
+// What the player learns once they have answered
+export interface AnswerReveal {
+  // 1 for a correct answer, 0 for a wrong one, and in between for partly right rankings
+  credit: number
+  // Choice questions: display position of the correct option
+  correctPosition?: number
+  // Ranking questions: authored rank (0 = best) of the option at each display position
+  ranks?: number[]
+  // Hotspot questions: the regions that contain the problem
+  regions?: HotspotRegion[]
+  // Image questions: annotations for each option in display order
+  annotations?: QuestionAnnotation[][]
+  explanation: string
+  // Explanation in other locales
+  translations?: Partial<Record<Locale, Pick<QuestionTranslation, 'explanation'>>>
+}
+
+// Shuffle a question's options for a session
+export function dealQuestion(question: Question, random: RandomSource = Math.random): DealtQuestion {
+  if (question.type === 'hotspot') {
+    return { question, optionOrder: [] }
+  }
+  const { options } = getQuestionOptions(question)
+  return { question, optionOrder: shuffleArray(options.map((_, index) => index), random) }
+}
+
+// Deal a session's stages from the bank with every choice - questions and option order - drawn from the seed,
+// so the same seed and history deal the same session again
+// The bank is put in id order first, so reordering it doesn't change what a seed deals - adding, editing or retiring questions can
+export function dealSeededQuestions(
+  pool: Question[],
+  seed: string,
+  stages: SessionStage[],
+  seen: SeenQuestions = {}
+): DealtQuestion[] {
+  const random = seededRandom(seed)
+  const ordered = [...pool].sort((a, b) => (a.id < b.id ? -1 : a.id > b.id ? 1 : 0))
+  return selectStagedQuestions(ordered, stages, random, seen).map(question => dealQuestion(question, random))
+}
+
+// Where a session serves the image of an option, by display position
+// Image file names often say which option is which (-a.png is the correct one), so the player only gets this URL
+export function optionImageUrl(sessionId: string, index: number, position: number): string {
+  return `/api/sessions/${sessionId}/options?question=${index}&position=${position}`
+}
+
+// The family a typeface option is set in: the first one in its font-family list
+export function optionFamily(option: string): string {
+  return option.split(',')[0].trim().replace(/^['"]|['"]$/g, '')
+}
+
+// A session's view of its index-th question
+// Fonts are put in the order of the options set in them, so their order doesn't give the correct option away either
+export function toPublicQuestion({ question, optionOrder }: DealtQuestion, sessionId: string, index: number): PublicQuestion {
+  const { options } = getQuestionOptions(question)
+  const shown = question.type === 'hotspot' ? [] : optionOrder.map(authored => options[authored])
+  const publicQuestion: PublicQuestion = {
+    id: question.id,
+    version: question.version || 1,
+    difficulty: question.difficulty,
+    type: question.type,
+    principles: question.principles,
+    prompt: question.prompt,
+    options: question.type === 'typeface' ? shown : shown.map((_, position) => optionImageUrl(sessionId, index, position)),
+  }
+  if (question.image) publicQuestion.image = question.image
+  if (question.sampleText) publicQuestion.sampleText = question.sampleText
+  if (question.fonts) {
+    const families = shown.map(optionFamily)
+    const position = (font: QuestionFont) => {
+      const shownAt = families.indexOf(font.family)
+      return shownAt === -1 ? families.length : shownAt
+    }
+    publicQuestion.fonts = [...question.fonts].sort((a, b) => position(a) - position(b))
+  }
+  if (question.translations) {
+    const translations: PublicQuestion['translations'] = {}
+    for (const locale of LOCALES) {
+      const translation = question.translations[locale]
+      if (translation) {
+        const { explanation, ...shown } = translation
+        translations[locale] = shown
+      }
+    }
+    publicQuestion.translations = translations
+  }
+  return publicQuestion
+}
+
+// Whether a value is an answer of the right shape for a dealt question
+// Checked by the server before scoring, since the answer comes straight from the request body
+export function isValidAnswer({ question, optionOrder }: DealtQuestion, answer: any): answer is PlayerAnswer {
+  if (!answer || typeof answer !== 'object') return false
+  if (question.type === 'hotspot') {
+    const { point } = answer
+    return !!point && [point.x, point.y].every(value => typeof value === 'number' && value >= 0 && value <= 1)
+  }
+  if (question.type === 'ranking') {
+    const { order } = answer
+    return Array.isArray(order) &&
+      order.length === optionOrder.length &&
+      optionOrder.every((_, position) => order.includes(position))
+  }
+  return Number.isInteger(answer.position) && answer.position >= 0 && answer.position < optionOrder.length
+}
+
+// Score an answer to a dealt question and build what the player is shown afterwards
+// The answer must have passed isValidAnswer - null is a question left unanswered (a blitz timeout), worth nothing
+export function revealAnswer({ question, optionOrder }: DealtQuestion, answer: PlayerAnswer | null): AnswerReveal {
+  let reveal: AnswerReveal
+  if (question.type === 'hotspot') {
+    reveal = {
+      credit: answer && 'point' in answer && hitsHotspot(question, answer.point) ? 1 : 0,
+      regions: question.regions || [],
+      explanation: question.explanation,
+    }
+  } else if (question.type === 'ranking') {
+    reveal = {
+      credit: answer && 'order' in answer ? scoreRanking(answer.order.map(position => optionOrder[position])) : 0,
+      ranks: optionOrder,
+      explanation: question.explanation,
+    }
+  } else {
+    const correctPosition = optionOrder.indexOf(getQuestionOptions(question).correctIndex)
+    reveal = {
+      credit: answer && 'position' in answer && answer.position === correctPosition ? 1 : 0,
+      correctPosition,
+      explanation: question.explanation,
+    }
+    if (question.annotations) {
+      const annotations = getOptionAnnotations(question)
+      reveal.annotations = optionOrder.map(index => annotations[index])
+    }
+  }
+  if (question.translations) {
+    const translations: AnswerReveal['translations'] = {}
+    for (const locale of LOCALES) {
+      const explanation = question.translations[locale]?.explanation
+      if (explanation) translations[locale] = { explanation }
+    }
+    reveal.translations = translations
+  }
+  return reveal
+}
+
+// Check a single authored question for missing or malformed fields
+// Returns a list of problems - empty when the question is valid
+export function validateQuestionInput(input: any): string[] {
+  const problems: string[] = []
+  const isNonEmptyString = (value: unknown) => typeof value === 'string' && value.trim() !== ''
+  
+  if (!input || typeof input !== 'object') {
+    return ['Question must be an object']
+  }
+  if (!isNonEmptyString(input.id)) problems.push('id is required')
+  if (!['beginner', 'mid', 'expert'].includes(input.difficulty)) {
+    problems.push('difficulty must be "beginner", "mid" or "expert"')
+  }
+  if (!['image', 'typeface', 'hotspot', 'ranking'].includes(input.type)) {
+    problems.push('type must be "image", "typeface", "hotspot" or "ranking"')
+  }
+  if (!Array.isArray(input.principles) || input.principles.length === 0) {
+    problems.push('at least one principle is required')
+  } else {
+    const unknown = input.principles.filter((p: unknown) => !(PRINCIPLES as readonly string[]).includes(p as string))
+    if (unknown.length > 0) problems.push(`unknown principles: ${unknown.join(', ')}`)
+  }
+  if (!isNonEmptyString(input.prompt)) problems.push('prompt is required')
+  if (!isNonEmptyString(input.explanation)) problems.push('explanation is required')
+  problems.push(...validateTypefaceText(input))
+  problems.push(...validateTranslations(input))
+  if (input.annotations !== undefined && input.type !== 'image') {
+    problems.push('annotations only apply to image questions')
+  }
+  
+  if (input.type === 'hotspot') {
+    return [...problems, ...validateHotspotInput(input)]
+  }
+  if (input.type === 'ranking') {
+    return [...problems, ...validateRankingInput(input)]
+  }
+  
+  // Either the two-option optionA/optionB form or an options list - never both
+  let options: unknown[] = []
+  if (input.options !== undefined) {
+    if (input.optionA !== undefined || input.optionB !== undefined) {
+      problems.push('use either options or optionA/optionB, not both')
+    }
+    if (!Array.isArray(input.options) || input.options.length < 2 || input.options.length > MAX_OPTIONS) {
+      problems.push(`options must list between 2 and ${MAX_OPTIONS} options`)
+    } else {
+      options = input.options
+      if (!Number.isInteger(input.correctIndex) || input.correctIndex < 0 || input.correctIndex >= options.length) {
+        problems.push('correctIndex must point at one of the options')
+      }
+    }
+  } else {
+    if (!isNonEmptyString(input.optionA)) problems.push('optionA is required')
+    if (!isNonEmptyString(input.optionB)) problems.push('optionB is required')
+    if (input.correctOption !== 'A') problems.push('correctOption must be "A"')
+    options = [input.optionA, input.optionB]
+  }
+  
+  options.forEach((option, index) => {
+    if (isNonEmptyString(option) && input.type === 'image' && !(option as string).startsWith('/')) {
+      problems.push(`option ${index + 1} must be an image path starting with "/"`)
+    } else if (input.options !== undefined && !isNonEmptyString(option)) {
+      problems.push(`option ${index + 1} is required`)
+    }
+  })
+  if (options.every(isNonEmptyString) && new Set(options).size !== options.length) {
+    problems.push('options must all differ')
+  }
+  if (input.type === 'image' && input.annotations !== undefined) {
+    problems.push(...validateAnnotations(input.annotations, options.length))
+  }
+  
+  return problems
+}
+
+// Annotations sit on one of the options and stay inside its image
+function validateAnnotations(annotations: any, optionCount: number): string[] {
+  if (!Array.isArray(annotations)) return ['annotations must be a list']
+  const problems: string[] = []
+  const inImage = (value: unknown) => typeof value === 'number' && value >= 0 && value <= 1
+  
+  annotations.forEach((annotation: any, index: number) => {
+    const name = `annotation ${index + 1}`
+    if (!Number.isInteger(annotation?.option) || annotation.option < 0 || annotation.option >= optionCount) {
+      problems.push(`${name} must be on one of the options`)
+    }
+    if (!['box', 'arrow', 'label'].includes(annotation?.kind)) {
+      problems.push(`${name} kind must be "box", "arrow" or "label"`)
+      return
+    }
+    if (!inImage(annotation.x) || !inImage(annotation.y)) {
+      problems.push(`${name} must have x and y between 0 and 1`)
+    }
+    if (annotation.kind === 'box') {
+      if (!inImage(annotation.width) || !inImage(annotation.height) || annotation.width === 0 || annotation.height === 0) {
+        problems.push(`${name} box must have a width and height between 0 and 1`)
+      } else if (annotation.x + annotation.width > 1 || annotation.y + annotation.height > 1) {
+        problems.push(`${name} box must fit inside the image`)
+      }
+    }
+    if (annotation.kind === 'arrow' && (!inImage(annotation.toX) || !inImage(annotation.toY))) {
+      problems.push(`${name} arrow must have toX and toY between 0 and 1`)
+    }
+    if (annotation.label !== undefined || annotation.kind === 'label') {
+      if (typeof annotation.label !== 'string' || annotation.label.trim() === '') {
+        problems.push(`${name} needs label text`)
+      } else if (annotation.label.length > MAX_ANNOTATION_LABEL) {
+        problems.push(`${name} label must be at most ${MAX_ANNOTATION_LABEL} characters`)
+      }
+    }
+  })
+  
+  return problems
+}
+
+// Hotspot questions have one image and at least one region inside it
+function validateHotspotInput(input: any): string[] {
+  const problems: string[] = []
+  
+  if (input.options !== undefined || input.optionA !== undefined || input.optionB !== undefined) {
+    problems.push('hotspot questions use image and regions, not options')
+  }
+  if (typeof input.image !== 'string' || !input.image.startsWith('/')) {
+    problems.push('image must be an image path starting with "/"')
+  }
+  if (!Array.isArray(input.regions) || input.regions.length === 0) {
+    problems.push('at least one region is required')
+    return problems
+  }
+  
+  input.regions.forEach((region: HotspotRegion, index: number) => {
+    const values = [region?.x, region?.y, region?.width, region?.height]
+    if (!values.every(value => typeof value === 'number' && value >= 0 && value <= 1)) {
+      problems.push(`region ${index + 1} must have x, y, width and height between 0 and 1`)
+    } else if (region.width === 0 || region.height === 0 || region.x + region.width > 1 || region.y + region.height > 1) {
+      problems.push(`region ${index + 1} must have a size and fit inside the image`)
+    }
+  })
+  
+  return problems
+}
+
+// Ranking questions list their image variants in the correct order, best first
+function validateRankingInput(input: any): string[] {
+  const problems: string[] = []
+  
+  if (input.optionA !== undefined || input.optionB !== undefined || input.correctIndex !== undefined) {
+    problems.push('ranking questions use an ordered options list, not optionA/optionB or correctIndex')
+  }
+  if (
+    !Array.isArray(input.options) ||
+    input.options.length < MIN_RANKING_OPTIONS ||
+    input.options.length > MAX_RANKING_OPTIONS
+  ) {
+    problems.push(`options must list between ${MIN_RANKING_OPTIONS} and ${MAX_RANKING_OPTIONS} variants`)
+    return problems
+  }
+  
+  input.options.forEach((option: unknown, index: number) => {
+    if (typeof option !== 'string' || !option.startsWith('/')) {
+      problems.push(`variant ${index + 1} must be an image path starting with "/"`)
+    }
+  })
+  if (new Set(input.options).size !== input.options.length) {
+    problems.push('variants must all differ')
+  }
+  
+  return problems
+}
+
+// Font files a typeface question can declare
+const FONT_FILE_PATTERN = /\.(woff2?|ttf|otf)$/i
+
+// Copy only the authored fields from input that passed validateQuestionInput, trimming text
+// Used for admin API request bodies and imported question packs
+export function toQuestion(input: any): Question {
+  const question: Question = {
+    id: input.id.trim(),
+    difficulty: input.difficulty,
+    type: input.type,
+    principles: input.principles,
+    prompt: input.prompt.trim(),
+    explanation: input.explanation.trim(),
+  }
+  if (input.type === 'hotspot') {
+    question.image = input.image.trim()
+    question.regions = input.regions.map(({ x, y, width, height }: HotspotRegion) => ({ x, y, width, height }))
+  } else if (input.type === 'ranking') {
+    question.options = input.options.map((option: string) => option.trim())
+  } else if (input.options !== undefined) {
+    question.options = input.options.map((option: string) => option.trim())
+    question.correctIndex = input.correctIndex
+  } else {
+    question.optionA = input.optionA.trim()
+    question.optionB = input.optionB.trim()
+    question.correctOption = input.correctOption
+  }
+  if (input.sampleText !== undefined) question.sampleText = input.sampleText.trim()
+  if (input.fonts !== undefined) {
+    question.fonts = input.fonts.map(({ family, src, weight, style }: QuestionFont) => ({
+      family: family.trim(),
+      src: src.trim(),
+      ...(weight ? { weight } : {}),
+      ...(style ? { style } : {}),
+    }))
+  }
+  if (input.annotations !== undefined) {
+    question.annotations = input.annotations.map(({ option, kind, x, y, width, height, toX, toY, label }: QuestionAnnotation) => ({
+      option,
+      kind,
+      x,
+      y,
+      ...(kind === 'box' ? { width, height } : {}),
+      ...(kind === 'arrow' ? { toX, toY } : {}),
+      ...(label?.trim() ? { label: label.trim() } : {}),
+    }))
+  }
+  if (input.translations !== undefined) {
+    question.translations = {}
+    for (const [locale, translation] of Object.entries<QuestionTranslation>(input.translations)) {
+      const { prompt, explanation, sampleText } = translation
+      question.translations[locale as keyof typeof question.translations] = {
+        ...(prompt ? { prompt: prompt.trim() } : {}),
+        ...(explanation ? { explanation: explanation.trim() } : {}),
+        ...(sampleText ? { sampleText: sampleText.trim() } : {}),
+      }
+    }
+  }
+  return question
+}
+
+// Translations are optional per locale and per field, but a field that is set must have text
+function validateTranslations(input: any): string[] {
+  const problems: string[] = []
+  
+  if (input.translations === undefined) return problems
+  if (!input.translations || typeof input.translations !== 'object' || Array.isArray(input.translations)) {
+    return ['translations must map a locale to its text']
+  }
+  for (const locale of Object.keys(input.translations)) {
+    if (locale === DEFAULT_LOCALE || !LOCALES.includes(locale as Locale)) {
+      problems.push(`translations: unsupported locale "${locale}" (use ${LOCALES.filter(l => l !== DEFAULT_LOCALE).join(' or ')})`)
+      continue
+    }
+    const translation = input.translations[locale]
+    if (!translation || typeof translation !== 'object') {
+      problems.push(`translations.${locale} must be an object`)
+      continue
+    }
+    for (const field of Object.keys(translation)) {
+      if (!['prompt', 'explanation', 'sampleText'].includes(field)) {
+        problems.push(`translations.${locale}.${field} is not a translatable field`)
+      } else if (typeof translation[field] !== 'string' || translation[field].trim() === '') {
+        problems.push(`translations.${locale}.${field} must not be empty when set`)
+      }
+    }
+    if (translation.sampleText !== undefined && input.type !== 'typeface') {
+      problems.push(`translations.${locale}.sampleText only applies to typeface questions`)
+    }
+  }
+  
+  return problems
+}
+
+// Sample text and font files are optional and only apply to typeface questions
+// Each declared font must be used by one of the options, or it would load for nothing
+function validateTypefaceText(input: any): string[] {
+  const problems: string[] = []
+  
+  if (input.type !== 'typeface') {
+    if (input.sampleText !== undefined || input.fonts !== undefined) {
+      problems.push('sampleText and fonts only apply to typeface questions')
+    }
+    return problems
+  }
+  if (input.sampleText !== undefined && (typeof input.sampleText !== 'string' || input.sampleText.trim() === '')) {
+    problems.push('sampleText must not be empty when set')
+  }
+  if (input.fonts === undefined) return problems
+  if (!Array.isArray(input.fonts)) {
+    problems.push('fonts must be a list')
+    return problems
+  }
+  
+  const options: unknown[] = Array.isArray(input.options) ? input.options : [input.optionA, input.optionB]
+  input.fonts.forEach((font: any, index: number) => {
+    if (typeof font?.family !== 'string' || font.family.trim() === '') {
+      problems.push(`font ${index + 1} needs a family`)
+    } else if (!options.some(option => typeof option === 'string' && option.includes(font.family))) {
+      problems.push(`font ${index + 1} (${font.family}) is not used by any option`)
+    }
+    if (typeof font?.src !== 'string' || !font.src.startsWith('/') || !FONT_FILE_PATTERN.test(font.src)) {
+      problems.push(`font ${index + 1} must have a src path starting with "/" to a .woff2, .woff, .ttf or .otf file`)
+    }
+    if ((font?.weight !== undefined && typeof font.weight !== 'string') || (font?.style !== undefined && typeof font.style !== 'string')) {
+      problems.push(`font ${index + 1} weight and style must be text, like "700" or "italic"`)
+    }
+  })
+  
+  return problems
+}
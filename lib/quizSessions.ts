@@ -0,0 +1,421 @@
+import crypto from 'crypto'
+import type { Question } from '../data/quizData'
+import type { CustomQuiz } from './customQuiz'
+import { query, transaction } from './db'
+import { getQuestionBank } from './questionBank'
+import {
+  AnswerReveal,
+  BLITZ_GRACE_MS,
+  BLITZ_SECONDS_PER_QUESTION,
+  DealtQuestion,
+  PlayerAnswer,
+  PublicQuestion,
+  revealAnswer,
+  SeenQuestions,
+  SESSION_TTL_MS,
+  toPublicQuestion,
+} from './quiz'
+import { adjustQuestionRating, dealAdaptiveQuestion, savePlayerRating } from './ratings'
+import { recordReviewAnswer } from './reviewCards'
+import { defaultScoringRule, scoreAnswer, ScoringRule } from './scoring'
+import type { TemplateId } from './sessionTemplates'
+import { DEFAULT_SKILL, estimateSkill, isConfident, questionRatingChange, SkillEstimate } from './skill'
+
+// 'classic' sessions are dealt in full up front, stage by stage as their template lays out
+// 'adaptive' sessions are dealt one question at a time to match the player's skill, and end once it is rated
+// 'review' sessions are dealt the player's missed questions that are due for spaced-repetition review
+// 'blitz' sessions are dealt like classic ones, but each question is sent on its own with a countdown
+// 'daily' sessions are dealt the day's seeded challenge, the same for every player
+// 'custom' sessions are dealt from the bank narrowed by a custom quiz's levels, types and principles
+export type SessionMode = 'classic' | 'adaptive' | 'review' | 'blitz' | 'daily' | 'custom'
+
+// One answered question in a session, with what the player was shown afterwards
+export interface SessionResult {
+  questionId: string
+  questionVersion: number
+  // null when a blitz question ran out of time
+  answer: PlayerAnswer | null
+  reveal: AnswerReveal
+  coins: number
+  answeredAt: number
+}
+
+// A session as stored on the server, with the full questions it was dealt
+export interface QuizSession {
+  id: string
+  mode: SessionMode
+  // Single-level practice: the level played, null when the session covers every level
+  level: Question['difficulty'] | null
+  questions: DealtQuestion[]
+  results: SessionResult[]
+  score: number
+  startedAt: number | null
+  completedAt: number | null
+  lastActiveAt: number
+  leaderboardId: string | null
+  // Who is playing, as playerKey - set when the session starts
+  playerKey: string | null
+  // Adaptive sessions: the player's rating going in, and the estimate after the latest answer
+  prior: SkillEstimate | null
+  skill: SkillEstimate | null
+  // Blitz sessions: questions sent to the player so far, and when the latest was sent (null for other modes)
+  shownCount: number | null
+  questionStartedAt: number | null
+  // Rule set every answer in the session is scored with
+  scoring: ScoringRule
+  // Daily sessions: the challenge's date (UTC, YYYY-MM-DD)
+  dailyDate: string | null
+  // Classic, blitz, daily and custom sessions: the seed every question and option order was drawn from
+  seed: string | null
+  // Dealt from the seed of an earlier session, or an unfinished session whose seed was replayed, so kept off the leaderboard
+  replay: boolean
+  // Custom sessions: the custom quiz they were built with
+  custom: CustomQuiz | null
+  // Classic, blitz and daily sessions: the template their stages were dealt from
+  template: TemplateId | null
+}
+
+// Postgres error code for a unique index refusing a row
+const UNIQUE_VIOLATION = '23505'
+
+const SESSION_COLUMNS = `
+  id, mode, level, questions, results, score,
+  started_at as "startedAt", completed_at as "completedAt", last_active_at as "lastActiveAt",
+  leaderboard_id as "leaderboardId", player_key as "playerKey", prior, skill,
+  shown_count as "shownCount", question_started_at as "questionStartedAt", scoring,
+  daily_date as "dailyDate", seed, replay, custom, template
+`
+
+// BIGINT columns come back from pg as strings
+function rowToSession(row: any): QuizSession {
+  return {
+    id: row.id,
+    mode: row.mode,
+    level: row.level,
+    questions: row.questions,
+    results: row.results,
+    score: row.score,
+    startedAt: row.startedAt === null ? null : Number(row.startedAt),
+    completedAt: row.completedAt === null ? null : Number(row.completedAt),
+    lastActiveAt: Number(row.lastActiveAt),
+    leaderboardId: row.leaderboardId,
+    playerKey: row.playerKey,
+    prior: row.prior,
+    skill: row.skill,
+    shownCount: row.shownCount,
+    questionStartedAt: row.questionStartedAt === null ? null : Number(row.questionStartedAt),
+    scoring: row.scoring,
+    dailyDate: row.dailyDate,
+    seed: row.seed,
+    replay: row.replay,
+    custom: row.custom,
+    template: row.template,
+  }
+}
+
+// Blitz sessions: time left on the countdown of the question being played, or null if none is open
+export function blitzTimeLeft(session: QuizSession, now = Date.now()): number | null {
+  if (session.mode !== 'blitz' || session.questionStartedAt === null || session.shownCount === null) return null
+  if (session.results.length >= session.shownCount) return null
+  return Math.max(0, BLITZ_SECONDS_PER_QUESTION * 1000 - (now - session.questionStartedAt))
+}
+
+// A session as the player may see it: questions without their answers,
+// and the answers and reveals of the questions already answered
+// Adaptive sessions only hold the questions dealt so far, and blitz sessions the questions sent so far
+export interface PublicSession {
+  id: string
+  mode: SessionMode
+  level: Question['difficulty'] | null
+  scoring: ScoringRule
+  dailyDate: string | null
+  // Only sent once the session is finished, or for replays, whose player already has it
+  // Otherwise the player could replay the seed to look at the answers before finishing
+  seed: string | null
+  replay: boolean
+  custom: CustomQuiz | null
+  template: TemplateId | null
+  // Empty until the session starts - /start sends the first ones
+  questions: PublicQuestion[]
+  // Questions dealt to the session, including any not sent yet
+  questionCount: number
+  results: { answer: PlayerAnswer | null; reveal: AnswerReveal; coins: number }[]
+  score: number
+  startedAt: number | null
+  completedAt: number | null
+  skill: SkillEstimate | null
+  // Blitz sessions: milliseconds left to answer the current question, counted on the server
+  timeLeftMs: number | null
+}
+
+// The questions a session has been sent, as the player sees them
+// None until the session starts, so nothing can be looked at before its clock is running
+export function sentQuestions(session: QuizSession): PublicQuestion[] {
+  if (session.startedAt === null) return []
+  const sent = session.shownCount === null ? session.questions : session.questions.slice(0, session.shownCount)
+  return sent.map((dealt, index) => toPublicQuestion(dealt, session.id, index))
+}
+
+export function toPublicSession(session: QuizSession): PublicSession {
+  return {
+    id: session.id,
+    mode: session.mode,
+    level: session.level,
+    scoring: session.scoring,
+    dailyDate: session.dailyDate,
+    seed: session.completedAt !== null || session.replay ? session.seed : null,
+    replay: session.replay,
+    custom: session.custom,
+    template: session.template,
+    questions: sentQuestions(session),
+    questionCount: session.questions.length,
+    results: session.results.map(({ answer, reveal, coins }) => ({ answer, reveal, coins })),
+    score: session.score,
+    startedAt: session.startedAt,
+    completedAt: session.completedAt,
+    skill: session.skill,
+    timeLeftMs: blitzTimeLeft(session),
+  }
+}
+
+// Store a newly dealt session - its clock starts with startSession
+// seen is the question history it was dealt with, kept for replays of its seed - replay is set for those replays
+// Review sessions are dealt for a known player, so they are created with playerKey already set
+export async function createSession(
+  questions: DealtQuestion[],
+  {
+    mode = 'classic',
+    level = null,
+    playerKey = null,
+    scoring = defaultScoringRule(mode),
+    dailyDate = null,
+    seed = null,
+    replay = false,
+    seen = null,
+    custom = null,
+    template = null,
+  }: {
+    mode?: SessionMode
+    level?: Question['difficulty'] | null
+    playerKey?: string | null
+    scoring?: ScoringRule
+    dailyDate?: string | null
+    seed?: string | null
+    replay?: boolean
+    seen?: SeenQuestions | null
+    custom?: CustomQuiz | null
+    template?: TemplateId | null
+  } = {}
+): Promise<QuizSession> {
+  // The id is the only thing that lets a player answer for this session, so it must not be guessable
+  const id = crypto.randomBytes(16).toString('hex')
+  const result = await query(
+    `
+      INSERT INTO quiz_sessions (id, mode, level, questions, player_key, shown_count, scoring, daily_date, seed, replay, seen, custom, template, last_active_at)
+      VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10, $11, $12, $13, $14)
+      RETURNING ${SESSION_COLUMNS}
+    `,
+    // Blitz sessions start with only their first question sent
+    [
+      id, mode, level, JSON.stringify(questions), playerKey, mode === 'blitz' ? 1 : null,
+      scoring, dailyDate, seed, replay, seen && JSON.stringify(seen), custom && JSON.stringify(custom), template, Date.now(),
+    ]
+  )
+  return rowToSession(result.rows[0])
+}
+
+// Keep unfinished sessions dealt from a seed off the leaderboard once it is replayed
+// The replay shows their questions and answers before they are played
+export async function markSeedReplayed(seed: string): Promise<void> {
+  await query('UPDATE quiz_sessions SET replay = TRUE WHERE seed = $1 AND completed_at IS NULL', [seed])
+}
+
+// A fresh seed for a session that wasn't asked to replay one
+export function newSeed(): string {
+  return crypto.randomBytes(8).toString('hex')
+}
+
+// Load a session, or null if it doesn't exist
+// Unfinished sessions left untouched for SESSION_TTL_MS have expired and are treated as missing
+export async function getSession(id: string): Promise<QuizSession | null> {
+  const result = await query(`SELECT ${SESSION_COLUMNS} FROM quiz_sessions WHERE id = $1`, [id])
+  if (result.rows.length === 0) return null
+  const session = rowToSession(result.rows[0])
+  if (session.completedAt === null && Date.now() - session.lastActiveAt > SESSION_TTL_MS) {
+    return null
+  }
+  return session
+}
+
+// Start the session's clock, and record who is playing and (adaptive sessions) their rating going in
+// Blitz sessions also start the first question's countdown
+// All of it is set once - starting again returns the session as first started
+// Returns null if the player has already started another session of the same daily challenge
+export async function startSession(
+  id: string,
+  { playerKey = null, prior = null }: { playerKey?: string | null; prior?: SkillEstimate | null } = {}
+): Promise<QuizSession | null> {
+  const now = Date.now()
+  try {
+    const result = await query(
+      `
+        UPDATE quiz_sessions
+        SET started_at = COALESCE(started_at, $2), last_active_at = $2,
+          player_key = COALESCE(player_key, $3), prior = COALESCE(prior, $4::jsonb),
+          question_started_at = CASE WHEN mode = 'blitz' THEN COALESCE(question_started_at, $2) ELSE NULL END
+        WHERE id = $1
+        RETURNING ${SESSION_COLUMNS}
+      `,
+      [id, now, playerKey, prior && JSON.stringify(prior)]
+    )
+    return rowToSession(result.rows[0])
+  } catch (error) {
+    // One attempt per player at each daily challenge is kept by a unique index
+    if ((error as { code?: string }).code === UNIQUE_VIOLATION) return null
+    throw error
+  }
+}
+
+// Blitz sessions: send the next question once the current one is answered, starting its countdown
+// Returns the updated session, or null if the question was already sent
+export async function showNextQuestion(session: QuizSession): Promise<QuizSession | null> {
+  const now = Date.now()
+  const result = await query(
+    `
+      UPDATE quiz_sessions
+      SET shown_count = shown_count + 1, question_started_at = $3, last_active_at = $3
+      WHERE id = $1 AND shown_count = $2 AND jsonb_array_length(results) = $2 AND $2 < jsonb_array_length(questions)
+      RETURNING ${SESSION_COLUMNS}
+    `,
+    [session.id, session.shownCount, now]
+  )
+  return result.rows.length > 0 ? rowToSession(result.rows[0]) : null
+}
+
+// What answering a question led to
+export interface AnsweredQuestion {
+  result: SessionResult
+  score: number
+  completed: boolean
+  // Adaptive sessions: the question dealt after this one, if the session goes on, and the updated estimate
+  next: DealtQuestion | null
+  skill: SkillEstimate | null
+}
+
+// Adaptive sessions: rate the player on every answer so far, and deal the next question unless the rating is confident
+// Each answer also moves the answered question's rating, against the player's estimate before it
+async function planAdaptive(session: QuizSession, credit: number): Promise<{ next: DealtQuestion | null; skill: SkillEstimate }> {
+  const prior = session.prior || DEFAULT_SKILL
+  const responses = [...session.results.map(result => result.reveal.credit), credit].map((answered, index) => ({
+    difficulty: session.questions[index].rating ?? 0,
+    credit: answered,
+  }))
+  const skill = estimateSkill(prior, responses)
+  const next = isConfident(skill, responses.length)
+    ? null
+    : await dealAdaptiveQuestion(await getQuestionBank(), skill, session.questions.map(dealt => dealt.question.id))
+  return { next, skill }
+}
+
+// Score the answer to the session's next question and store it, in the session and as a row in answers
+// When the player is known, the answer also updates their spaced-repetition reviews
+// responseTimeMs is measured by the browser from the question being shown, and capped at the time
+// the server saw pass since the session started or the previous answer
+// Blitz answers are timed by the server alone, from when the question was sent - a null answer,
+// or one arriving after the countdown, is a miss
+// Returns null if another answer was stored first, so each question is scored exactly once
+// The session is completed by the answer to its last question - for adaptive sessions, the one after which no question is dealt
+export async function answerSessionQuestion(
+  session: QuizSession,
+  answer: PlayerAnswer | null,
+  responseTimeMs?: number
+): Promise<AnsweredQuestion | null> {
+  const index = session.results.length
+  const dealt = session.questions[index]
+  const now = Date.now()
+
+  let responseTime: number
+  let given = answer
+  if (session.mode === 'blitz') {
+    responseTime = now - (session.questionStartedAt || now)
+    if (responseTime > BLITZ_SECONDS_PER_QUESTION * 1000 + BLITZ_GRACE_MS) given = null
+  } else {
+    const elapsed = now - (index > 0 ? session.results[index - 1].answeredAt : session.startedAt || now)
+    responseTime = typeof responseTimeMs === 'number' && responseTimeMs >= 0
+      ? Math.min(Math.round(responseTimeMs), elapsed)
+      : elapsed
+  }
+
+  const reveal = revealAnswer(dealt, given)
+  const result: SessionResult = {
+    questionId: dealt.question.id,
+    questionVersion: dealt.question.version || 1,
+    answer: given,
+    reveal,
+    coins: scoreAnswer(
+      session.scoring,
+      session.results.map(previous => previous.reveal.credit),
+      { credit: reveal.credit, responseTimeMs: responseTime }
+    ),
+    answeredAt: now,
+  }
+
+  // Picking the next question reads the bank, so it happens before the transaction
+  const { next, skill } = session.mode === 'adaptive'
+    ? await planAdaptive(session, reveal.credit)
+    : { next: null, skill: null }
+
+  return transaction(async (client) => {
+    const updated = await client.query(
+      `
+        UPDATE quiz_sessions
+        SET results = results || $3::jsonb,
+          questions = questions || $6::jsonb,
+          score = score + $4,
+          skill = COALESCE($7::jsonb, skill),
+          completed_at = CASE WHEN $2 + 1 = jsonb_array_length(questions) + jsonb_array_length($6::jsonb) THEN $5 ELSE NULL END,
+          last_active_at = $5
+        WHERE id = $1 AND jsonb_array_length(results) = $2
+        RETURNING score, completed_at as "completedAt"
+      `,
+      [session.id, index, JSON.stringify([result]), result.coins, now, JSON.stringify(next ? [next] : []), skill && JSON.stringify(skill)]
+    )
+    if (updated.rows.length === 0) return null
+    const completed = updated.rows[0].completedAt !== null
+
+    const position = given && 'position' in given ? given.position : null
+    await client.query(
+      `
+        INSERT INTO answers (
+          session_id, question_index, question_id, question_version,
+          option_index, display_position, answer, credit, is_correct, response_time_ms
+        )
+        VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10)
+      `,
+      [
+        session.id,
+        index,
+        result.questionId,
+        result.questionVersion,
+        position === null ? null : dealt.optionOrder[position],
+        position,
+        given && JSON.stringify(given),
+        reveal.credit,
+        reveal.credit === 1,
+        responseTime,
+      ]
+    )
+
+    if (session.playerKey) {
+      await recordReviewAnswer(client, session.playerKey, dealt.question.id, reveal.credit, session.mode === 'review')
+    }
+    if (session.mode === 'adaptive' && dealt.rating !== undefined) {
+      const before = session.skill || session.prior || DEFAULT_SKILL
+      await adjustQuestionRating(client, dealt.question.id, dealt.rating, questionRatingChange(before.rating, dealt.rating, reveal.credit))
+      if (completed && skill && session.playerKey) {
+        await savePlayerRating(client, session.playerKey, skill)
+      }
+    }
+    return { result, score: updated.rows[0].score, completed, next, skill }
+  })
+}
@@ -0,0 +1,72 @@
+import type { PoolClient } from 'pg'
+import { query } from './db'
+import type { Question } from '../data/quizData'
+import { dealQuestion, DealtQuestion } from './quiz'
+import { DIFFICULTY_RATINGS, mostInformative, SkillEstimate } from './skill'
+
+// Identify a player the way /stats does: by Twitter handle if they gave one, otherwise by name
+// Prefixed so a name can never be mistaken for a handle
+export function playerKey(name?: string | null, twitterHandle?: string | null): string | null {
+  const handle = twitterHandle?.trim().replace(/^@/, '')
+  if (handle) return `twitter:@${handle}`
+  const trimmed = name?.trim()
+  return trimmed ? `name:${trimmed}` : null
+}
+
+// A player's stored rating, or null if they haven't finished an adaptive session
+export async function getPlayerRating(key: string): Promise<(SkillEstimate & { sessions: number }) | null> {
+  const result = await query(
+    'SELECT rating, uncertainty, sessions FROM player_ratings WHERE player_key = $1',
+    [key]
+  )
+  return result.rows[0] || null
+}
+
+// Keep a player's rating from a completed adaptive session
+export async function savePlayerRating(client: PoolClient, key: string, estimate: SkillEstimate): Promise<void> {
+  await client.query(
+    `
+      INSERT INTO player_ratings (player_key, rating, uncertainty, sessions, updated_at)
+      VALUES ($1, $2, $3, 1, $4)
+      ON CONFLICT (player_key) DO UPDATE
+      SET rating = $2, uncertainty = $3, sessions = player_ratings.sessions + 1, updated_at = $4
+    `,
+    [key, estimate.rating, estimate.uncertainty, Date.now()]
+  )
+}
+
+// Move a question's rating after an adaptive answer
+// A question without a row yet starts from the rating it was dealt with
+export async function adjustQuestionRating(
+  client: PoolClient,
+  questionId: string,
+  dealtRating: number,
+  change: number
+): Promise<void> {
+  await client.query(
+    `
+      INSERT INTO question_ratings (question_id, rating, answered, updated_at)
+      VALUES ($1, $2 + $3, 1, $4)
+      ON CONFLICT (question_id) DO UPDATE
+      SET rating = question_ratings.rating + $3, answered = question_ratings.answered + 1, updated_at = $4
+    `,
+    [questionId, dealtRating, change, Date.now()]
+  )
+}
+
+// Deal the question from the bank that tells us most about a player at the given estimate
+// Questions the session has already been dealt are skipped - returns null once none are left
+export async function dealAdaptiveQuestion(
+  bank: Question[],
+  estimate: SkillEstimate,
+  dealtIds: string[]
+): Promise<DealtQuestion | null> {
+  const result = await query('SELECT question_id as "questionId", rating FROM question_ratings')
+  const ratings = new Map<string, number>(result.rows.map(row => [row.questionId, row.rating]))
+
+  const candidates = bank
+    .filter(question => !dealtIds.includes(question.id))
+    .map(question => ({ question, difficulty: ratings.get(question.id) ?? DIFFICULTY_RATINGS[question.difficulty] }))
+  const picked = mostInformative(candidates, estimate)
+  return picked ? { ...dealQuestion(picked.question), rating: picked.difficulty } : null
+}
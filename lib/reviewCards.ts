@@ -0,0 +1,87 @@
+import type { PoolClient } from 'pg'
+import { query } from './db'
+import { lapseReviewCard, newReviewCard, ReviewCard, reviewPassed, scheduleReview } from './spacedRepetition'
+
+const CARD_COLUMNS = `
+  ease, interval_days as "intervalDays", repetitions, lapses,
+  due_at as "dueAt", last_reviewed_at as "lastReviewedAt"
+`
+
+// BIGINT columns come back from pg as strings
+function rowToCard(row: any): ReviewCard {
+  return {
+    ease: row.ease,
+    intervalDays: row.intervalDays,
+    repetitions: row.repetitions,
+    lapses: row.lapses,
+    dueAt: Number(row.dueAt),
+    lastReviewedAt: row.lastReviewedAt === null ? null : Number(row.lastReviewedAt),
+  }
+}
+
+// Ids of the player's questions due for review, most overdue first
+// Retired questions stay scheduled but aren't reviewed
+export async function getDueQuestionIds(playerKey: string, limit: number): Promise<string[]> {
+  const result = await query(
+    `
+      SELECT c.question_id as "questionId"
+      FROM review_cards c
+      JOIN questions q ON q.id = c.question_id
+      WHERE c.player_key = $1 AND c.due_at <= $2 AND q.retired = false
+      ORDER BY c.due_at ASC
+      LIMIT $3
+    `,
+    [playerKey, Date.now(), limit]
+  )
+  return result.rows.map(row => row.questionId)
+}
+
+export async function countDueReviewCards(playerKey: string): Promise<number> {
+  const result = await query(
+    `
+      SELECT COUNT(*)::int as count
+      FROM review_cards c
+      JOIN questions q ON q.id = c.question_id
+      WHERE c.player_key = $1 AND c.due_at <= $2 AND q.retired = false
+    `,
+    [playerKey, Date.now()]
+  )
+  return result.rows[0].count
+}
+
+async function saveCard(client: PoolClient, playerKey: string, questionId: string, card: ReviewCard): Promise<void> {
+  await client.query(
+    `
+      INSERT INTO review_cards (player_key, question_id, ease, interval_days, repetitions, lapses, due_at, last_reviewed_at)
+      VALUES ($1, $2, $3, $4, $5, $6, $7, $8)
+      ON CONFLICT (player_key, question_id) DO UPDATE
+      SET ease = $3, interval_days = $4, repetitions = $5, lapses = $6, due_at = $7, last_reviewed_at = $8
+    `,
+    [playerKey, questionId, card.ease, card.intervalDays, card.repetitions, card.lapses, card.dueAt, card.lastReviewedAt]
+  )
+}
+
+// Keep a player's review schedule up to date with one of their answers
+// Answers in review sessions reschedule the card; elsewhere only a miss matters,
+// adding the question to the player's reviews or sending its card back to the start
+// A miss is graded as in review sessions, so partly right answers count the same wherever they are given
+export async function recordReviewAnswer(
+  client: PoolClient,
+  playerKey: string,
+  questionId: string,
+  credit: number,
+  reviewing: boolean
+): Promise<void> {
+  const now = Date.now()
+  const result = await client.query(
+    `SELECT ${CARD_COLUMNS} FROM review_cards WHERE player_key = $1 AND question_id = $2 FOR UPDATE`,
+    [playerKey, questionId]
+  )
+  const card = result.rows.length > 0 ? rowToCard(result.rows[0]) : null
+
+  if (reviewing && card) {
+    await saveCard(client, playerKey, questionId, scheduleReview(card, credit, now))
+  } else if (!reviewPassed(credit)) {
+    await saveCard(client, playerKey, questionId, card ? lapseReviewCard(card, now) : newReviewCard(now))
+  }
+}
@@ -0,0 +1,58 @@
+import { SESSION_TTL_MS } from './quiz'
+
+const STORAGE_KEY = 'designGymSession'
+
+// Where the player was in a server session, so a refresh or closed tab can pick it up again
+// Questions, answers and the score live on the server - this only keeps what the server doesn't know
+export interface SavedSession {
+  sessionId: string
+  currentQuestionIndex: number
+  // Index of the template stage whose complete screen was open, if any
+  completedStage: number | null
+  // The player's arrangement of an unanswered ranking question, as display positions
+  rankingOrder: number[]
+  playerName: string
+  twitterHandle: string
+  savedAt: number
+}
+
+// Browser only: the session in progress, or null if there is none or it has expired
+export function loadSavedSession(): SavedSession | null {
+  try {
+    const stored = localStorage.getItem(STORAGE_KEY)
+    if (!stored) return null
+    const session: SavedSession = JSON.parse(stored)
+    const valid =
+      typeof session.sessionId === 'string' &&
+      Number.isInteger(session.currentQuestionIndex) &&
+      session.currentQuestionIndex >= 0 &&
+      Array.isArray(session.rankingOrder) &&
+      typeof session.savedAt === 'number'
+    if (!valid || Date.now() - session.savedAt > SESSION_TTL_MS) {
+      clearSavedSession()
+      return null
+    }
+    return session
+  } catch (error) {
+    console.error('Error reading saved session:', error)
+    clearSavedSession()
+    return null
+  }
+}
+
+export function saveSession(session: Omit<SavedSession, 'savedAt'>): void {
+  try {
+    localStorage.setItem(STORAGE_KEY, JSON.stringify({ ...session, savedAt: Date.now() }))
+  } catch (error) {
+    // Storage can be full or disabled - the session still works, it just can't be resumed
+    console.error('Error saving session:', error)
+  }
+}
+
+export function clearSavedSession(): void {
+  try {
+    localStorage.removeItem(STORAGE_KEY)
+  } catch (error) {
+    console.error('Error clearing saved session:', error)
+  }
+}
@@ -0,0 +1,62 @@
+import { BLITZ_SECONDS_PER_QUESTION, COINS_PER_QUESTION } from './quiz'
+import type { SessionMode } from './quizSessions'
+
+// Named rule sets for turning a session's answers into coins
+// A session is scored with one rule set from its first answer to its last, on the server,
+// and its leaderboard entry records which one - scores from different rule sets aren't ranked together
+export type ScoringRule = 'classic' | 'streak' | 'timed' | 'negative'
+
+export const SCORING_RULES: ScoringRule[] = ['classic', 'streak', 'timed', 'negative']
+
+// Blitz sessions are about speed, so they get the time bonus unless another rule set is asked for
+export function defaultScoringRule(mode: SessionMode): ScoringRule {
+  return mode === 'blitz' ? 'timed' : 'classic'
+}
+
+// Rule sets a mode's sessions can be scored with
+// Only blitz answers are timed by the server - other modes' response times come from the browser, so they can't earn a time bonus
+export function modeScoringRules(mode: SessionMode): ScoringRule[] {
+  return mode === 'blitz' ? SCORING_RULES : SCORING_RULES.filter(rule => rule !== 'timed')
+}
+
+// What a rule set sees of one answer: the credit it earned (0 to 1) and how long it took
+export interface ScoredAnswer {
+  credit: number
+  responseTimeMs: number
+}
+
+// Streak: each full-credit answer in a row before this one adds half again, up to 3×
+const STREAK_STEP = 0.5
+const STREAK_MAX_MULTIPLIER = 3
+
+// Time-weighted: up to this many extra coins, shrinking to none over the blitz countdown
+export const TIME_BONUS = 100
+const TIME_BONUS_WINDOW_MS = BLITZ_SECONDS_PER_QUESTION * 1000
+
+// Negative marking: a miss costs this many coins, and partial credit is marked in between
+export const MISS_PENALTY = 50
+
+// Full-credit answers in a row at the end of the given credits
+function currentStreak(previousCredits: number[]): number {
+  let streak = 0
+  for (let i = previousCredits.length - 1; i >= 0 && previousCredits[i] === 1; i--) streak++
+  return streak
+}
+
+// Coins for an answer under the given rule set, after the credits of the session's previous answers
+// Coins stay whole numbers so the leaderboard score does too
+export function scoreAnswer(rule: ScoringRule, previousCredits: number[], answer: ScoredAnswer): number {
+  const base = answer.credit * COINS_PER_QUESTION
+  switch (rule) {
+    case 'streak':
+      return Math.round(base * Math.min(1 + STREAK_STEP * currentStreak(previousCredits), STREAK_MAX_MULTIPLIER))
+    case 'timed': {
+      const timeLeft = Math.max(0, TIME_BONUS_WINDOW_MS - answer.responseTimeMs) / TIME_BONUS_WINDOW_MS
+      return Math.round(answer.credit * (COINS_PER_QUESTION + TIME_BONUS * timeLeft))
+    }
+    case 'negative':
+      return Math.round(base - (1 - answer.credit) * MISS_PENALTY)
+    default:
+      return Math.round(base)
+  }
+}
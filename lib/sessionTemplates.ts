@@ -0,0 +1,69 @@
+import type { Question } from '../data/quizData'
+import { QUESTIONS_PER_LEVEL, SessionStage } from './quiz'
+import type { SessionMode } from './quizSessions'
+
+// A session template lays a classic, blitz or daily session out as an ordered list of stages
+// Classic sessions stop for a stage-complete screen after every stage but the last, worked out from the template
+// rather than from question indexes, so changing a template's counts keeps the screens in the right place
+export interface SessionTemplate {
+  stages: SessionStage[]
+  // Ranked templates go on the leaderboard, under the tab of their level - all levels for 'full'
+  // Other templates deal sessions that can't be compared with the standard ones, so they stay off it
+  ranked: boolean
+}
+
+export const TEMPLATE_IDS = ['full', 'beginner', 'mid', 'expert', 'beginner-10', 'typeface-drill'] as const
+
+export type TemplateId = typeof TEMPLATE_IDS[number]
+
+// One level's share of a standard session
+function levelStage(level: Question['difficulty']): SessionStage {
+  return { level, count: QUESTIONS_PER_LEVEL[level] }
+}
+
+export const SESSION_TEMPLATES: Record<TemplateId, SessionTemplate> = {
+  // Every level in order - the standard session
+  full: { stages: [levelStage('beginner'), levelStage('mid'), levelStage('expert')], ranked: true },
+  // Single-level practice (/quiz?level=mid)
+  beginner: { stages: [levelStage('beginner')], ranked: true },
+  mid: { stages: [levelStage('mid')], ranked: true },
+  expert: { stages: [levelStage('expert')], ranked: true },
+  // A longer warm-up on the basics
+  'beginner-10': { stages: [{ level: 'beginner', count: 10 }], ranked: false },
+  // Typeface questions only, stepping up from intermediate to expert
+  'typeface-drill': {
+    stages: [
+      { level: 'mid', count: 5, mix: { typeface: 5 } },
+      { level: 'expert', count: 5, mix: { typeface: 5 } },
+    ],
+    ranked: false,
+  },
+}
+
+// The template a session is dealt from: the one asked for, its practice level's, or the standard one
+// Null for modes that aren't dealt in stages - adaptive, review and custom sessions
+export function sessionTemplate(
+  mode: SessionMode,
+  level: Question['difficulty'] | null,
+  requested: TemplateId | null = null
+): TemplateId | null {
+  if (mode !== 'classic' && mode !== 'blitz' && mode !== 'daily') return null
+  return requested || level || 'full'
+}
+
+// The level a ranked template is entered on the leaderboard under - null for every level, or for unranked templates
+export function templateLevel(template: TemplateId): Question['difficulty'] | null {
+  const { stages, ranked } = SESSION_TEMPLATES[template]
+  return ranked && stages.length === 1 ? stages[0].level : null
+}
+
+// Index of the last question of each stage but the last - where a session stops for a stage-complete screen
+export function stageEnds(template: TemplateId): number[] {
+  const ends: number[] = []
+  let total = 0
+  SESSION_TEMPLATES[template].stages.slice(0, -1).forEach(stage => {
+    total += stage.count
+    ends.push(total - 1)
+  })
+  return ends
+}
@@ -0,0 +1,136 @@
+import type { Question } from '../data/quizData'
+
+// Skill and question difficulty share one scale (the Rasch model from item response theory):
+// a player whose rating equals a question's rating has an even chance of answering it correctly
+// 0 is an average player or a mid question, and each point is roughly a level
+
+// A rating with its uncertainty (standard deviation), both on the rating scale
+export interface SkillEstimate {
+  rating: number
+  uncertainty: number
+}
+
+// Starting point for a player with no adaptive sessions yet
+export const DEFAULT_SKILL: SkillEstimate = { rating: 0, uncertainty: 1 }
+
+// Starting rating for a question that hasn't been calibrated by any answers yet
+export const DIFFICULTY_RATINGS: Record<Question['difficulty'], number> = {
+  beginner: -1,
+  mid: 0,
+  expert: 1,
+}
+
+// Adaptive sessions stop once the rating is this certain, within these question limits
+// Each answer adds at most a quarter to the estimate's precision (1 / uncertainty²), so a new player needs about 12
+export const CONFIDENT_UNCERTAINTY = 0.5
+export const ADAPTIVE_MIN_QUESTIONS = 8
+export const ADAPTIVE_MAX_QUESTIONS = 20
+
+// Skill can change between sessions, so a stored rating is loosened by this much before it is used as a prior
+const SKILL_DRIFT = 0.3
+
+// How far one answer moves a question's rating
+const QUESTION_RATING_STEP = 0.2
+
+// The posterior is worked out on this grid of ratings
+const GRID_MIN = -4
+const GRID_MAX = 4
+const GRID_STEP = 0.05
+
+// Chance a player of the given rating answers a question of the given rating correctly
+export function probabilityCorrect(rating: number, difficulty: number): number {
+  return 1 / (1 + Math.exp(difficulty - rating))
+}
+
+// How much an answer to a question of this difficulty tells us about a player at this rating
+export function questionInformation(rating: number, difficulty: number): number {
+  const p = probabilityCorrect(rating, difficulty)
+  return p * (1 - p)
+}
+
+// Prior for a new session from the player's stored rating, loosened for drift since it was saved
+export function skillPrior(stored: SkillEstimate | null): SkillEstimate {
+  if (!stored) return DEFAULT_SKILL
+  return {
+    rating: stored.rating,
+    uncertainty: Math.min(Math.sqrt(stored.uncertainty ** 2 + SKILL_DRIFT ** 2), DEFAULT_SKILL.uncertainty),
+  }
+}
+
+/**
+ * Estimate a player's rating from their answers, starting from a prior
+ * Each response is the answered question's rating and the credit earned (partial for rankings)
+ * Returns the posterior mean and standard deviation
+ */
+export function estimateSkill(prior: SkillEstimate, responses: { difficulty: number; credit: number }[]): SkillEstimate {
+  const points: { rating: number; weight: number }[] = []
+  for (let rating = GRID_MIN; rating <= GRID_MAX + 1e-9; rating += GRID_STEP) {
+    // Log space keeps long sessions from underflowing
+    let logWeight = -((rating - prior.rating) ** 2) / (2 * prior.uncertainty ** 2)
+    for (const { difficulty, credit } of responses) {
+      const p = probabilityCorrect(rating, difficulty)
+      logWeight += credit * Math.log(p) + (1 - credit) * Math.log(1 - p)
+    }
+    points.push({ rating, weight: logWeight })
+  }
+
+  const maxLog = Math.max(...points.map(point => point.weight))
+  let total = 0
+  let mean = 0
+  for (const point of points) {
+    point.weight = Math.exp(point.weight - maxLog)
+    total += point.weight
+    mean += point.rating * point.weight
+  }
+  mean /= total
+  const variance = points.reduce((sum, point) => sum + point.weight * (point.rating - mean) ** 2, 0) / total
+  return { rating: mean, uncertainty: Math.sqrt(variance) }
+}
+
+// Whether an adaptive session has learned enough to stop
+export function isConfident(estimate: SkillEstimate, answered: number): boolean {
+  if (answered < ADAPTIVE_MIN_QUESTIONS) return false
+  return answered >= ADAPTIVE_MAX_QUESTIONS || estimate.uncertainty <= CONFIDENT_UNCERTAINTY
+}
+
+// The candidate that tells us most about a player at the estimated rating
+// Ties are broken at random so players at the same rating don't all get the same sequence
+export function mostInformative<T extends { difficulty: number }>(candidates: T[], estimate: SkillEstimate): T | null {
+  let best: T[] = []
+  let bestInformation = -1
+  for (const candidate of candidates) {
+    const information = questionInformation(estimate.rating, candidate.difficulty)
+    if (information > bestInformation + 1e-9) {
+      best = [candidate]
+      bestInformation = information
+    } else if (Math.abs(information - bestInformation) <= 1e-9) {
+      best.push(candidate)
+    }
+  }
+  return best.length > 0 ? best[Math.floor(Math.random() * best.length)] : null
+}
+
+// Elo-style step for a question's rating after one answer: up when it beat the player, down when it didn't
+export function questionRatingChange(playerRating: number, difficulty: number, credit: number): number {
+  return QUESTION_RATING_STEP * (probabilityCorrect(playerRating, difficulty) - credit)
+}
+
+// Ratings as shown to players: 1500 is average, and 200 points is roughly a level
+const SKILL_SCORE_AVERAGE = 1500
+const SKILL_SCORE_SCALE = 200
+
+export function toSkillScore(rating: number): number {
+  return Math.round(SKILL_SCORE_AVERAGE + SKILL_SCORE_SCALE * rating)
+}
+
+// An uncertainty in the points shown by toSkillScore, for a ± next to the score
+export function toSkillMargin(uncertainty: number): number {
+  return Math.round(SKILL_SCORE_SCALE * uncertainty)
+}
+
+// The level a rating plays at, for a readable label next to the score
+export function skillLevel(rating: number): Question['difficulty'] {
+  if (rating < -0.5) return 'beginner'
+  if (rating < 0.5) return 'mid'
+  return 'expert'
+}
@@ -0,0 +1,61 @@
+// Spaced repetition for missed questions, scheduled with SM-2 (the SuperMemo 2 algorithm)
+// A card comes back after 1 day, then 6, then its interval times its ease - and back to 1 day after a miss
+
+// A player's schedule for one question
+export interface ReviewCard {
+  ease: number
+  intervalDays: number
+  repetitions: number
+  lapses: number
+  dueAt: number
+  lastReviewedAt: number | null
+}
+
+// Most questions a review session deals, most overdue first
+export const REVIEW_SESSION_SIZE = 20
+
+const DAY_MS = 24 * 60 * 60 * 1000
+const MIN_EASE = 1.3
+const DEFAULT_EASE = 2.5
+
+// A card for a question the player has just missed outside review: due straight away
+export function newReviewCard(now: number): ReviewCard {
+  return { ease: DEFAULT_EASE, intervalDays: 0, repetitions: 0, lapses: 1, dueAt: now, lastReviewedAt: null }
+}
+
+// SM-2 grades recall from 0 to 5, and 3 or more is a pass
+// Partly right rankings land in between, so a mostly right order still passes
+export function reviewQuality(credit: number): number {
+  return Math.round(credit * 5)
+}
+
+const PASS_QUALITY = 3
+
+// Whether an answer counts as recalled, in review sessions and out of them alike
+export function reviewPassed(credit: number): boolean {
+  return reviewQuality(credit) >= PASS_QUALITY
+}
+
+// Reschedule a card after it was answered in a review session
+export function scheduleReview(card: ReviewCard, credit: number, now: number): ReviewCard {
+  const quality = reviewQuality(credit)
+  const passed = reviewPassed(credit)
+  const repetitions = passed ? card.repetitions + 1 : 0
+  let intervalDays = 1
+  if (passed && repetitions === 2) intervalDays = 6
+  if (passed && repetitions > 2) intervalDays = Math.round(card.intervalDays * card.ease)
+  const ease = Math.max(MIN_EASE, card.ease + 0.1 - (5 - quality) * (0.08 + (5 - quality) * 0.02))
+  return {
+    ease,
+    intervalDays,
+    repetitions,
+    lapses: passed ? card.lapses : card.lapses + 1,
+    dueAt: now + intervalDays * DAY_MS,
+    lastReviewedAt: now,
+  }
+}
+
+// A miss outside review sends a card back to the start, due straight away
+export function lapseReviewCard(card: ReviewCard, now: number): ReviewCard {
+  return { ...card, intervalDays: 0, repetitions: 0, lapses: card.lapses + 1, dueAt: now }
+}
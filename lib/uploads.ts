@@ -0,0 +1,58 @@
+import { query } from './db'
+
+// Images and fonts uploaded on the admin page are stored in the uploads table and served by /api/uploads/<name>,
+// so they survive deploys and restarts on hosts whose filesystem doesn't persist
+export const UPLOADS_PATH = '/api/uploads/'
+
+// Content type each allowed upload extension is served with
+export const UPLOAD_TYPES: Record<string, string> = {
+  png: 'image/png',
+  jpg: 'image/jpeg',
+  webp: 'image/webp',
+  gif: 'image/gif',
+  woff2: 'font/woff2',
+  woff: 'font/woff',
+  ttf: 'font/ttf',
+  otf: 'font/otf',
+}
+
+export interface Upload {
+  contentType: string
+  data: Buffer
+}
+
+// The path questions use for an upload
+export function uploadPath(name: string): string {
+  return `${UPLOADS_PATH}${name}`
+}
+
+// The name of the upload a question path points at, or null for a file under public/
+export function uploadName(src: string): string | null {
+  return src.startsWith(UPLOADS_PATH) ? src.slice(UPLOADS_PATH.length) : null
+}
+
+// The content type for an upload's name, or null if its extension isn't allowed
+export function uploadContentType(name: string): string | null {
+  const extension = name.slice(name.lastIndexOf('.') + 1).toLowerCase()
+  return UPLOAD_TYPES[extension] || null
+}
+
+export async function getUpload(name: string): Promise<Upload | null> {
+  const result = await query('SELECT content_type as "contentType", data FROM uploads WHERE name = $1', [name])
+  return result.rows[0] || null
+}
+
+// Store a file under a new name
+// Returns false if the name is taken - an upload is never overwritten, since questions may point at it
+export async function saveUpload(name: string, contentType: string, data: Buffer): Promise<boolean> {
+  const result = await query(
+    `
+      INSERT INTO uploads (name, content_type, data, created_at)
+      VALUES ($1, $2, $3, $4)
+      ON CONFLICT (name) DO NOTHING
+      RETURNING name
+    `,
+    [name, contentType, data, Date.now()]
+  )
+  return result.rows.length > 0
+}
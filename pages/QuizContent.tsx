@@ -1,159 +1,134 @@
-import { useState, useEffect, useMemo } from 'react'
+import { useState, useEffect, useRef } from 'react'
 import Head from 'next/head'
-import { questions, foxQuote, Question } from '../data/quizData'
+import Link from 'next/link'
+import type { MessageKey } from '../data/messages'
+import { CustomQuiz, customQuizFromParams, sameCustomQuiz } from '../lib/customQuiz'
+import { AnswerReveal, BLITZ_SECONDS_PER_QUESTION, PlayerAnswer, PublicQuestion } from '../lib/quiz'
+import type { PublicSession, SessionMode } from '../lib/quizSessions'
+import { loadQuestionFonts } from '../lib/fonts'
+import { localizeQuestion, useTranslation } from '../lib/i18n'
+import { loadLocalHistory, markQuestionSeen, rememberPlayer } from '../lib/localHistory'
+import { clearSavedSession, loadSavedSession, SavedSession, saveSession } from '../lib/savedSession'
+import { defaultScoringRule, modeScoringRules, ScoringRule } from '../lib/scoring'
+import { SESSION_TEMPLATES, sessionTemplate, stageEnds, TEMPLATE_IDS, TemplateId, templateLevel } from '../lib/sessionTemplates'
+import { ADAPTIVE_MAX_QUESTIONS, SkillEstimate, skillLevel, toSkillMargin, toSkillScore } from '../lib/skill'
+import ComparisonGrid from '../components/ComparisonGrid'
+import HotspotImage from '../components/HotspotImage'
+import LanguageSwitcher from '../components/LanguageSwitcher'
+import RankingList, { RankingItem } from '../components/RankingList'
 
-// Configuration for questions per level - never show all questions
-const QUESTIONS_PER_LEVEL: Record<'beginner' | 'mid' | 'expert', number> = {
-  beginner: 5, // Show 5 out of 20 beginner questions
-  mid: 7, // Show 7 out of 20 mid questions
-  expert: 8, // Show 8 out of 20 expert questions
+// A ranking question's variants before it is answered, in the order given (display order by default)
+// Until the server reveals the ranks, each item's originalIndex is its display position
+function rankingItemsFor(question: PublicQuestion, order?: number[]): RankingItem[] {
+  const items = question.options.map((value, index) => ({ value, originalIndex: index }))
+  const restorable = order && order.length === items.length && new Set(order).size === order.length && order.every(index => items[index])
+  return restorable ? order.map(index => items[index]) : items
 }
 
-// Required pool composition - validate that pools meet these requirements
-const REQUIRED_POOL_COMPOSITION: Record<'beginner' | 'mid' | 'expert', { image: number; typeface: number }> = {
-  beginner: { image: 15, typeface: 5 },
-  mid: { image: 12, typeface: 8 },
-  expert: { image: 13, typeface: 7 }
+// The mode asked for in the page URL: /quiz?mode=adaptive, ?mode=blitz, ?mode=daily or ?mode=custom, or classic by default
+// Review sessions also need the player, given as on /stats: ?mode=review&name=YourName or &twitter=YourHandle
+function requestedMode(): SessionMode {
+  const mode = new URLSearchParams(window.location.search).get('mode')
+  return mode === 'adaptive' || mode === 'review' || mode === 'blitz' || mode === 'daily' || mode === 'custom' ? mode : 'classic'
 }
 
-// Helper function to shuffle an array (Fisher-Yates algorithm)
-function shuffleArray<T>(array: T[]): T[] {
-  const shuffled = [...array]
-  for (let i = shuffled.length - 1; i > 0; i--) {
-    const j = Math.floor(Math.random() * (i + 1));
-    [shuffled[i], shuffled[j]] = [shuffled[j], shuffled[i]]
-  }
-  return shuffled
+// The scoring rule set asked for in the page URL: /quiz?scoring=streak, or the mode's default
+// The daily challenge is scored the same way for everyone, and only blitz sessions can be timed
+function requestedScoring(mode: SessionMode): ScoringRule {
+  const scoring = new URLSearchParams(window.location.search).get('scoring')
+  return (mode !== 'daily' && modeScoringRules(mode).find(rule => rule === scoring)) || defaultScoringRule(mode)
 }
 
-// Validate that all questions have explicit difficulty fields
-function validateQuestions(questions: Question[]): void {
-  const missingDifficulty = questions.filter(q => !q.difficulty)
-  if (missingDifficulty.length > 0) {
-    throw new Error(
-      `CRITICAL: ${missingDifficulty.length} question(s) are missing explicit difficulty field. ` +
-      `Questions must explicitly define difficulty: "beginner" | "mid" | "expert". ` +
-      `Missing difficulty in questions: ${missingDifficulty.map(q => q.id).join(', ')}`
-    )
-  }
+// The seed asked for in the page URL, to replay a classic, blitz or custom session: /quiz?seed=...
+function requestedSeed(mode: SessionMode): string | null {
+  return mode === 'classic' || mode === 'blitz' || mode === 'custom' ? new URLSearchParams(window.location.search).get('seed') : null
 }
 
-// Validate that difficulty pools meet required composition
-function validatePoolComposition(
-  difficulty: 'beginner' | 'mid' | 'expert',
-  imageQuestions: Question[],
-  typefaceQuestions: Question[]
-): void {
-  const required = REQUIRED_POOL_COMPOSITION[difficulty]
-  const actualImage = imageQuestions.length
-  const actualTypeface = typefaceQuestions.length
-  
-  if (actualImage !== required.image || actualTypeface !== required.typeface) {
-    throw new Error(
-      `CRITICAL: ${difficulty} difficulty pool does not meet required composition. ` +
-      `Required: ${required.image} image, ${required.typeface} typeface. ` +
-      `Actual: ${actualImage} image, ${actualTypeface} typeface. ` +
-      `Difficulty must be explicitly defined in question data - do not infer from filenames, IDs, or indexes.`
-    )
-  }
+// The session template asked for in the page URL, for a classic session laid out another way: /quiz?template=beginner-10
+function requestedTemplate(mode: SessionMode): TemplateId | null {
+  const template = new URLSearchParams(window.location.search).get('template')
+  return (mode === 'classic' && TEMPLATE_IDS.find(id => id === template)) || null
 }
 
-// Select and randomize questions from all levels
-// STRICT RULES: Filter by explicit difficulty field only - never infer from filenames, IDs, or indexes
-function getRandomizedQuestions(): Question[] {
-  // First, validate all questions have explicit difficulty
-  validateQuestions(questions)
-  
-  const selectedQuestions: Question[] = []
-  
-  // Process each level in order: beginner, mid, expert
-  for (const level of ['beginner', 'mid', 'expert'] as const) {
-    // STEP 1: Filter questions by explicit difficulty field ONLY
-    // This is the ONLY source of truth - do NOT infer from filenames, IDs, or indexes
-    const levelQuestions = questions.filter(q => {
-      if (!q.difficulty) {
-        throw new Error(
-          `CRITICAL: Question ${q.id} is missing explicit difficulty field. ` +
-          `Every question must explicitly define difficulty: "beginner" | "mid" | "expert"`
-        )
-      }
-      return q.difficulty === level
-    })
-    
-    // STEP 2: Split by type within this difficulty pool
-    const imageQuestions = levelQuestions.filter(q => q.type === 'image')
-    const typefaceQuestions = levelQuestions.filter(q => q.type === 'typeface')
-    
-    // STEP 3: Validate pool composition matches requirements
-    validatePoolComposition(level, imageQuestions, typefaceQuestions)
-    
-    // STEP 4: Shuffle within each type pool
-    const shuffledImage = shuffleArray(imageQuestions)
-    const shuffledTypeface = shuffleArray(typefaceQuestions)
-    
-    // STEP 5: Select required number from this difficulty level
-    // (Selection is random - doesn't need to maintain image/typeface ratio)
-    const allShuffled = shuffleArray([...shuffledImage, ...shuffledTypeface])
-    const count = QUESTIONS_PER_LEVEL[level]
-    
-    if (allShuffled.length < count) {
-      throw new Error(
-        `CRITICAL: ${level} difficulty pool has only ${allShuffled.length} questions, ` +
-        `but ${count} are required for selection.`
-      )
-    }
-    
-    const selected = allShuffled.slice(0, count)
-    selectedQuestions.push(...selected)
-  }
-  
-  // STEP 6: Return questions in level order (beginner, mid, expert)
-  // Each level is shuffled within itself, but levels remain in order
-  return selectedQuestions
+// The custom quiz in the page URL, as built on /custom - null if it isn't a custom session or the link is broken
+function requestedCustomQuiz(mode: SessionMode): CustomQuiz | null {
+  return mode === 'custom' ? customQuizFromParams(new URLSearchParams(window.location.search)) : null
 }
 
-// Shuffle answer options at render time
-// Returns shuffled options with the correct answer position tracked
-// Since optionA is always correct (from "-a" variant), we track where it ends up
-function shuffleOptions(optionA: string, optionB: string, correctOption: "A") {
-  const options = [
-    { value: optionA, isCorrect: true },
-    { value: optionB, isCorrect: false }
-  ]
-  const shuffled = shuffleArray(options)
-  
-  // Determine which position (left or right) has the correct answer
-  const leftIsCorrect = shuffled[0].isCorrect
-  const correctAnswer = leftIsCorrect ? 'left' : 'right'
-  
-  return {
-    leftOption: shuffled[0].value,
-    rightOption: shuffled[1].value,
-    correctAnswer: correctAnswer
-  }
+// What the instruction modal adds for each mode other than classic
+const MODE_INTROS: Record<Exclude<SessionMode, 'classic'>, MessageKey> = {
+  adaptive: 'skill.intro',
+  review: 'review.intro',
+  blitz: 'blitz.intro',
+  daily: 'daily.intro',
+  custom: 'custom.intro',
+}
+
+// The level asked for in the page URL for single-level practice: /quiz?level=mid
+function requestedLevel(): PublicSession['level'] {
+  const level = new URLSearchParams(window.location.search).get('level')
+  return level === 'beginner' || level === 'mid' || level === 'expert' ? level : null
+}
+
+// Swap each ranking item's display position for its authored rank once the server has revealed them
+function withRanks(items: RankingItem[], ranks: number[]): RankingItem[] {
+  return items.map(item => ({ value: item.value, originalIndex: ranks[item.originalIndex] }))
 }
 
 export default function QuizContent() {
-  // Initialize randomized questions only once using function initializer
-  // This prevents reshuffling on re-render
-  const [sessionQuestions] = useState<Question[]>(() => getRandomizedQuestions())
+  const { locale, t, formatNumber, formatPercent } = useTranslation()
+  // The server deals the session's questions and option order, and keeps the answers
+  const [sessionId, setSessionId] = useState<string | null>(null)
+  const [mode, setMode] = useState<SessionMode>('classic')
+  const [scoring, setScoring] = useState<ScoringRule>('classic')
+  // Daily sessions: the challenge's date, for its leaderboard
+  const [dailyDate, setDailyDate] = useState<string | null>(null)
+  // Seed the session was dealt from, shown so a player can report it or replay the session - only sent once it is finished, unless it is a replay
+  const [seed, setSeed] = useState<string | null>(null)
+  // Dealt from an earlier session's seed, so kept off the leaderboard
+  const [replay, setReplay] = useState(false)
+  // Single-level practice: the only level played
+  const [practiceLevel, setPracticeLevel] = useState<PublicSession['level']>(null)
+  // Template the session's stages were dealt from - classic sessions stop between them
+  const [template, setTemplate] = useState<TemplateId | null>(null)
+  // Adaptive sessions are dealt one question at a time, so this grows as they are answered
+  const [sessionQuestions, setSessionQuestions] = useState<PublicQuestion[]>([])
+  // Blitz sessions are sent their questions one at a time, so this is how many the whole session has
+  const [questionCount, setQuestionCount] = useState(0)
+  // Adaptive sessions: the player's skill estimate after the latest answer
+  const [skill, setSkill] = useState<SkillEstimate | null>(null)
+  const [loadError, setLoadError] = useState<MessageKey | null>(null)
   
   const [currentQuestionIndex, setCurrentQuestionIndex] = useState(0)
-  const [selectedAnswer, setSelectedAnswer] = useState<'left' | 'right' | null>(null)
-  const [showExplanation, setShowExplanation] = useState(false)
+  const [selectedAnswer, setSelectedAnswer] = useState<number | null>(null)
+  const [hotspotClick, setHotspotClick] = useState<{ x: number; y: number } | null>(null)
+  // Ranking variants in the player's current order
+  const [rankingItems, setRankingItems] = useState<RankingItem[]>([])
+  // The server's verdict on the current question, once it is answered
+  const [reveal, setReveal] = useState<AnswerReveal | null>(null)
+  // Coins the current answer earned, as scored by the server under the session's rule set
+  const [answerCoins, setAnswerCoins] = useState(0)
+  const [answering, setAnswering] = useState(false)
+  // Id of the question whose font files have loaded - typeface options wait for it
+  const [fontsLoadedFor, setFontsLoadedFor] = useState<string | null>(null)
+  const [fontError, setFontError] = useState<MessageKey | null>(null)
+  const [fontAttempt, setFontAttempt] = useState(0)
   const [showLevelCompleteModal, setShowLevelCompleteModal] = useState(false)
-  const [completedLevel, setCompletedLevel] = useState<'beginner' | 'mid' | 'expert' | null>(null)
+  // Index of the template stage whose complete screen is open
+  const [completedStage, setCompletedStage] = useState<number | null>(null)
+  const [sessionComplete, setSessionComplete] = useState(false)
   const [showInstructionModal, setShowInstructionModal] = useState(true)
   const [showNameInputModal, setShowNameInputModal] = useState(false)
   
-  // Coin state - track coins silently during session
+  // Coins as scored by the server, and the credit they were earned for - blitz coins include speed bonuses
   const [coins, setCoins] = useState(0)
-  const [answeredQuestions, setAnsweredQuestions] = useState<Set<number>>(new Set())
+  const [credit, setCredit] = useState(0)
   const [isCoinAnimating, setIsCoinAnimating] = useState(false)
   
-  // Time tracking
+  // When the server started the session's clock - elapsed time is measured there too
   const [startTime, setStartTime] = useState<number | null>(null)
-  const [endTime, setEndTime] = useState<number | null>(null)
+  // Set once the leaderboard entry has been requested, so it is only sent once
+  const [submitted, setSubmitted] = useState(false)
   
   // Player name
   const [playerName, setPlayerName] = useState('')
@@ -163,6 +138,190 @@ export default function QuizContent() {
   // Share tone toggle
   const [shareTone, setShareTone] = useState<'brag' | 'humble'>('brag')
 
+  // Set when the session was restored after a refresh, until the player moves on
+  const [resumed, setResumed] = useState(false)
+
+  // When the current question's options became visible, for the answer's response time
+  const shownAt = useRef<{ index: number; time: number } | null>(null)
+
+  // Blitz sessions: when the current question's countdown runs out, by this browser's clock
+  const [deadline, setDeadline] = useState<number | null>(null)
+  const [now, setNow] = useState(() => Date.now())
+  const [timedOut, setTimedOut] = useState(false)
+  // Index of the question whose countdown ran out, so it is only sent once
+  const timeoutSent = useRef<number | null>(null)
+
+  const showExplanation = reveal !== null
+
+  // Clear the previous question's answer and lay out the given one
+  const showQuestion = (index: number, question: PublicQuestion) => {
+    setCurrentQuestionIndex(index)
+    setSelectedAnswer(null)
+    setHotspotClick(null)
+    setReveal(null)
+    setAnswerCoins(0)
+    setTimedOut(false)
+    setRankingItems(question.type === 'ranking' ? rankingItemsFor(question) : [])
+  }
+
+  // The server counts down blitz questions - the browser only learns how long is left
+  const startCountdown = (timeLeftMs: number | null) => {
+    setDeadline(timeLeftMs === null ? null : Date.now() + timeLeftMs)
+    setNow(Date.now())
+  }
+
+  // Put a session from the server on screen
+  // When resuming, saved says where the player was - the server only knows which questions are answered
+  const showSession = (session: PublicSession, saved?: SavedSession) => {
+    setSessionId(session.id)
+    setMode(session.mode)
+    setScoring(session.scoring)
+    setDailyDate(session.dailyDate)
+    setSeed(session.seed)
+    setReplay(session.replay)
+    setPracticeLevel(session.level)
+    setTemplate(session.template)
+    setSessionQuestions(session.questions)
+    setQuestionCount(session.questionCount)
+    setSkill(session.skill)
+    setCoins(session.score)
+    setCredit(session.results.reduce((sum, result) => sum + result.reveal.credit, 0))
+    // Questions are only sent once the session has started - /start sends the first ones
+    if (!saved || session.startedAt === null) {
+      if (session.questions[0]) showQuestion(0, session.questions[0])
+      return
+    }
+
+    // Either the question after the last answer, or the last answer with its explanation still open
+    const index = Math.min(saved.currentQuestionIndex, session.results.length, session.questions.length - 1)
+    const question = session.questions[index]
+    const result = session.results[index]
+    showQuestion(index, question)
+    if (result) {
+      const { answer } = result
+      if (answer && 'position' in answer) setSelectedAnswer(answer.position)
+      if (answer && 'point' in answer) setHotspotClick(answer.point)
+      if (answer && 'order' in answer) setRankingItems(withRanks(rankingItemsFor(question, answer.order), result.reveal.ranks || []))
+      if (!answer) setTimedOut(true)
+      setReveal(result.reveal)
+      setAnswerCoins(result.coins)
+    } else if (question.type === 'ranking') {
+      setRankingItems(rankingItemsFor(question, saved.rankingOrder))
+    }
+
+    // Resuming never restarts the clock - the server keeps the original start time, and blitz countdowns
+    setStartTime(session.startedAt)
+    startCountdown(session.timeLeftMs)
+    setPlayerName(saved.playerName)
+    setTwitterHandle(saved.twitterHandle)
+    setShowInstructionModal(false)
+    if (session.completedAt !== null) {
+      // A refresh just after the last answer finishes the session, as submitAnswer would have
+      setSessionComplete(true)
+      setShowLevelCompleteModal(true)
+    } else if (typeof saved.completedStage === 'number') {
+      setCompletedStage(saved.completedStage)
+      setShowLevelCompleteModal(true)
+    }
+    setResumed(true)
+  }
+
+  // Resume the session in progress, or ask the server to deal a new one
+  // A saved session of another mode, level, rule set or seed than the URL asks for is dropped in favour of a new one
+  const loadSession = async () => {
+    setLoadError(null)
+    try {
+      const requested = requestedMode()
+      // A template asked for replaces single-level practice, and ranked single-level templates are entered under their level
+      const askedTemplate = requestedTemplate(requested)
+      const level = askedTemplate ? templateLevel(askedTemplate) : requestedLevel()
+      const requestedRule = requestedScoring(requested)
+      const replaySeed = requestedSeed(requested)
+      const custom = requestedCustomQuiz(requested)
+      if (requested === 'custom' && !custom) {
+        setLoadError('custom.invalidLink')
+        return
+      }
+      const saved = loadSavedSession()
+      if (saved) {
+        const response = await fetch(`/api/sessions/${saved.sessionId}`)
+        if (!response.ok && response.status !== 404) {
+          throw new Error(`Failed to load session: ${response.status}`)
+        }
+        const session: PublicSession | null = response.ok ? await response.json() : null
+        if (
+          session &&
+          session.mode === requested &&
+          session.level === level &&
+          session.template === sessionTemplate(requested, level, askedTemplate) &&
+          session.scoring === requestedRule &&
+          sameCustomQuiz(session.custom, custom) &&
+          (!replaySeed || session.seed === replaySeed)
+        ) {
+          showSession(session, saved)
+          return
+        }
+        // Expired, unknown or another kind of session - deal a new session instead
+        clearSavedSession()
+      }
+
+      const params = new URLSearchParams(window.location.search)
+      // Who last played on this device, so the server can avoid questions they saw elsewhere
+      const history = loadLocalHistory()
+      let name = history.playerName || null
+      let twitter = history.twitterHandle || null
+      if (requested === 'review') {
+        name = params.get('name')
+        twitter = params.get('twitter')
+        if (!name && !twitter) {
+          setLoadError('review.needsPlayer')
+          return
+        }
+        // The player is already known, so the name modal starts filled in
+        setPlayerName(name || twitter || '')
+        setTwitterHandle(twitter || '')
+      }
+
+      const response = await fetch('/api/sessions', {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify({
+          mode: requested,
+          level: askedTemplate ? null : level,
+          template: askedTemplate,
+          scoring: requestedRule,
+          seed: replaySeed,
+          name,
+          twitterHandle: twitter,
+          seen: history.seen,
+          custom,
+        }),
+      })
+      if (requested === 'review' && response.status === 404) {
+        setLoadError('review.nothingDue')
+        return
+      }
+      if (requested === 'custom' && response.status === 404) {
+        setLoadError('custom.nothingMatches')
+        return
+      }
+      if (!response.ok) {
+        const errorData = await response.json().catch(() => ({}))
+        throw new Error(errorData.message || `Failed to start session: ${response.status}`)
+      }
+      showSession(await response.json())
+    } catch (error) {
+      console.error('Error loading session:', error)
+      setLoadError('quiz.loadFailed')
+    }
+  }
+
+  useEffect(() => {
+    loadSession()
+  }, [])
+
   // Enable scrolling on quiz page
   useEffect(() => {
     document.body.classList.add('quiz-page')
@@ -177,117 +336,236 @@ export default function QuizContent() {
   }, [currentQuestionIndex])
 
   const currentQuestion = sessionQuestions[currentQuestionIndex]
-  
-  // Shuffle options at render time for each question
-  // This ensures options are randomly positioned each time
-  const shuffledOptions = useMemo(() => {
-    if (!currentQuestion) return null
-    return shuffleOptions(
-      currentQuestion.optionA,
-      currentQuestion.optionB,
-      currentQuestion.correctOption
-    )
-  }, [currentQuestion])
+  // Prompt and sample text in the player's language, and the explanation once it is revealed
+  const questionText = currentQuestion ? localizeQuestion(currentQuestion, locale) : null
+  const explanationText = reveal ? localizeQuestion(reveal, locale).explanation : null
+
+  // Load the current question's fonts before its options are shown, and start on the next question's
+  useEffect(() => {
+    if (!currentQuestion?.fonts?.length) return
+    let cancelled = false
+    setFontError(null)
+    loadQuestionFonts(currentQuestion)
+      .then(() => {
+        if (!cancelled) setFontsLoadedFor(currentQuestion.id)
+      })
+      .catch((error) => {
+        console.error('Error loading fonts:', error)
+        if (!cancelled) setFontError('quiz.fontsFailed')
+      })
+    const nextQuestion = sessionQuestions[currentQuestionIndex + 1]
+    if (nextQuestion) {
+      loadQuestionFonts(nextQuestion).catch(() => {})
+    }
+    return () => {
+      cancelled = true
+    }
+  }, [currentQuestion, sessionQuestions, currentQuestionIndex, fontAttempt])
+
+  const fontsReady = !currentQuestion?.fonts?.length || fontsLoadedFor === currentQuestion.id
+
+  // Start the response clock once the player can actually see the options - after the
+  // name modal, level-complete modals and font loading
+  useEffect(() => {
+    if (currentQuestion && startTime !== null && fontsReady && !showLevelCompleteModal && shownAt.current?.index !== currentQuestionIndex) {
+      shownAt.current = { index: currentQuestionIndex, time: Date.now() }
+      markQuestionSeen(currentQuestion.id)
+    }
+  }, [currentQuestion, currentQuestionIndex, startTime, fontsReady, showLevelCompleteModal])
 
   // Check if we're at the last question
-  const isLastQuestion = currentQuestionIndex === sessionQuestions.length - 1
+  const totalQuestions = mode === 'adaptive' ? sessionQuestions.length : questionCount
+  const isLastQuestion = currentQuestionIndex === totalQuestions - 1
 
-  const handleSelect = (side: 'left' | 'right') => {
-    if (!showExplanation && currentQuestion && shuffledOptions) {
-      setSelectedAnswer(side)
-      setShowExplanation(true)
-      
-      // Determine if the selected answer is correct
-      // The correct answer position is tracked in shuffledOptions.correctAnswer
-      const isCorrect = side === shuffledOptions.correctAnswer
+  // Send the current question's answer to the server, which scores it and reveals the correct answer
+  // A null answer is a blitz question whose countdown ran out
+  // Returns the reveal, or null if the answer could not be saved
+  const submitAnswer = async (answer: PlayerAnswer | null): Promise<AnswerReveal | null> => {
+    if (!sessionId) return null
+    setAnswering(true)
+    try {
+      const response = await fetch(`/api/sessions/${sessionId}/answers`, {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify({
+          index: currentQuestionIndex,
+          answer,
+          responseTimeMs: shownAt.current?.index === currentQuestionIndex ? Date.now() - shownAt.current.time : undefined,
+        }),
+      })
+      if (!response.ok) {
+        const errorData = await response.json().catch(() => ({}))
+        throw new Error(errorData.error || `Failed to submit answer: ${response.status}`)
+      }
+      const answered: {
+        reveal: AnswerReveal
+        coins: number
+        score: number
+        completed: boolean
+        seed: string | null
+        next: PublicQuestion | null
+        skill: SkillEstimate | null
+      } = await response.json()
+      setReveal(answered.reveal)
+      setAnswerCoins(answered.coins)
+      if (answered.next) {
+        const next = answered.next
+        setSessionQuestions(questions => [...questions, next])
+      }
+      if (answered.skill) setSkill(answered.skill)
       
-      // Track coins silently - add 100 coins for correct answer (only once per question)
-      if (isCorrect && !answeredQuestions.has(currentQuestionIndex)) {
-        setAnsweredQuestions(prev => new Set(prev).add(currentQuestionIndex))
-        setCoins(prevCoins => prevCoins + 100)
-        // Trigger coin bounce animation
+      // Trigger coin bounce animation when the answer earned coins
+      if (answered.score > coins) {
         setIsCoinAnimating(true)
         // Remove animation class after animation completes (400ms)
         setTimeout(() => {
           setIsCoinAnimating(false)
         }, 400)
-      } else if (!isCorrect && !answeredQuestions.has(currentQuestionIndex)) {
-        // Mark question as answered even if incorrect (to prevent double counting)
-        setAnsweredQuestions(prev => new Set(prev).add(currentQuestionIndex))
       }
+      setCoins(answered.score)
+      setCredit(total => total + answered.reveal.credit)
       
-      // If this is the last question, automatically show the completion modal
-      if (isLastQuestion) {
+      // If that completed the session, automatically show the completion modal
+      // The seed is only sent once the session is finished
+      if (answered.completed) {
+        setSeed(answered.seed)
         setTimeout(() => {
-          setCompletedLevel('expert')
-          // Don't set endTime here - let the submission useEffect handle it
+          setSessionComplete(true)
           setShowLevelCompleteModal(true)
         }, 500) // Small delay to show the explanation first
       }
+      return answered.reveal
+    } catch (error) {
+      console.error('Error submitting answer:', error)
+      alert(t('quiz.answerFailed'))
+      return null
+    } finally {
+      setAnswering(false)
+    }
+  }
+
+  const handleSelect = async (position: number) => {
+    if (showExplanation || answering) return
+    setSelectedAnswer(position)
+    if (!(await submitAnswer({ position }))) {
+      setSelectedAnswer(null)
+    }
+  }
+
+  const handleHotspotSelect = async (point: { x: number; y: number }) => {
+    if (showExplanation || answering) return
+    setHotspotClick(point)
+    if (!(await submitAnswer({ point }))) {
+      setHotspotClick(null)
+    }
+  }
+
+  // Tick the blitz countdown while the current question is open
+  useEffect(() => {
+    if (deadline === null || showExplanation) return
+    const timer = setInterval(() => setNow(Date.now()), 250)
+    return () => clearInterval(timer)
+  }, [deadline, showExplanation])
+
+  const secondsLeft = deadline === null ? null : Math.max(0, Math.ceil((deadline - now) / 1000))
+
+  // A blitz question left unanswered when its countdown runs out is sent as a miss
+  useEffect(() => {
+    if (mode !== 'blitz' || deadline === null || now < deadline || showExplanation || answering) return
+    if (timeoutSent.current === currentQuestionIndex) return
+    timeoutSent.current = currentQuestionIndex
+    setTimedOut(true)
+    submitAnswer(null).then(revealed => {
+      if (revealed && currentQuestion?.type === 'ranking') {
+        setRankingItems(items => withRanks(items, revealed.ranks || []))
+      }
+    })
+  }, [mode, deadline, now, showExplanation, answering, currentQuestionIndex])
+
+  const handleRankingSubmit = async () => {
+    if (showExplanation || answering || rankingItems.length === 0) return
+    const ranked = rankingItems
+    const revealed = await submitAnswer({ order: ranked.map(item => item.originalIndex) })
+    if (revealed) {
+      setRankingItems(withRanks(ranked, revealed.ranks || []))
+    }
+  }
+
+  // Blitz sessions: ask the server for the next question, which starts its countdown
+  const showNextBlitzQuestion = async () => {
+    if (!sessionId) return
+    try {
+      const response = await fetch(`/api/sessions/${sessionId}/next`, { method: 'POST' })
+      if (!response.ok) {
+        throw new Error(`Failed to load next question: ${response.status}`)
+      }
+      const next: { index: number; question: PublicQuestion; timeLeftMs: number | null } = await response.json()
+      setSessionQuestions(questions => (questions.length > next.index ? questions : [...questions, next.question]))
+      showQuestion(next.index, next.question)
+      startCountdown(next.timeLeftMs)
+      setResumed(false)
+    } catch (error) {
+      console.error('Error loading next question:', error)
+      alert(t('blitz.nextFailed'))
     }
   }
 
   const handleNext = () => {
-    // Check if we just completed question 5 (beginner level complete)
-    // After answering question 5 (index 4), clicking Next should show modal
-    if (currentQuestionIndex === 4) {
-      setCompletedLevel('beginner')
+    // Classic sessions stop after every stage of their template but the last
+    const stage = mode === 'classic' && template ? stageEnds(template).indexOf(currentQuestionIndex) : -1
+    if (stage !== -1) {
+      setCompletedStage(stage)
       setShowLevelCompleteModal(true)
       return
     }
     
-    // Check if we just completed question 12 (mid level complete)
-    // After answering question 12 (index 11), clicking Next should show modal
-    if (currentQuestionIndex === 11) {
-      setCompletedLevel('mid')
+    // Check if we just completed the last question
+    if (isLastQuestion) {
+      setSessionComplete(true)
       setShowLevelCompleteModal(true)
       return
     }
     
-    // Check if we just completed the last question (expert level complete)
-    if (isLastQuestion) {
-      setCompletedLevel('expert')
-      // Don't set endTime here - let the submission useEffect handle it
-      setShowLevelCompleteModal(true)
+    if (mode === 'blitz') {
+      showNextBlitzQuestion()
       return
     }
-    
+
     // Move to next question
-    setCurrentQuestionIndex(currentQuestionIndex + 1)
-    setSelectedAnswer(null)
-    setShowExplanation(false)
+    showQuestion(currentQuestionIndex + 1, sessionQuestions[currentQuestionIndex + 1])
+    setResumed(false)
   }
 
-  // Calculate max coins and accuracy
-  const totalQuestions = sessionQuestions.length
-  const maxCoins = totalQuestions * 100
-  const accuracy = totalQuestions > 0 ? Math.round((coins / maxCoins) * 100) : 0
+  // The stage-complete screen names the stage just finished and the one coming up
+  const stages = template ? SESSION_TEMPLATES[template].stages : []
+  const finishedStage = completedStage !== null ? stages[completedStage] : undefined
+  const nextStage = completedStage !== null ? stages[completedStage + 1] : undefined
+
+  // Accuracy counts credit only, so blitz speed bonuses don't push it past 100%
+  const accuracy = totalQuestions > 0 ? Math.round((credit / totalQuestions) * 100) : 0
 
   const handleProceedToNextLevel = () => {
     setShowLevelCompleteModal(false)
-    setCompletedLevel(null)
-    
-    if (isLastQuestion) {
-      // Reset session completely if we completed the entire session
-      setCurrentQuestionIndex(0)
-      setCoins(0)
-      setAnsweredQuestions(new Set())
-    } else {
-      // Move to next question
-      setCurrentQuestionIndex(currentQuestionIndex + 1)
-    }
-    setSelectedAnswer(null)
-    setShowExplanation(false)
+    setCompletedStage(null)
+    showQuestion(currentQuestionIndex + 1, sessionQuestions[currentQuestionIndex + 1])
+    setResumed(false)
   }
 
+  // A finished session can't be replayed - starting over deals a new one
   const handleStartOver = () => {
-    setShowLevelCompleteModal(false)
-    setCompletedLevel(null)
-    setCurrentQuestionIndex(0)
-    setCoins(0)
-    setAnsweredQuestions(new Set())
-    setSelectedAnswer(null)
-    setShowExplanation(false)
+    clearSavedSession()
+    window.location.reload()
+  }
+
+  // A new session dealt from this one's seed: the same questions in the same option order
+  const handleReplaySeed = () => {
+    if (!seed) return
+    const params = new URLSearchParams(window.location.search)
+    params.set('seed', seed)
+    clearSavedSession()
+    window.location.href = `/quiz?${params.toString()}`
   }
 
   const handleStartTraining = () => {
@@ -295,42 +573,84 @@ export default function QuizContent() {
     setShowNameInputModal(true)
   }
 
-  const handleNameSubmit = () => {
-    if (playerName.trim()) {
+  // Start the session's clock on the server once the player is ready
+  const handleNameSubmit = async () => {
+    if (!playerName.trim() || !sessionId) return
+    try {
+      // Who is playing lets an adaptive session start from the player's rating
+      const response = await fetch(`/api/sessions/${sessionId}/start`, {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify({ name: playerName.trim(), twitterHandle: twitterHandle.trim() || null }),
+      })
+      if (mode === 'daily' && response.status === 409) {
+        // One attempt per player - show how the attempt went instead
+        alert(t('daily.alreadyPlayed'))
+        clearSavedSession()
+        window.location.href = '/leaderboard?mode=daily'
+        return
+      }
+      if (!response.ok) {
+        throw new Error(`Failed to start session: ${response.status}`)
+      }
+      const { startedAt, timeLeftMs, questions }: { startedAt: number; timeLeftMs: number | null; questions: PublicQuestion[] } = await response.json()
+      rememberPlayer(playerName.trim(), twitterHandle.trim())
+      setSessionQuestions(questions)
+      showQuestion(0, questions[0])
+      setStartTime(startedAt)
+      startCountdown(timeLeftMs)
       setShowNameInputModal(false)
-      setStartTime(Date.now())
+    } catch (error) {
+      console.error('Error starting session:', error)
+      alert(t('quiz.startFailed'))
     }
   }
 
+  // Remember where the player is after every change, so a refresh or closed tab can resume the session
+  useEffect(() => {
+    if (!sessionId || !startTime || submitted || sessionComplete) return
+    saveSession({
+      sessionId,
+      currentQuestionIndex,
+      completedStage,
+      rankingOrder: showExplanation ? [] : rankingItems.map(item => item.originalIndex),
+      playerName,
+      twitterHandle,
+    })
+  }, [sessionId, startTime, submitted, sessionComplete, completedStage, currentQuestionIndex, showExplanation, rankingItems, playerName, twitterHandle])
+
   // Auto-submit to leaderboard when session completes
+  // The server scores the entry from the session - only who played is sent
   useEffect(() => {
     console.log('Submission check:', { 
-      completedLevel, 
+      sessionComplete,
+      sessionId,
       startTime: !!startTime, 
       playerName: playerName.trim(), 
-      endTime: !!endTime,
-      coins,
-      accuracy 
+      submitted,
     })
     
-    if (completedLevel === 'expert' && startTime && playerName.trim() && !endTime) {
+    if (sessionComplete && sessionId && startTime && playerName.trim() && !submitted) {
       console.log('✅ Conditions met - submitting to leaderboard')
-      const finalEndTime = Date.now()
-      setEndTime(finalEndTime)
+      setSubmitted(true)
+      // The session is over - a refresh from here starts a new one
+      clearSavedSession()
+      // Adaptive and review sessions don't go on the leaderboard - the server already saved their ratings and review schedules
+      // Custom sessions and unranked templates deal a different mix, so their scores can't be ranked against anyone else's
+      if (mode === 'adaptive' || mode === 'review' || mode === 'custom') return
+      if (template && !SESSION_TEMPLATES[template].ranked) return
+      // Replays play questions that could have been looked at beforehand
+      if (replay) return
       
       // Submit to leaderboard
       const submitEntry = async () => {
         setSubmittingLeaderboard(true)
         try {
-          const timeTaken = Math.floor((finalEndTime - startTime) / 1000)
-          const level = 'all'
-          
           const submissionData = {
+            sessionId,
             name: playerName.trim(),
-            score: coins,
-            accuracy: accuracy,
-            timeTaken: timeTaken,
-            level: level,
             twitterHandle: twitterHandle.trim() || null,
           }
           
@@ -357,9 +677,9 @@ export default function QuizContent() {
             console.error('❌ Failed to submit to leaderboard:', response.status, errorData)
             // Only show alert for actual errors, not network timeouts
             if (response.status >= 500) {
-              alert(`Server error saving score. Please check the leaderboard - it may have been saved.`)
+              alert(t('quiz.saveServerError'))
             } else {
-              alert(`Failed to save score: ${errorData.error || errorData.message || 'Unknown error'}`)
+              alert(t('quiz.saveFailed', { message: errorData.error || errorData.message || 'Unknown error' }))
             }
           }
         } catch (error) {
@@ -383,7 +703,7 @@ export default function QuizContent() {
             // The score was likely saved successfully despite the network error
           } else {
             // Other errors - show alert
-            alert(`Error saving score: ${errorMessage}`)
+            alert(t('quiz.saveError', { message: errorMessage }))
           }
         } finally {
           setSubmittingLeaderboard(false)
@@ -392,10 +712,17 @@ export default function QuizContent() {
       
       submitEntry()
     }
-  }, [completedLevel, startTime, playerName, coins, accuracy, endTime])
+  }, [sessionComplete, sessionId, mode, template, replay, startTime, playerName, twitterHandle, submitted, t])
 
+  // Single-level practice, blitz and daily sessions open their own tab, and other rule sets their own ranking
   const handleViewLeaderboard = () => {
-    window.location.href = '/leaderboard'
+    const params = new URLSearchParams()
+    if (mode === 'blitz' || mode === 'daily') params.set('mode', mode)
+    else if (practiceLevel) params.set('level', practiceLevel)
+    if (dailyDate) params.set('date', dailyDate)
+    if (scoring !== defaultScoringRule(mode)) params.set('scoring', scoring)
+    const search = params.toString()
+    window.location.href = search ? `/leaderboard?${search}` : '/leaderboard'
   }
 
   const handleViewStats = () => {
@@ -410,29 +737,19 @@ export default function QuizContent() {
     const siteUrl = typeof window !== 'undefined' ? window.location.origin : ''
     
     // Tweet templates for Brag mode - only the opening line changes
-    const bragOpenings = [
-      'Just crushed a session at Design Gym. My eye is getting sharper.',
-      'Finished another round at Design Gym. Feeling confident about my design instincts.',
-      'Design Gym session complete. My visual judgment is on point.',
-      'Just leveled up my design eye at Design Gym. Results speak for themselves.'
-    ]
+    const bragOpenings: MessageKey[] = ['share.brag1', 'share.brag2', 'share.brag3', 'share.brag4']
 
     // Tweet templates for Humble mode - only the opening line changes
-    const humbleOpenings = [
-      'Just finished a session at Design Gym. Still learning, but making progress.',
-      'Completed another round at Design Gym. Every session teaches me something new.',
-      'Finished a Design Gym session. Practice makes progress, not perfect.',
-      'Just wrapped up at Design Gym. Always room to improve, but happy with the effort.'
-    ]
+    const humbleOpenings: MessageKey[] = ['share.humble1', 'share.humble2', 'share.humble3', 'share.humble4']
 
     // Select random opening based on tone
     const openings = shareTone === 'brag' ? bragOpenings : humbleOpenings
-    const opening = openings[Math.floor(Math.random() * openings.length)]
+    const opening = t(openings[Math.floor(Math.random() * openings.length)])
     
     // Build tweet with consistent structure (score, accuracy, link never change)
     const tweetText = `${opening}
 
-${coins} points • ${accuracy}% accuracy
+${t('share.summary', { coins: formatNumber(coins), accuracy: formatPercent(accuracy) })}
 
 ${siteUrl}`
     
@@ -444,9 +761,9 @@ ${siteUrl}`
   
   // Qualitative feedback based on accuracy
   const getFeedback = (accuracy: number): string => {
-    if (accuracy >= 80) return 'Strong'
-    if (accuracy >= 50) return 'Solid'
-    return 'Needs practice'
+    if (accuracy >= 80) return t('quiz.feedbackStrong')
+    if (accuracy >= 50) return t('quiz.feedbackSolid')
+    return t('quiz.feedbackPractice')
   }
 
   // Get color for accuracy display
@@ -457,40 +774,60 @@ ${siteUrl}`
     return 'text-red-600' // Needs practice - Red
   }
 
-  // Determine if the selected answer is correct
-  const isCorrect = currentQuestion && selectedAnswer !== null && shuffledOptions
-    ? selectedAnswer === shuffledOptions.correctAnswer
-    : false
-
   // Safety check: if no current question, show loading or error state
-  if (!currentQuestion || !shuffledOptions) {
+  // A session that hasn't started has no questions yet - the instructions and name modals are shown over an empty page
+  if (!currentQuestion && (!sessionId || startTime !== null)) {
     return (
       <>
         <Head>
-          <title>Design Gym - Training</title>
+          <title>{t('quiz.pageTitle')}</title>
         </Head>
         <main className="min-h-screen bg-white flex items-center justify-center">
           <div className="text-center">
-            <p className="text-gray-500">Loading questions...</p>
+            {loadError === 'quiz.loadFailed' ? (
+              <>
+                <p className="text-red-500 mb-4">{t(loadError)}</p>
+                <button
+                  onClick={loadSession}
+                  className="px-6 py-2 bg-black text-white font-medium hover:bg-gray-800 transition-colors rounded-[8px]"
+                >
+                  {t('common.retry')}
+                </button>
+              </>
+            ) : loadError ? (
+              // Nothing a retry would change, like a review with nothing due
+              <>
+                <p className="text-gray-700 mb-4 max-w-md px-4">{t(loadError)}</p>
+                <Link
+                  href="/"
+                  className="inline-block px-6 py-2 bg-black text-white font-medium hover:bg-gray-800 transition-colors rounded-[8px]"
+                >
+                  {t('common.backToHome')}
+                </Link>
+              </>
+            ) : (
+              <p className="text-gray-500">{t('quiz.loadingQuestions')}</p>
+            )}
           </div>
         </main>
       </>
     )
   }
 
-  // Determine which option is correct for visual feedback
-  const leftIsCorrect = shuffledOptions.correctAnswer === 'left'
-  const rightIsCorrect = shuffledOptions.correctAnswer === 'right'
-
   return (
     <>
       <Head>
-        <title>Design Gym - Training</title>
-        <meta name="description" content="Practice your visual judgment" />
+        <title>{t('quiz.pageTitle')}</title>
+        <meta name="description" content={t('quiz.metaDescription')} />
         <meta name="viewport" content="width=device-width, initial-scale=1" />
       </Head>
 
       <main className="min-h-screen bg-white px-3 sm:px-6 py-6 sm:py-12 md:px-12 md:py-16 w-full overflow-x-hidden">
+        {/* Fixed language switcher at top-left, mirroring the coin counter */}
+        <div className="fixed top-2 left-2 sm:top-8 sm:left-8 md:top-12 md:left-12 z-10">
+          <LanguageSwitcher className="bg-white rounded-[12px]" />
+        </div>
+
         {/* Fixed coin counter at top-right */}
         <div className="fixed top-2 right-2 sm:top-8 sm:right-8 md:top-12 md:right-12 z-10">
           <div className="flex items-center justify-center gap-1.5 sm:gap-2 border-2 border-amber-200 rounded-[12px] px-2.5 sm:px-4 py-1.5 sm:py-2.5 bg-gradient-to-br from-amber-50 to-yellow-50">
@@ -506,7 +843,7 @@ ${siteUrl}`
               <circle cx="12" cy="12" r="6" fill="#FCD34D" opacity="0.6"/>
               <path d="M12 8C9.79 8 8 9.79 8 12C8 14.21 9.79 16 12 16C14.21 16 16 14.21 16 12C16 9.79 14.21 8 12 8Z" fill="#F59E0B" opacity="0.3"/>
             </svg>
-            <span className="text-xs sm:text-sm font-semibold text-amber-900">{coins}</span>
+            <span className="text-xs sm:text-sm font-semibold text-amber-900">{formatNumber(coins)}</span>
           </div>
         </div>
         <div className="max-w-6xl mx-auto w-full px-0">
@@ -516,127 +853,99 @@ ${siteUrl}`
             </div>
             <div className="mb-4">
               <div className="text-xs sm:text-sm text-gray-500 mb-2">
-                Question {currentQuestionIndex + 1} of {sessionQuestions.length}
+                {mode === 'adaptive'
+                  ? t('quiz.adaptiveProgress', { current: currentQuestionIndex + 1, max: ADAPTIVE_MAX_QUESTIONS })
+                  : t('quiz.progress', { current: currentQuestionIndex + 1, total: totalQuestions })}
               </div>
               <div className="w-full bg-gray-200 h-2 max-w-md mx-auto">
                 <div 
                   className="bg-black h-2 transition-all duration-300"
-                  style={{ width: `${((currentQuestionIndex + 1) / sessionQuestions.length) * 100}%` }}
+                  style={{ width: `${((currentQuestionIndex + 1) / (mode === 'adaptive' ? ADAPTIVE_MAX_QUESTIONS : totalQuestions)) * 100}%` }}
                 ></div>
               </div>
-            </div>
-          </div>
-
-          <div className="mb-8 sm:mb-12">
-            <h2 className="text-lg sm:text-xl md:text-2xl font-normal text-center mb-6 sm:mb-8 px-2 text-gray-900">
-              {currentQuestion.type === 'image' 
-                ? currentQuestion.prompt 
-                : currentQuestion.prompt}
-            </h2>
-          </div>
-
-          <div className="grid grid-cols-1 md:grid-cols-2 gap-3 sm:gap-6 mb-8 sm:mb-12 w-full">
-            <div
-              onClick={() => handleSelect('left')}
-              className={`cursor-pointer transition-all relative group ${currentQuestion.type === 'typeface'
-                  ? ''
-                  : `border-2 ${selectedAnswer === 'left'
-                    ? isCorrect
-                      ? 'border-green-500'
-                      : 'border-red-500'
-                    : showExplanation && leftIsCorrect
-                      ? 'border-green-500'
-                      : 'border-gray-200 hover:border-gray-400'
-                  }`
-                }`}
-            >
-              {currentQuestion.type === 'typeface' ? (
-                <div
-                  className={`p-6 sm:p-8 min-h-[250px] sm:min-h-[300px] flex items-center justify-center bg-white transition-transform ${!showExplanation ? 'group-hover:scale-[1.02]' : ''
-                    }`}
-                  style={{ fontFamily: shuffledOptions.leftOption }}
-                >
-                  <p className="text-2xl sm:text-3xl leading-relaxed text-center px-2">
-                    {foxQuote}
-                  </p>
+              {mode === 'blitz' && (showExplanation ? timedOut : secondsLeft !== null) && (
+                <div className={`text-lg sm:text-xl font-semibold mt-3 tabular-nums ${
+                  timedOut || (secondsLeft !== null && secondsLeft <= 5) ? 'text-red-600' : 'text-gray-900'
+                }`}>
+                  {timedOut ? t('blitz.timedOut') : t('blitz.timeLeft', { seconds: secondsLeft ?? 0 })}
                 </div>
-              ) : (
-                <img
-                  src={shuffledOptions.leftOption}
-                  alt="Design option"
-                  className={`w-full h-auto object-contain transition-transform ${!showExplanation ? 'group-hover:scale-[1.02]' : ''
-                    }`}
-                  style={{ maxHeight: '400px' }}
-                />
               )}
-              {!showExplanation && (
-                <div className="absolute inset-0 bg-black bg-opacity-0 group-hover:bg-opacity-40 transition-all duration-200 flex items-start justify-center pt-4">
-                  <span className="text-white font-medium opacity-0 group-hover:opacity-100 transition-opacity duration-200">
-                    Click to select
-                  </span>
+              {seed && (
+                <div className="text-xs text-gray-400 mt-2">
+                  {t('quiz.seed', { seed })}
                 </div>
               )}
-              {selectedAnswer === 'left' && (
-                <div className={`p-4 text-center font-medium ${isCorrect ? 'bg-green-50 text-green-800' : 'bg-red-50 text-red-800'
-                  }`}>
-                  {isCorrect ? '✓ Correct +100 coins' : '✗ Your choice'}
+              {resumed && (
+                <div className="text-xs sm:text-sm text-gray-500 mt-3">
+                  {t('quiz.resumed')}{' '}
+                  <button onClick={handleStartOver} className="underline hover:text-gray-900">
+                    {t('quiz.startNewSession')}
+                  </button>
                 </div>
               )}
             </div>
+          </div>
 
-            <div
-              onClick={() => handleSelect('right')}
-              className={`cursor-pointer transition-all relative group ${currentQuestion.type === 'typeface'
-                  ? ''
-                  : `border-2 ${selectedAnswer === 'right'
-                    ? isCorrect
-                      ? 'border-green-500'
-                      : 'border-red-500'
-                    : showExplanation && rightIsCorrect
-                      ? 'border-green-500'
-                      : 'border-gray-200 hover:border-gray-400'
-                  }`
-                }`}
-            >
-              {currentQuestion.type === 'typeface' ? (
-                <div
-                  className={`p-6 sm:p-8 min-h-[250px] sm:min-h-[300px] flex items-center justify-center bg-white transition-transform ${!showExplanation ? 'group-hover:scale-[1.02]' : ''
-                    }`}
-                  style={{ fontFamily: shuffledOptions.rightOption }}
-                >
-                  <p className="text-2xl sm:text-3xl leading-relaxed text-center px-2">
-                    {foxQuote}
-                  </p>
-                </div>
+          <div className="mb-8 sm:mb-12">
+            <h2 className="text-lg sm:text-xl md:text-2xl font-normal text-center mb-6 sm:mb-8 px-2 text-gray-900">
+              {questionText?.prompt}
+            </h2>
+          </div>
+
+          {!currentQuestion ? null : currentQuestion.type === 'hotspot' ? (
+            <HotspotImage
+              image={currentQuestion.image || ''}
+              regions={reveal?.regions || []}
+              clickPoint={showExplanation ? hotspotClick : null}
+              isCorrect={reveal?.credit === 1}
+              coins={answerCoins}
+              showExplanation={showExplanation}
+              onSelect={handleHotspotSelect}
+            />
+          ) : currentQuestion.type === 'ranking' ? (
+            <RankingList
+              items={rankingItems}
+              credit={reveal?.credit ?? 0}
+              coins={answerCoins}
+              showExplanation={showExplanation}
+              onReorder={setRankingItems}
+              onSubmit={handleRankingSubmit}
+            />
+          ) : !fontsReady ? (
+            // Never show typeface options in a fallback face - wait for the real fonts
+            <div className="mb-8 sm:mb-12 min-h-[250px] sm:min-h-[300px] flex flex-col items-center justify-center">
+              {fontError ? (
+                <>
+                  <p className="text-red-500 mb-4">{t(fontError)}</p>
+                  <button
+                    onClick={() => setFontAttempt(attempt => attempt + 1)}
+                    className="px-6 py-2 bg-black text-white font-medium hover:bg-gray-800 transition-colors rounded-[8px]"
+                  >
+                    {t('common.retry')}
+                  </button>
+                </>
               ) : (
-                <img
-                  src={shuffledOptions.rightOption}
-                  alt="Design option"
-                  className={`w-full h-auto object-contain transition-transform ${!showExplanation ? 'group-hover:scale-[1.02]' : ''
-                    }`}
-                  style={{ maxHeight: '400px', maxWidth: '100%' }}
-                />
-              )}
-              {!showExplanation && (
-                <div className="absolute inset-0 bg-black bg-opacity-0 group-hover:bg-opacity-40 transition-all duration-200 flex items-start justify-center pt-4">
-                  <span className="text-white font-medium opacity-0 group-hover:opacity-100 transition-opacity duration-200">
-                    Click to select
-                  </span>
-                </div>
-              )}
-              {selectedAnswer === 'right' && (
-                <div className={`p-4 text-center font-medium ${isCorrect ? 'bg-green-50 text-green-800' : 'bg-red-50 text-red-800'
-                  }`}>
-                  {isCorrect ? '✓ Correct +100 coins' : '✗ Your choice'}
-                </div>
+                <p className="text-gray-500">{t('quiz.loadingFonts')}</p>
               )}
             </div>
-          </div>
+          ) : (
+            <ComparisonGrid
+              type={currentQuestion.type}
+              options={currentQuestion.options}
+              correctIndex={reveal?.correctPosition ?? -1}
+              selectedIndex={showExplanation ? selectedAnswer : null}
+              coins={answerCoins}
+              sampleText={questionText?.sampleText}
+              annotations={reveal?.annotations}
+              showExplanation={showExplanation}
+              onSelect={handleSelect}
+            />
+          )}
 
           {showExplanation && (
             <div className="mb-8 p-6 bg-green-50 border-l-4 border-green-500">
               <p className="text-gray-700 leading-relaxed">
-                {currentQuestion.explanation}
+                {explanationText}
               </p>
             </div>
           )}
@@ -647,7 +956,7 @@ ${siteUrl}`
                 onClick={handleNext}
                 className="px-8 py-3 bg-black text-white font-normal hover:bg-gray-800 transition-colors rounded-[8px]"
               >
-                Next Question
+                {t('quiz.nextQuestion')}
               </button>
             </div>
           )}
@@ -659,8 +968,13 @@ ${siteUrl}`
         <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50 p-4">
           <div className="bg-white p-6 sm:p-8 max-w-lg w-full mx-4 rounded-[2rem] shadow-lg max-h-[90vh] overflow-y-auto">
             <h2 className="text-2xl font-normal mb-8 text-center text-gray-900">
-              How Design Gym Works
+              {t('quiz.howItWorks')}
             </h2>
+            {mode !== 'classic' && (
+              <p className="text-gray-600 -mt-4 mb-8 text-center text-sm">
+                {t(MODE_INTROS[mode], { seconds: BLITZ_SECONDS_PER_QUESTION, count: questionCount })}
+              </p>
+            )}
             
             <div className="flex flex-col md:flex-row gap-6 sm:gap-8 md:gap-12 mb-6 sm:mb-8 justify-center items-center md:items-start">
               <div className="flex flex-col items-center text-center w-full md:flex-1">
@@ -669,9 +983,9 @@ ${siteUrl}`
                     <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={1.5} d="M9 12l2 2 4-4m6 2a9 9 0 11-18 0 9 9 0 0118 0z" />
                   </svg>
                 </div>
-                <h3 className="text-lg font-medium text-gray-900 mb-2">Choose</h3>
+                <h3 className="text-lg font-medium text-gray-900 mb-2">{t('quiz.choose')}</h3>
                 <p className="text-gray-700 leading-[20px] text-sm whitespace-pre-line">
-                  Pick the better<br />design.
+                  {t('quiz.chooseText')}
                 </p>
               </div>
               
@@ -681,9 +995,9 @@ ${siteUrl}`
                     <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={1.5} d="M4 8V4m0 0h4M4 4l5 5m11-1V4m0 0h-4m4 0l-5 5M4 16v4m0 0h4m-4 0l5-5m11 5l-5-5m5 5v-4m0 4h-4" />
                   </svg>
                 </div>
-                <h3 className="text-lg font-medium text-gray-900 mb-2">Compare</h3>
+                <h3 className="text-lg font-medium text-gray-900 mb-2">{t('quiz.compare')}</h3>
                 <p className="text-gray-700 leading-[20px] text-sm whitespace-pre-line">
-                  Review both<br />after answering.
+                  {t('quiz.compareText')}
                 </p>
               </div>
               
@@ -693,9 +1007,9 @@ ${siteUrl}`
                     <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={1.5} d="M12 8c-1.657 0-3 .895-3 2s1.343 2 3 2 3 .895 3 2-1.343 2-3 2m0-8c1.11 0 2.08.402 2.599 1M12 8V7m0 1v8m0 0v1m0-1c-1.11 0-2.08-.402-2.599-1M21 12a9 9 0 11-18 0 9 9 0 0118 0z" />
                   </svg>
                 </div>
-                <h3 className="text-lg font-medium text-gray-900 mb-2">Earn</h3>
+                <h3 className="text-lg font-medium text-gray-900 mb-2">{t('quiz.earn')}</h3>
                 <p className="text-gray-700 leading-[20px] text-sm whitespace-pre-line">
-                  Correct answers<br />earn 100 coins.
+                  {scoring === 'classic' ? t('quiz.earnText') : t(`scoring.${scoring}Text`)}
                 </p>
               </div>
             </div>
@@ -705,7 +1019,7 @@ ${siteUrl}`
                 onClick={handleStartTraining}
                 className="w-full sm:w-auto px-6 sm:px-8 py-3 bg-black text-white font-normal hover:bg-gray-800 transition-colors rounded-[8px] text-sm sm:text-base"
               >
-                Start training
+                {t('quiz.startTraining')}
               </button>
             </div>
           </div>
@@ -716,29 +1030,7 @@ ${siteUrl}`
       {showLevelCompleteModal && (
         <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50 p-4">
           <div className="bg-white p-6 sm:p-8 max-w-md w-full mx-4 rounded-[2rem] shadow-lg max-h-[90vh] overflow-y-auto">
-            {completedLevel === 'beginner' ? (
-              <>
-                <div className="flex justify-center mb-4">
-                  <svg className="w-16 h-16 text-green-500" fill="none" stroke="currentColor" viewBox="0 0 24 24">
-                    <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M9 12l2 2 4-4m6 2a9 9 0 11-18 0 9 9 0 0118 0z" />
-                  </svg>
-                </div>
-                <h2 className="text-xl sm:text-2xl font-normal mb-4 text-center">
-                  Beginner Level Complete!
-                </h2>
-                <p className="text-gray-700 mb-6 text-center leading-relaxed text-sm sm:text-base">
-                  Great job completing the beginner level! Ready to move on to the intermediate level?
-                </p>
-                <div className="text-center">
-                  <button
-                    onClick={handleProceedToNextLevel}
-                    className="w-full sm:w-auto px-6 sm:px-8 py-3 bg-black text-white font-normal hover:bg-gray-800 transition-colors rounded-[8px] text-sm sm:text-base"
-                  >
-                    Continue to Next Level
-                  </button>
-                </div>
-              </>
-            ) : completedLevel === 'mid' ? (
+            {finishedStage && nextStage ? (
               <>
                 <div className="flex justify-center mb-4">
                   <svg className="w-16 h-16 text-green-500" fill="none" stroke="currentColor" viewBox="0 0 24 24">
@@ -746,21 +1038,25 @@ ${siteUrl}`
                   </svg>
                 </div>
                 <h2 className="text-xl sm:text-2xl font-normal mb-4 text-center">
-                  Intermediate Level Complete!
+                  {nextStage.level !== finishedStage.level
+                    ? t('quiz.levelComplete', { level: t(`level.${finishedStage.level}`) })
+                    : t('quiz.stageComplete', { number: (completedStage ?? 0) + 1, total: stages.length })}
                 </h2>
                 <p className="text-gray-700 mb-6 text-center leading-relaxed text-sm sm:text-base">
-                  Excellent work! Ready to move on to the expert level?
+                  {nextStage.level !== finishedStage.level
+                    ? t('quiz.levelCompleteText', { level: t(`level.${finishedStage.level}`), next: t(`level.${nextStage.level}`) })
+                    : t('quiz.stageCompleteText', { count: nextStage.count })}
                 </p>
                 <div className="text-center">
                   <button
                     onClick={handleProceedToNextLevel}
                     className="w-full sm:w-auto px-6 sm:px-8 py-3 bg-black text-white font-normal hover:bg-gray-800 transition-colors rounded-[8px] text-sm sm:text-base"
                   >
-                    Continue to Next Level
+                    {t(nextStage.level !== finishedStage.level ? 'quiz.continue' : 'quiz.continueStage')}
                   </button>
                 </div>
               </>
-            ) : completedLevel === 'expert' ? (
+            ) : sessionComplete ? (
               <>
                 <div className="flex justify-center mb-6">
                   <img 
@@ -770,7 +1066,7 @@ ${siteUrl}`
                   />
                 </div>
                 <h2 className="text-xl sm:text-2xl font-normal mb-4 sm:mb-6 text-center">
-                  Session Complete
+                  {t('quiz.sessionComplete')}
                 </h2>
                 <div className="mb-6">
                   <div className="mb-4 flex items-center justify-center gap-3 border-2 border-amber-200 rounded-[12px] px-6 py-4 bg-gradient-to-br from-amber-50 to-yellow-50 w-fit mx-auto">
@@ -785,22 +1081,34 @@ ${siteUrl}`
                       <path d="M12 8C9.79 8 8 9.79 8 12C8 14.21 9.79 16 12 16C14.21 16 16 14.21 16 12C16 9.79 14.21 8 12 8Z" fill="#F59E0B" opacity="0.3"/>
                     </svg>
                     <div className="flex flex-col">
-                      <span className="text-xs font-medium text-amber-700 uppercase tracking-wide">Coins Earned</span>
-                      <span className="text-2xl font-bold text-amber-900">{coins}</span>
+                      <span className="text-xs font-medium text-amber-700 uppercase tracking-wide">{t('quiz.coinsEarned')}</span>
+                      <span className="text-2xl font-bold text-amber-900">{formatNumber(coins)}</span>
                     </div>
                   </div>
                   <div className={`text-2xl font-medium mb-2 text-center ${getAccuracyColor(accuracy)}`}>
-                    Accuracy: {accuracy}%
+                    {t('quiz.accuracy', { accuracy: formatPercent(accuracy) })}
                   </div>
                   <div className="text-base text-gray-700 text-center">
                     {getFeedback(accuracy)}
                   </div>
+                  {mode === 'adaptive' && skill && (
+                    <div className="mt-4 text-center">
+                      <div className="text-xs font-medium text-gray-500 uppercase tracking-wide">{t('skill.title')}</div>
+                      <div className="text-3xl font-bold text-black">{formatNumber(toSkillScore(skill.rating))}</div>
+                      <div className="text-sm text-gray-600">
+                        {t('skill.detail', {
+                          level: t(`level.${skillLevel(skill.rating)}`),
+                          margin: formatNumber(toSkillMargin(skill.uncertainty)),
+                        })}
+                      </div>
+                    </div>
+                  )}
                 </div>
                 
                 {/* Share Tone Toggle */}
                 <div className="mb-4">
                   <div className="flex items-center justify-center gap-2 mb-3">
-                    <span className="text-xs text-gray-500 font-medium">Share tone:</span>
+                    <span className="text-xs text-gray-500 font-medium">{t('quiz.shareTone')}</span>
                     <button
                       onClick={() => setShareTone('humble')}
                       className={`px-3 py-1.5 text-xs font-medium rounded-[8px] transition-colors ${
@@ -809,7 +1117,7 @@ ${siteUrl}`
                           : 'bg-gray-100 text-gray-400 hover:bg-gray-200'
                       }`}
                     >
-                      Humble
+                      {t('quiz.humble')}
                     </button>
                     <button
                       onClick={() => setShareTone('brag')}
@@ -819,7 +1127,7 @@ ${siteUrl}`
                           : 'bg-gray-100 text-gray-400 hover:bg-gray-200'
                       }`}
                     >
-                      Brag
+                      {t('quiz.brag')}
                     </button>
                   </div>
                 </div>
@@ -829,13 +1137,13 @@ ${siteUrl}`
                     onClick={handleViewStats}
                     className="w-full sm:w-1/2 px-6 sm:px-8 py-3 bg-black text-white font-normal hover:bg-gray-800 transition-colors whitespace-nowrap rounded-[8px] text-sm sm:text-base"
                   >
-                    View Your Stats
+                    {t('quiz.viewStats')}
                   </button>
                   <button
                     onClick={handleViewLeaderboard}
                     className="w-full sm:w-1/2 px-6 sm:px-8 py-3 bg-gray-100 text-gray-900 font-normal hover:bg-gray-200 transition-colors whitespace-nowrap rounded-[8px] text-sm sm:text-base"
                   >
-                    View Leaderboard
+                    {t('common.viewLeaderboard')}
                   </button>
                 </div>
                 <div className="flex flex-col sm:flex-row gap-3 mb-4">
@@ -846,7 +1154,7 @@ ${siteUrl}`
                     <svg className="w-5 h-5 sm:w-7 sm:h-7 fill-current" viewBox="0 0 24 24" aria-hidden="true">
                       <path d="M18.244 2.25h3.308l-7.227 8.26 8.502 11.24H16.17l-5.214-6.817L4.99 21.75H1.68l7.73-8.835L1.254 2.25H8.08l4.713 6.231zm-1.161 17.52h1.833L7.084 4.126H5.117z"/>
                     </svg>
-                    Share on X
+                    {t('quiz.shareOnX')}
                   </button>
                 </div>
                 <div className="text-center pt-4 border-t border-gray-200">
@@ -854,8 +1162,18 @@ ${siteUrl}`
                     onClick={handleStartOver}
                     className="text-base font-medium text-gray-900 hover:text-black transition-colors underline decoration-2 underline-offset-4 hover:decoration-gray-400"
                   >
-                    Start Over
+                    {t('quiz.startOver')}
                   </button>
+                  {seed && (mode === 'classic' || mode === 'blitz' || mode === 'custom') && (
+                    <div className="mt-3">
+                      <button
+                        onClick={handleReplaySeed}
+                        className="text-sm text-gray-500 hover:text-gray-900 underline"
+                      >
+                        {t('quiz.replaySeed')}
+                      </button>
+                    </div>
+                  )}
                 </div>
               </>
             ) : null}
@@ -868,20 +1186,27 @@ ${siteUrl}`
         <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50 p-4">
           <div className="bg-white p-6 sm:p-8 max-w-md w-full mx-4 rounded-[2rem] shadow-lg">
             <h2 className="text-xl sm:text-2xl font-normal mb-4 text-center text-gray-900">
-              Connect Your Account
+              {t('quiz.connectAccount')}
             </h2>
             <p className="text-gray-600 mb-6 text-center text-xs sm:text-sm">
-              Your name will appear on the leaderboard
+              {t(
+                mode === 'adaptive' ? 'skill.nameForRating'
+                  : mode === 'review' ? 'review.nameHint'
+                  : mode === 'daily' ? 'daily.nameHint'
+                  : mode === 'custom' ? 'custom.nameHint'
+                  : replay ? 'quiz.replayNameHint'
+                  : 'quiz.nameOnLeaderboard'
+              )}
             </p>
             <div className="mb-4">
               <label className="block text-sm font-medium text-gray-700 mb-2">
-                Your Name *
+                {t('quiz.yourName')}
               </label>
               <input
                 type="text"
                 value={playerName}
                 onChange={(e) => setPlayerName(e.target.value)}
-                placeholder="Your name"
+                placeholder={t('quiz.namePlaceholder')}
                 maxLength={20}
                 className="w-full px-4 py-3 border border-gray-300 rounded-[8px] text-gray-900 focus:outline-none focus:ring-2 focus:ring-black focus:border-transparent text-sm sm:text-base"
                 onKeyPress={(e) => {
@@ -894,7 +1219,7 @@ ${siteUrl}`
             </div>
             <div className="mb-6">
               <label className="block text-sm font-medium text-gray-700 mb-2">
-                Twitter Handle (Optional)
+                {t('quiz.twitterHandle')}
               </label>
               <div className="relative">
                 <span className="absolute left-4 top-1/2 -translate-y-1/2 text-gray-500 text-sm sm:text-base pointer-events-none">@</span>
@@ -917,7 +1242,7 @@ ${siteUrl}`
                 />
               </div>
               <p className="text-xs text-gray-500 mt-1">
-                Connect your Twitter to appear in social proof
+                {t('quiz.twitterHint')}
               </p>
             </div>
             <div className="text-center">
@@ -926,7 +1251,7 @@ ${siteUrl}`
                 disabled={!playerName.trim()}
                 className="w-full sm:w-auto px-6 sm:px-8 py-3 bg-black text-white font-normal hover:bg-gray-800 transition-colors rounded-[8px] disabled:opacity-50 disabled:cursor-not-allowed text-sm sm:text-base"
               >
-                Start Training
+                {t('common.startTraining')}
               </button>
             </div>
           </div>
@@ -1,13 +1,14 @@
 import '../styles/globals.css'
 import type { AppProps } from 'next/app'
 import { Analytics } from '@vercel/analytics/react'
+import { LocaleProvider } from '../lib/i18n'
 
 export default function App({ Component, pageProps }: AppProps) {
   return (
-    <>
+    <LocaleProvider>
       <Component {...pageProps} />
       <Analytics />
-    </>
+    </LocaleProvider>
   )
 }
 
@@ -0,0 +1,1090 @@
+import { useState, useEffect } from 'react'
+import Head from 'next/head'
+import { DEFAULT_LOCALE, Locale, LOCALE_NAMES, LOCALES } from '../../data/messages'
+import {
+  foxQuote,
+  HotspotRegion,
+  PRINCIPLES,
+  Question,
+  QuestionAnnotation,
+  QuestionFont,
+  QuestionTranslation,
+} from '../../data/quizData'
+import {
+  COINS_PER_QUESTION,
+  getOptionAnnotations,
+  getQuestionOptions,
+  hitsHotspot,
+  MAX_ANNOTATION_LABEL,
+  MAX_OPTIONS,
+  MAX_RANKING_OPTIONS,
+  MIN_RANKING_OPTIONS,
+  REQUIRED_POOL_COMPOSITION,
+  scoreRanking,
+  shuffleArray,
+} from '../../lib/quiz'
+import ComparisonGrid from '../../components/ComparisonGrid'
+import HotspotImage from '../../components/HotspotImage'
+import RankingList from '../../components/RankingList'
+import { loadFonts } from '../../lib/fonts'
+
+interface AdminQuestion extends Question {
+  retired: boolean
+}
+
+interface VersionStats {
+  questionId: string
+  version: number
+  answered: number
+  correct: number
+  medianResponseMs: number | null
+}
+
+const LEVELS = ['beginner', 'mid', 'expert'] as const
+
+// Locales question text can be translated into - English is the authored text itself
+const TRANSLATED_LOCALES = LOCALES.filter(locale => locale !== DEFAULT_LOCALE)
+
+// The editor always works on an options list, whatever form the question is stored in
+// Hotspot questions use image and regions instead
+interface Draft extends Question {
+  options: string[]
+  correctIndex: number
+  image: string
+  regions: HotspotRegion[]
+  sampleText: string
+  fonts: QuestionFont[]
+  annotations: QuestionAnnotation[]
+  translations: Partial<Record<Locale, QuestionTranslation>>
+}
+
+const EMPTY_REGION: HotspotRegion = { x: 0, y: 0, width: 0.25, height: 0.25 }
+
+const EMPTY_FONT: QuestionFont = { family: '', src: '' }
+
+const EMPTY_ANNOTATION: QuestionAnnotation = { option: 0, kind: 'box', x: 0, y: 0, width: 0.25, height: 0.25 }
+
+// Coordinates each annotation kind uses, edited as percentages of the image
+const ANNOTATION_FIELDS: Record<QuestionAnnotation['kind'], ('x' | 'y' | 'width' | 'height' | 'toX' | 'toY')[]> = {
+  box: ['x', 'y', 'width', 'height'],
+  arrow: ['x', 'y', 'toX', 'toY'],
+  label: ['x', 'y'],
+}
+
+const EMPTY_DRAFT: Draft = {
+  id: '',
+  difficulty: 'beginner',
+  type: 'image',
+  principles: [],
+  prompt: 'Which of these images is most correct?',
+  options: ['', ''],
+  correctIndex: 0,
+  image: '',
+  regions: [],
+  sampleText: '',
+  fonts: [],
+  annotations: [],
+  explanation: '',
+  translations: {},
+}
+
+function toDraft(question: Question): Draft {
+  const { optionA, optionB, correctOption, ...content } = question
+  const { options, correctIndex } = getQuestionOptions(question)
+  return {
+    ...content,
+    principles: [...question.principles],
+    options: [...options],
+    correctIndex,
+    image: question.image || '',
+    regions: (question.regions || []).map(region => ({ ...region })),
+    sampleText: question.sampleText || '',
+    fonts: (question.fonts || []).map(font => ({ ...font })),
+    annotations: (question.annotations || []).map(annotation => ({ ...annotation })),
+    translations: JSON.parse(JSON.stringify(question.translations || {})),
+  }
+}
+
+// How many options the editor allows for a question type
+function optionLimits(type: Question['type']): { min: number; max: number } {
+  return type === 'ranking'
+    ? { min: MIN_RANKING_OPTIONS, max: MAX_RANKING_OPTIONS }
+    : { min: 2, max: MAX_OPTIONS }
+}
+
+// Drop blank translated fields, and locales left with nothing translated
+// Sample text is only kept for typeface questions
+function cleanTranslations(draft: Draft): Partial<Question> {
+  const translations: Partial<Record<Locale, QuestionTranslation>> = {}
+  for (const locale of TRANSLATED_LOCALES) {
+    const translation: QuestionTranslation = {}
+    const { prompt, explanation, sampleText } = draft.translations[locale] || {}
+    if (prompt?.trim()) translation.prompt = prompt
+    if (explanation?.trim()) translation.explanation = explanation
+    if (sampleText?.trim() && draft.type === 'typeface') translation.sampleText = sampleText
+    if (Object.keys(translation).length > 0) translations[locale] = translation
+  }
+  return Object.keys(translations).length > 0 ? { translations } : {}
+}
+
+// Two options with the first one correct are stored in the original optionA/optionB form
+// Ranking questions store their options in order, best first
+function fromDraft(draft: Draft): Question {
+  const { options, correctIndex, image, regions, sampleText, fonts, annotations, translations, ...text } = draft
+  const content = { ...text, ...cleanTranslations(draft) }
+  if (draft.type === 'hotspot') {
+    return { ...content, image, regions }
+  }
+  if (draft.type === 'ranking') {
+    return { ...content, options }
+  }
+  // Sample text and fonts are only saved for typeface questions, and only when set
+  const typefaceText: Partial<Question> = draft.type === 'typeface'
+    ? { ...(sampleText.trim() ? { sampleText } : {}), ...(fonts.length > 0 ? { fonts } : {}) }
+    : {}
+  // Annotations are only saved for image questions
+  const imageMarks: Partial<Question> = draft.type === 'image' && annotations.length > 0 ? { annotations } : {}
+  if (options.length === 2 && correctIndex === 0) {
+    return { ...content, ...typefaceText, ...imageMarks, optionA: options[0], optionB: options[1], correctOption: 'A' }
+  }
+  return { ...content, ...typefaceText, ...imageMarks, options, correctIndex }
+}
+
+// Read a picked file as a base64 data URL for the upload API
+function readAsDataUrl(file: File): Promise<string> {
+  return new Promise((resolve, reject) => {
+    const reader = new FileReader()
+    reader.onload = () => resolve(reader.result as string)
+    reader.onerror = () => reject(reader.error)
+    reader.readAsDataURL(file)
+  })
+}
+
+export default function AdminQuestions() {
+  const [adminToken, setAdminToken] = useState('')
+  const [tokenInput, setTokenInput] = useState('')
+  const [questions, setQuestions] = useState<AdminQuestion[]>([])
+  const [versionStats, setVersionStats] = useState<VersionStats[]>([])
+  const [loading, setLoading] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+
+  // Editor state - isNew distinguishes create (POST) from edit (PUT)
+  const [draft, setDraft] = useState<Draft | null>(null)
+  const [draftRetired, setDraftRetired] = useState(false)
+  const [isNew, setIsNew] = useState(false)
+  const [replacesId, setReplacesId] = useState('')
+  const [saving, setSaving] = useState(false)
+  const [saveErrors, setSaveErrors] = useState<string[]>([])
+  // Key of the field being uploaded, like 'option-1', 'image' or 'font-0'
+  const [uploading, setUploading] = useState<string | null>(null)
+
+  // Preview state mirrors the quiz: pick a side, then see feedback and explanation
+  // previewOrder maps display positions to option indexes
+  const [previewOrder, setPreviewOrder] = useState<number[]>([])
+  const [previewSelected, setPreviewSelected] = useState<number | null>(null)
+  const [previewClick, setPreviewClick] = useState<{ x: number; y: number } | null>(null)
+  const [previewRanked, setPreviewRanked] = useState(false)
+  const [previewFonts, setPreviewFonts] = useState<'loading' | 'ready' | 'failed'>('ready')
+
+  useEffect(() => {
+    const savedToken = sessionStorage.getItem('adminToken')
+    if (savedToken) {
+      setAdminToken(savedToken)
+    }
+  }, [])
+
+  useEffect(() => {
+    if (adminToken) {
+      fetchQuestions()
+    }
+  }, [adminToken])
+
+  // Load the draft's font files for the preview, waiting for typing to pause before fetching
+  const draftFonts = draft?.type === 'typeface' ? JSON.stringify(draft.fonts) : '[]'
+  useEffect(() => {
+    const fonts: QuestionFont[] = JSON.parse(draftFonts)
+    if (fonts.length === 0) {
+      setPreviewFonts('ready')
+      return
+    }
+    let cancelled = false
+    setPreviewFonts('loading')
+    const timer = setTimeout(() => {
+      loadFonts(fonts)
+        .then(() => {
+          if (!cancelled) setPreviewFonts('ready')
+        })
+        .catch(() => {
+          if (!cancelled) setPreviewFonts('failed')
+        })
+    }, 500)
+    return () => {
+      cancelled = true
+      clearTimeout(timer)
+    }
+  }, [draftFonts])
+
+  const adminFetch = (url: string, init: RequestInit = {}) =>
+    fetch(url, {
+      ...init,
+      headers: {
+        'Content-Type': 'application/json',
+        'x-admin-token': adminToken,
+        ...(init.headers || {}),
+      },
+    })
+
+  const handleUnauthorized = () => {
+    sessionStorage.removeItem('adminToken')
+    setAdminToken('')
+    setError('Invalid admin token')
+  }
+
+  const fetchQuestions = async () => {
+    setLoading(true)
+    setError(null)
+    try {
+      const response = await adminFetch('/api/admin/questions')
+      if (response.status === 401) {
+        handleUnauthorized()
+        return
+      }
+      if (!response.ok) {
+        const errorData = await response.json().catch(() => ({}))
+        throw new Error(errorData.message || errorData.error || `Failed to load questions: ${response.status}`)
+      }
+      setQuestions(await response.json())
+      fetchVersionStats()
+    } catch (error) {
+      console.error('Error loading questions:', error)
+      setError(error instanceof Error ? error.message : 'Failed to load questions')
+    } finally {
+      setLoading(false)
+    }
+  }
+
+  // Answer statistics are a nice-to-have, so a failure only leaves the column empty
+  const fetchVersionStats = async () => {
+    try {
+      const response = await adminFetch('/api/admin/question-stats')
+      if (response.ok) {
+        setVersionStats(await response.json())
+      }
+    } catch (error) {
+      console.error('Error loading question stats:', error)
+    }
+  }
+
+  const handleTokenSubmit = () => {
+    if (tokenInput.trim()) {
+      sessionStorage.setItem('adminToken', tokenInput.trim())
+      setAdminToken(tokenInput.trim())
+      setTokenInput('')
+    }
+  }
+
+  const openEditor = (nextDraft: Draft, retired: boolean, creating: boolean) => {
+    setDraft(nextDraft)
+    setDraftRetired(retired)
+    setIsNew(creating)
+    setReplacesId('')
+    setSaveErrors([])
+    setPreviewOrder(nextDraft.options.map((_, index) => index))
+    setPreviewSelected(null)
+    setPreviewClick(null)
+    setPreviewRanked(false)
+  }
+
+  const updateDraft = (changes: Partial<Draft>) => {
+    if (draft) {
+      setDraft({ ...draft, ...changes })
+      setPreviewSelected(null)
+      setPreviewClick(null)
+      setPreviewRanked(false)
+    }
+  }
+
+  const updateOption = (index: number, value: string) => {
+    if (draft) {
+      updateDraft({ options: draft.options.map((option, i) => i === index ? value : option) })
+    }
+  }
+
+  // Adding or removing options resets the preview order
+  const setOptionCount = (options: string[], correctIndex: number, changes: Partial<Draft> = {}) => {
+    updateDraft({ options, correctIndex, ...changes })
+    setPreviewOrder(options.map((_, index) => index))
+  }
+
+  const addOption = () => {
+    if (draft && draft.options.length < optionLimits(draft.type).max) {
+      setOptionCount([...draft.options, ''], draft.correctIndex)
+    }
+  }
+
+  const removeOption = (index: number) => {
+    if (!draft || draft.options.length <= optionLimits(draft.type).min) return
+    const correctIndex = index === draft.correctIndex
+      ? 0
+      : index < draft.correctIndex ? draft.correctIndex - 1 : draft.correctIndex
+    // Annotations on the removed option go with it, later options move up one
+    const annotations = draft.annotations
+      .filter(annotation => annotation.option !== index)
+      .map(annotation => annotation.option > index ? { ...annotation, option: annotation.option - 1 } : annotation)
+    setOptionCount(draft.options.filter((_, i) => i !== index), correctIndex, { annotations })
+  }
+
+  const updateRegion = (index: number, changes: Partial<HotspotRegion>) => {
+    if (draft) {
+      updateDraft({ regions: draft.regions.map((region, i) => i === index ? { ...region, ...changes } : region) })
+    }
+  }
+
+  const addRegion = () => {
+    if (draft) {
+      updateDraft({ regions: [...draft.regions, { ...EMPTY_REGION }] })
+    }
+  }
+
+  const removeRegion = (index: number) => {
+    if (draft) {
+      updateDraft({ regions: draft.regions.filter((_, i) => i !== index) })
+    }
+  }
+
+  const updateFont = (index: number, changes: Partial<QuestionFont>) => {
+    if (draft) {
+      updateDraft({ fonts: draft.fonts.map((font, i) => i === index ? { ...font, ...changes } : font) })
+    }
+  }
+
+  const addFont = () => {
+    if (draft) {
+      updateDraft({ fonts: [...draft.fonts, { ...EMPTY_FONT }] })
+    }
+  }
+
+  const removeFont = (index: number) => {
+    if (draft) {
+      updateDraft({ fonts: draft.fonts.filter((_, i) => i !== index) })
+    }
+  }
+
+  const updateAnnotation = (index: number, changes: Partial<QuestionAnnotation>) => {
+    if (draft) {
+      updateDraft({ annotations: draft.annotations.map((annotation, i) => i === index ? { ...annotation, ...changes } : annotation) })
+    }
+  }
+
+  // Switching kind fills in the coordinates the new kind needs
+  const setAnnotationKind = (index: number, kind: QuestionAnnotation['kind']) => {
+    const { option, x, y, label } = draft?.annotations[index] || EMPTY_ANNOTATION
+    const shape = kind === 'box'
+      ? { width: 0.25, height: 0.25 }
+      : kind === 'arrow' ? { toX: Math.min(x + 0.2, 1), toY: Math.min(y + 0.2, 1) } : {}
+    updateAnnotation(index, { option, kind, x, y, label, width: undefined, height: undefined, toX: undefined, toY: undefined, ...shape })
+  }
+
+  const addAnnotation = () => {
+    if (draft) {
+      updateDraft({ annotations: [...draft.annotations, { ...EMPTY_ANNOTATION }] })
+    }
+  }
+
+  const removeAnnotation = (index: number) => {
+    if (draft) {
+      updateDraft({ annotations: draft.annotations.filter((_, i) => i !== index) })
+    }
+  }
+
+  const updateTranslation = (locale: Locale, changes: QuestionTranslation) => {
+    if (draft) {
+      updateDraft({ translations: { ...draft.translations, [locale]: { ...draft.translations[locale], ...changes } } })
+    }
+  }
+
+  const shufflePreview = () => {
+    setPreviewOrder(shuffleArray(previewOrder))
+    setPreviewSelected(null)
+    setPreviewRanked(false)
+  }
+
+  const togglePrinciple = (principle: Question['principles'][number]) => {
+    if (!draft) return
+    const principles = draft.principles.includes(principle)
+      ? draft.principles.filter(p => p !== principle)
+      : [...draft.principles, principle]
+    updateDraft({ principles })
+  }
+
+  const handleUpload = async (key: string, file: File | undefined, onUploaded: (path: string) => void) => {
+    if (!file) return
+    setUploading(key)
+    try {
+      const dataUrl = await readAsDataUrl(file)
+      const response = await adminFetch('/api/admin/upload', {
+        method: 'POST',
+        body: JSON.stringify({ filename: file.name, dataUrl }),
+      })
+      const data = await response.json().catch(() => ({}))
+      if (!response.ok) {
+        throw new Error(data.error || `Upload failed: ${response.status}`)
+      }
+      onUploaded(data.path)
+    } catch (error) {
+      setSaveErrors([error instanceof Error ? error.message : 'Upload failed'])
+    } finally {
+      setUploading(null)
+    }
+  }
+
+  // Send a create or update - the API re-checks everything, including pool composition
+  // Returns the problems reported by the API, or an empty list on success
+  const saveQuestion = async (method: 'POST' | 'PUT', body: object): Promise<string[]> => {
+    setSaving(true)
+    try {
+      const response = await adminFetch('/api/admin/questions', {
+        method,
+        body: JSON.stringify(body),
+      })
+      if (response.status === 401) {
+        handleUnauthorized()
+        return ['Invalid admin token']
+      }
+      const data = await response.json().catch(() => ({}))
+      if (!response.ok) {
+        return data.problems || [data.message || data.error || `Save failed: ${response.status}`]
+      }
+      await fetchQuestions()
+      return []
+    } finally {
+      setSaving(false)
+    }
+  }
+
+  const handleSave = async () => {
+    if (!draft) return
+    const question = fromDraft(draft)
+    const problems = isNew
+      ? await saveQuestion('POST', { question, replacesId: replacesId || undefined })
+      : await saveQuestion('PUT', { question, retired: draftRetired })
+    setSaveErrors(problems)
+    if (problems.length === 0) {
+      setDraft(null)
+    }
+  }
+
+  const handleToggleRetired = async (question: AdminQuestion) => {
+    const { retired, ...content } = question
+    setError(null)
+    const problems = await saveQuestion('PUT', { question: content, retired: !retired })
+    if (problems.length > 0) {
+      setError(`Could not ${retired ? 'restore' : 'retire'} ${question.id}: ${problems.join(' ')}`)
+    }
+  }
+
+  // Composition of the active pool for each level, shown against the requirement
+  const composition = LEVELS.map(level => {
+    const active = questions.filter(q => q.difficulty === level && !q.retired)
+    return {
+      level,
+      image: active.filter(q => q.type === 'image').length,
+      typeface: active.filter(q => q.type === 'typeface').length,
+      required: REQUIRED_POOL_COMPOSITION[level],
+    }
+  })
+
+  if (!adminToken) {
+    return (
+      <>
+        <Head>
+          <title>Admin - Design Gym</title>
+          <meta name="robots" content="noindex" />
+        </Head>
+        <main className="min-h-screen bg-white flex items-center justify-center px-6">
+          <div className="max-w-sm w-full">
+            <h1 className="text-2xl font-normal text-black mb-4 text-center">Question Admin</h1>
+            {error && <p className="text-red-500 text-sm mb-4 text-center">{error}</p>}
+            <input
+              type="password"
+              value={tokenInput}
+              onChange={(e) => setTokenInput(e.target.value)}
+              onKeyPress={(e) => {
+                if (e.key === 'Enter') handleTokenSubmit()
+              }}
+              placeholder="Admin token"
+              className="w-full px-4 py-3 border border-gray-300 rounded-[8px] text-gray-900 focus:outline-none focus:ring-2 focus:ring-black focus:border-transparent mb-4"
+              autoFocus
+            />
+            <button
+              onClick={handleTokenSubmit}
+              disabled={!tokenInput.trim()}
+              className="w-full px-8 py-3 bg-black text-white font-normal hover:bg-gray-800 transition-colors rounded-[8px] disabled:opacity-50 disabled:cursor-not-allowed"
+            >
+              Sign in
+            </button>
+          </div>
+        </main>
+      </>
+    )
+  }
+
+  const replaceCandidates = draft
+    ? questions.filter(q => !q.retired && q.difficulty === draft.difficulty && q.type === draft.type)
+    : []
+  const previewAnnotations = draft ? getOptionAnnotations(draft) : []
+
+  return (
+    <>
+      <Head>
+        <title>Admin - Design Gym</title>
+        <meta name="robots" content="noindex" />
+      </Head>
+      <main className="min-h-screen bg-white px-6 py-12 md:px-12">
+        <div className="max-w-6xl mx-auto">
+          <div className="flex items-center justify-between mb-8">
+            <h1 className="text-3xl font-normal text-black">Question Admin</h1>
+            <button
+              onClick={() => openEditor(EMPTY_DRAFT, false, true)}
+              className="px-6 py-2 bg-black text-white font-normal hover:bg-gray-800 transition-colors rounded-[8px]"
+            >
+              New Question
+            </button>
+          </div>
+
+          {/* Pool composition against REQUIRED_POOL_COMPOSITION */}
+          <div className="grid grid-cols-1 md:grid-cols-3 gap-4 mb-8">
+            {composition.map(({ level, image, typeface, required }) => {
+              const valid = image === required.image && typeface === required.typeface
+              return (
+                <div key={level} className={`rounded-[2rem] p-6 border ${valid ? 'bg-gray-50 border-gray-200' : 'bg-red-50 border-red-300'}`}>
+                  <p className="text-sm text-gray-600 mb-1 capitalize">{level}</p>
+                  <p className="text-lg text-black">
+                    {image}/{required.image} image · {typeface}/{required.typeface} typeface
+                  </p>
+                </div>
+              )
+            })}
+          </div>
+
+          {error && <p className="text-red-500 mb-4">{error}</p>}
+
+          {/* Editor */}
+          {draft && (
+            <div className="border border-gray-200 rounded-[2rem] p-6 mb-8">
+              <h2 className={`text-xl font-normal text-black ${isNew ? 'mb-6' : 'mb-2'}`}>
+                {isNew ? 'New Question' : `Edit ${draft.id} (v${draft.version || 1})`}
+              </h2>
+              {!isNew && (
+                <p className="text-sm text-gray-500 mb-6">
+                  Content changes are saved as v{(draft.version || 1) + 1}. Past answers stay with the version they were given against.
+                </p>
+              )}
+
+              <div className="grid grid-cols-1 md:grid-cols-3 gap-4 mb-4">
+                <label className="block">
+                  <span className="block text-sm font-medium text-gray-700 mb-2">Id</span>
+                  <input
+                    type="text"
+                    value={draft.id}
+                    disabled={!isNew}
+                    onChange={(e) => updateDraft({ id: e.target.value })}
+                    className="w-full px-4 py-2 border border-gray-300 rounded-[8px] text-gray-900 disabled:bg-gray-100"
+                  />
+                </label>
+                <label className="block">
+                  <span className="block text-sm font-medium text-gray-700 mb-2">Difficulty</span>
+                  <select
+                    value={draft.difficulty}
+                    onChange={(e) => updateDraft({ difficulty: e.target.value as Question['difficulty'] })}
+                    className="w-full px-4 py-2 border border-gray-300 rounded-[8px] text-gray-900"
+                  >
+                    {LEVELS.map(level => <option key={level} value={level}>{level}</option>)}
+                  </select>
+                </label>
+                <label className="block">
+                  <span className="block text-sm font-medium text-gray-700 mb-2">Type</span>
+                  <select
+                    value={draft.type}
+                    onChange={(e) => updateDraft({ type: e.target.value as Question['type'] })}
+                    className="w-full px-4 py-2 border border-gray-300 rounded-[8px] text-gray-900"
+                  >
+                    <option value="image">image</option>
+                    <option value="typeface">typeface</option>
+                    <option value="hotspot">hotspot</option>
+                    <option value="ranking">ranking</option>
+                  </select>
+                </label>
+              </div>
+
+              <div className="mb-4">
+                <span className="block text-sm font-medium text-gray-700 mb-2">Principles</span>
+                <div className="flex flex-wrap gap-2">
+                  {PRINCIPLES.map(principle => (
+                    <button
+                      key={principle}
+                      onClick={() => togglePrinciple(principle)}
+                      className={`px-3 py-1.5 text-xs font-medium rounded-[8px] transition-colors ${
+                        draft.principles.includes(principle)
+                          ? 'bg-gray-900 text-white'
+                          : 'bg-gray-100 text-gray-500 hover:bg-gray-200'
+                      }`}
+                    >
+                      {principle}
+                    </button>
+                  ))}
+                </div>
+              </div>
+
+              <label className="block mb-4">
+                <span className="block text-sm font-medium text-gray-700 mb-2">Prompt</span>
+                <input
+                  type="text"
+                  value={draft.prompt}
+                  onChange={(e) => updateDraft({ prompt: e.target.value })}
+                  className="w-full px-4 py-2 border border-gray-300 rounded-[8px] text-gray-900"
+                />
+              </label>
+
+              {draft.type === 'hotspot' ? (
+                <div className="mb-4">
+                  <span className="block text-sm font-medium text-gray-700 mb-2">Image</span>
+                  <input
+                    type="text"
+                    value={draft.image}
+                    onChange={(e) => updateDraft({ image: e.target.value })}
+                    placeholder="/api/uploads/image.png"
+                    className="w-full px-4 py-2 border border-gray-300 rounded-[8px] text-gray-900 mb-2"
+                  />
+                  <input
+                    type="file"
+                    accept="image/png,image/jpeg,image/webp,image/gif"
+                    disabled={uploading !== null}
+                    onChange={(e) => handleUpload('image', e.target.files?.[0], (path) => updateDraft({ image: path }))}
+                    className="text-sm text-gray-600"
+                  />
+                  {uploading === 'image' && <p className="text-xs text-gray-500 mt-1">Uploading...</p>}
+
+                  {/* Regions are stored as 0-1 fractions of the image, edited as percentages */}
+                  <span className="block text-sm font-medium text-gray-700 mt-4 mb-2">Problem regions (% of the image)</span>
+                  {draft.regions.map((region, index) => (
+                    <div key={index} className="flex flex-wrap items-center gap-2 mb-2">
+                      {(['x', 'y', 'width', 'height'] as const).map(field => (
+                        <label key={field} className="flex items-center gap-1 text-xs text-gray-700">
+                          {field}
+                          <input
+                            type="number"
+                            min={0}
+                            max={100}
+                            value={Math.round(region[field] * 1000) / 10}
+                            onChange={(e) => updateRegion(index, { [field]: Number(e.target.value) / 100 })}
+                            className="w-20 px-2 py-1 border border-gray-300 rounded-[8px] text-gray-900"
+                          />
+                        </label>
+                      ))}
+                      <button onClick={() => removeRegion(index)} className="text-xs underline text-gray-500">
+                        Remove
+                      </button>
+                    </div>
+                  ))}
+                  <button onClick={addRegion} className="text-sm underline text-gray-700">
+                    Add region
+                  </button>
+                </div>
+              ) : (
+                <div className="mb-4">
+                  <span className="block text-sm font-medium text-gray-700 mb-2">
+                    {draft.type === 'ranking' ? 'Variants (best first)' : 'Options (mark the correct one)'}
+                  </span>
+                  <div className="grid grid-cols-1 md:grid-cols-2 gap-4 mb-2">
+                    {draft.options.map((option, index) => (
+                      <div key={index} className="border border-gray-200 rounded-[8px] p-3">
+                        <div className="flex items-center justify-between mb-2">
+                          {draft.type === 'ranking' ? (
+                            <span className="text-sm text-gray-700">Rank {index + 1}</span>
+                          ) : (
+                            <label className="flex items-center gap-2 text-sm text-gray-700">
+                              <input
+                                type="radio"
+                                name="correctIndex"
+                                checked={draft.correctIndex === index}
+                                onChange={() => updateDraft({ correctIndex: index })}
+                              />
+                              Option {index + 1}{draft.correctIndex === index ? ' (correct)' : ''}
+                            </label>
+                          )}
+                          {draft.options.length > optionLimits(draft.type).min && (
+                            <button onClick={() => removeOption(index)} className="text-xs underline text-gray-500">
+                              Remove
+                            </button>
+                          )}
+                        </div>
+                        <input
+                          type="text"
+                          value={option}
+                          onChange={(e) => updateOption(index, e.target.value)}
+                          placeholder={draft.type === 'typeface' ? "'Georgia', serif" : '/api/uploads/image.png'}
+                          className="w-full px-4 py-2 border border-gray-300 rounded-[8px] text-gray-900 mb-2"
+                        />
+                        {draft.type !== 'typeface' && (
+                          <input
+                            type="file"
+                            accept="image/png,image/jpeg,image/webp,image/gif"
+                            disabled={uploading !== null}
+                            onChange={(e) => handleUpload(`option-${index}`, e.target.files?.[0], (path) => updateOption(index, path))}
+                            className="text-sm text-gray-600"
+                          />
+                        )}
+                        {uploading === `option-${index}` && <p className="text-xs text-gray-500 mt-1">Uploading...</p>}
+                      </div>
+                    ))}
+                  </div>
+                  {draft.options.length < optionLimits(draft.type).max && (
+                    <button onClick={addOption} className="text-sm underline text-gray-700">
+                      Add option
+                    </button>
+                  )}
+
+                  {/* Shown over the option images once the answer is revealed, stored as 0-1 fractions of the image */}
+                  {draft.type === 'image' && (
+                    <>
+                      <span className="block text-sm font-medium text-gray-700 mt-4 mb-2">Annotations (% of the image)</span>
+                      {draft.annotations.map((annotation, index) => (
+                        <div key={index} className="flex flex-wrap items-center gap-2 mb-2">
+                          <select
+                            value={annotation.option}
+                            onChange={(e) => updateAnnotation(index, { option: Number(e.target.value) })}
+                            className="px-2 py-1 border border-gray-300 rounded-[8px] text-sm text-gray-900"
+                          >
+                            {draft.options.map((_, option) => (
+                              <option key={option} value={option}>Option {option + 1}</option>
+                            ))}
+                          </select>
+                          <select
+                            value={annotation.kind}
+                            onChange={(e) => setAnnotationKind(index, e.target.value as QuestionAnnotation['kind'])}
+                            className="px-2 py-1 border border-gray-300 rounded-[8px] text-sm text-gray-900"
+                          >
+                            <option value="box">Box</option>
+                            <option value="arrow">Arrow</option>
+                            <option value="label">Label</option>
+                          </select>
+                          {ANNOTATION_FIELDS[annotation.kind].map(field => (
+                            <label key={field} className="flex items-center gap-1 text-xs text-gray-700">
+                              {field}
+                              <input
+                                type="number"
+                                min={0}
+                                max={100}
+                                value={Math.round((annotation[field] || 0) * 1000) / 10}
+                                onChange={(e) => updateAnnotation(index, { [field]: Number(e.target.value) / 100 })}
+                                className="w-20 px-2 py-1 border border-gray-300 rounded-[8px] text-gray-900"
+                              />
+                            </label>
+                          ))}
+                          <input
+                            type="text"
+                            value={annotation.label || ''}
+                            onChange={(e) => updateAnnotation(index, { label: e.target.value || undefined })}
+                            placeholder={annotation.kind === 'label' ? 'Label' : 'Label (optional)'}
+                            maxLength={MAX_ANNOTATION_LABEL}
+                            className="w-40 px-2 py-1 border border-gray-300 rounded-[8px] text-sm text-gray-900"
+                          />
+                          <button onClick={() => removeAnnotation(index)} className="text-xs underline text-gray-500">
+                            Remove
+                          </button>
+                        </div>
+                      ))}
+                      <button onClick={addAnnotation} className="block text-sm underline text-gray-700">
+                        Add annotation
+                      </button>
+                    </>
+                  )}
+                </div>
+              )}
+
+              {draft.type === 'typeface' && (
+                <div className="mb-4">
+                  <label className="block mb-4">
+                    <span className="block text-sm font-medium text-gray-700 mb-2">Sample text (defaults to the fox quote)</span>
+                    <textarea
+                      value={draft.sampleText}
+                      onChange={(e) => updateDraft({ sampleText: e.target.value })}
+                      rows={2}
+                      placeholder={foxQuote}
+                      className="w-full px-4 py-2 border border-gray-300 rounded-[8px] text-gray-900"
+                    />
+                  </label>
+
+                  {/* Font files are loaded before the question shows, so players never see a fallback face */}
+                  <span className="block text-sm font-medium text-gray-700 mb-2">Font files (self-hosted)</span>
+                  {draft.fonts.map((font, index) => (
+                    <div key={index} className="border border-gray-200 rounded-[8px] p-3 mb-2">
+                      <div className="grid grid-cols-1 md:grid-cols-4 gap-2 mb-2">
+                        <input
+                          type="text"
+                          value={font.family}
+                          onChange={(e) => updateFont(index, { family: e.target.value })}
+                          placeholder="EB Garamond"
+                          className="px-3 py-1.5 border border-gray-300 rounded-[8px] text-gray-900"
+                        />
+                        <input
+                          type="text"
+                          value={font.src}
+                          onChange={(e) => updateFont(index, { src: e.target.value })}
+                          placeholder="/fonts/eb-garamond.woff2"
+                          className="px-3 py-1.5 border border-gray-300 rounded-[8px] text-gray-900"
+                        />
+                        <input
+                          type="text"
+                          value={font.weight || ''}
+                          onChange={(e) => updateFont(index, { weight: e.target.value || undefined })}
+                          placeholder="Weight (400)"
+                          className="px-3 py-1.5 border border-gray-300 rounded-[8px] text-gray-900"
+                        />
+                        <input
+                          type="text"
+                          value={font.style || ''}
+                          onChange={(e) => updateFont(index, { style: e.target.value || undefined })}
+                          placeholder="Style (normal)"
+                          className="px-3 py-1.5 border border-gray-300 rounded-[8px] text-gray-900"
+                        />
+                      </div>
+                      <div className="flex items-center justify-between">
+                        <input
+                          type="file"
+                          accept=".woff2,.woff,.ttf,.otf"
+                          disabled={uploading !== null}
+                          onChange={(e) => handleUpload(`font-${index}`, e.target.files?.[0], (path) => updateFont(index, { src: path }))}
+                          className="text-sm text-gray-600"
+                        />
+                        <button onClick={() => removeFont(index)} className="text-xs underline text-gray-500">
+                          Remove
+                        </button>
+                      </div>
+                      {uploading === `font-${index}` && <p className="text-xs text-gray-500 mt-1">Uploading...</p>}
+                    </div>
+                  ))}
+                  <button onClick={addFont} className="text-sm underline text-gray-700">
+                    Add font file
+                  </button>
+                </div>
+              )}
+
+              <label className="block mb-4">
+                <span className="block text-sm font-medium text-gray-700 mb-2">Explanation</span>
+                <textarea
+                  value={draft.explanation}
+                  onChange={(e) => updateDraft({ explanation: e.target.value })}
+                  rows={3}
+                  className="w-full px-4 py-2 border border-gray-300 rounded-[8px] text-gray-900"
+                />
+              </label>
+
+              {/* Players see the English text for any field left blank */}
+              <span className="block text-sm font-medium text-gray-700 mb-2">Translations (optional - blank fields fall back to English)</span>
+              {TRANSLATED_LOCALES.map(locale => {
+                const translation = draft.translations[locale] || {}
+                return (
+                  <div key={locale} className="border border-gray-200 rounded-[8px] p-3 mb-4">
+                    <span className="block text-xs font-semibold text-gray-600 mb-2">{LOCALE_NAMES[locale]}</span>
+                    <input
+                      type="text"
+                      lang={locale}
+                      value={translation.prompt || ''}
+                      onChange={(e) => updateTranslation(locale, { prompt: e.target.value })}
+                      placeholder={draft.prompt}
+                      className="w-full px-3 py-2 mb-2 border border-gray-300 rounded-[8px] text-sm text-gray-900"
+                    />
+                    {draft.type === 'typeface' && (
+                      <textarea
+                        lang={locale}
+                        value={translation.sampleText || ''}
+                        onChange={(e) => updateTranslation(locale, { sampleText: e.target.value })}
+                        rows={2}
+                        placeholder={draft.sampleText || foxQuote}
+                        className="w-full px-3 py-2 mb-2 border border-gray-300 rounded-[8px] text-sm text-gray-900"
+                      />
+                    )}
+                    <textarea
+                      lang={locale}
+                      value={translation.explanation || ''}
+                      onChange={(e) => updateTranslation(locale, { explanation: e.target.value })}
+                      rows={2}
+                      placeholder={draft.explanation}
+                      className="w-full px-3 py-2 border border-gray-300 rounded-[8px] text-sm text-gray-900"
+                    />
+                  </div>
+                )
+              })}
+
+              {isNew && (
+                <label className="block mb-6">
+                  <span className="block text-sm font-medium text-gray-700 mb-2">Replaces (retired when this is saved)</span>
+                  <select
+                    value={replacesId}
+                    onChange={(e) => setReplacesId(e.target.value)}
+                    className="w-full px-4 py-2 border border-gray-300 rounded-[8px] text-gray-900"
+                  >
+                    <option value="">Nothing - add to the pool</option>
+                    {replaceCandidates.map(q => <option key={q.id} value={q.id}>{q.id}</option>)}
+                  </select>
+                </label>
+              )}
+
+              {saveErrors.length > 0 && (
+                <div className="mb-6 p-4 bg-red-50 border-l-4 border-red-500">
+                  {saveErrors.map((message, index) => (
+                    <p key={index} className="text-sm text-red-800">{message}</p>
+                  ))}
+                </div>
+              )}
+
+              {/* Preview - rendered with the same grid as the quiz */}
+              <div className="border-t border-gray-200 pt-6 mb-6">
+                <div className="flex items-center justify-between mb-4">
+                  <span className="text-sm font-medium text-gray-700">Preview</span>
+                  {draft.type !== 'hotspot' && (
+                    <button
+                      onClick={shufflePreview}
+                      className="px-3 py-1.5 text-xs font-medium rounded-[8px] bg-gray-100 text-gray-700 hover:bg-gray-200"
+                    >
+                      Shuffle
+                    </button>
+                  )}
+                </div>
+                <h2 className="text-lg sm:text-xl md:text-2xl font-normal text-center mb-6 sm:mb-8 px-2 text-gray-900">
+                  {draft.prompt}
+                </h2>
+                {draft.type === 'hotspot' ? (
+                  <HotspotImage
+                    image={draft.image}
+                    regions={draft.regions}
+                    clickPoint={previewClick}
+                    isCorrect={previewClick !== null && hitsHotspot(draft, previewClick)}
+                    coins={previewClick !== null && hitsHotspot(draft, previewClick) ? COINS_PER_QUESTION : 0}
+                    showExplanation={previewClick !== null}
+                    onSelect={setPreviewClick}
+                  />
+                ) : draft.type === 'ranking' ? (
+                  <RankingList
+                    items={previewOrder.map(index => ({ value: draft.options[index], originalIndex: index }))}
+                    credit={scoreRanking(previewOrder)}
+                    coins={Math.round(scoreRanking(previewOrder) * COINS_PER_QUESTION)}
+                    showExplanation={previewRanked}
+                    onReorder={(items) => setPreviewOrder(items.map(item => item.originalIndex))}
+                    onSubmit={() => setPreviewRanked(true)}
+                  />
+                ) : previewFonts !== 'ready' ? (
+                  <div className="mb-8 min-h-[250px] flex items-center justify-center">
+                    <p className={previewFonts === 'failed' ? 'text-red-500' : 'text-gray-500'}>
+                      {previewFonts === 'failed' ? 'Could not load the font files - check their paths' : 'Loading fonts...'}
+                    </p>
+                  </div>
+                ) : (
+                  <ComparisonGrid
+                    type={draft.type}
+                    sampleText={draft.sampleText.trim() || undefined}
+                    options={previewOrder.map(index => draft.options[index])}
+                    correctIndex={previewOrder.indexOf(draft.correctIndex)}
+                    selectedIndex={previewSelected}
+                    coins={previewSelected === previewOrder.indexOf(draft.correctIndex) ? COINS_PER_QUESTION : 0}
+                    showExplanation={previewSelected !== null}
+                    annotations={previewOrder.map(index => previewAnnotations[index] || [])}
+                    onSelect={(position) => {
+                      if (previewSelected === null) setPreviewSelected(position)
+                    }}
+                  />
+                )}
+                {(previewSelected !== null || previewClick !== null || previewRanked) && (
+                  <div className="mb-8 p-6 bg-green-50 border-l-4 border-green-500">
+                    <p className="text-gray-700 leading-relaxed">{draft.explanation}</p>
+                  </div>
+                )}
+              </div>
+
+              <div className="flex gap-3">
+                <button
+                  onClick={handleSave}
+                  disabled={saving}
+                  className="px-8 py-3 bg-black text-white font-normal hover:bg-gray-800 transition-colors rounded-[8px] disabled:opacity-50"
+                >
+                  {saving ? 'Saving...' : 'Save'}
+                </button>
+                <button
+                  onClick={() => setDraft(null)}
+                  className="px-8 py-3 bg-gray-100 text-gray-900 font-normal hover:bg-gray-200 transition-colors rounded-[8px]"
+                >
+                  Cancel
+                </button>
+              </div>
+            </div>
+          )}
+
+          {/* Question list */}
+          {loading ? (
+            <p className="text-gray-500">Loading questions...</p>
+          ) : (
+            <div className="bg-white border border-gray-200 rounded-[2rem] overflow-hidden">
+              <div className="overflow-x-auto">
+                <table className="w-full">
+                  <thead className="bg-gray-50">
+                    <tr>
+                      <th className="px-6 py-4 text-left text-sm font-semibold text-gray-700">Id</th>
+                      <th className="px-6 py-4 text-left text-sm font-semibold text-gray-700">Level</th>
+                      <th className="px-6 py-4 text-left text-sm font-semibold text-gray-700">Type</th>
+                      <th className="px-6 py-4 text-left text-sm font-semibold text-gray-700">Principles</th>
+                      <th className="px-6 py-4 text-left text-sm font-semibold text-gray-700">Accuracy by version</th>
+                      <th className="px-6 py-4 text-right text-sm font-semibold text-gray-700">Actions</th>
+                    </tr>
+                  </thead>
+                  <tbody className="divide-y divide-gray-100">
+                    {questions.map(question => (
+                      <tr key={question.id} className={question.retired ? 'bg-gray-50 text-gray-400' : 'hover:bg-gray-50'}>
+                        <td className="px-6 py-3 text-sm">
+                          {question.id}
+                          <span className="ml-2 text-xs text-gray-400">v{question.version || 1}</span>
+                          {question.retired && (
+                            <span className="ml-2 text-xs px-2 py-0.5 bg-gray-200 text-gray-600 rounded-full">retired</span>
+                          )}
+                        </td>
+                        <td className="px-6 py-3 text-sm">{question.difficulty}</td>
+                        <td className="px-6 py-3 text-sm">{question.type}</td>
+                        <td className="px-6 py-3 text-sm">{question.principles.join(', ')}</td>
+                        <td className="px-6 py-3 text-sm">
+                          {versionStats.filter(stats => stats.questionId === question.id).map(stats => (
+                            <div key={stats.version} className={stats.version === question.version ? '' : 'text-gray-400'}>
+                              v{stats.version}: {Math.round((stats.correct / stats.answered) * 100)}% of {stats.answered}
+                              {stats.medianResponseMs !== null && `, ${(stats.medianResponseMs / 1000).toFixed(1)}s median`}
+                            </div>
+                          ))}
+                        </td>
+                        <td className="px-6 py-3 text-right text-sm whitespace-nowrap">
+                          <button
+                            onClick={() => {
+                              openEditor(toDraft(question), question.retired, false)
+                            }}
+                            className="underline mr-4 text-gray-900"
+                          >
+                            Edit
+                          </button>
+                          <button
+                            onClick={() => handleToggleRetired(question)}
+                            disabled={saving}
+                            className="underline text-gray-900 disabled:opacity-50"
+                          >
+                            {question.retired ? 'Restore' : 'Retire'}
+                          </button>
+                        </td>
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              </div>
+            </div>
+          )}
+        </div>
+      </main>
+    </>
+  )
+}
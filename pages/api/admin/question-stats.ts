@@ -0,0 +1,30 @@
+import type { NextApiRequest, NextApiResponse } from 'next'
+import { requireAdmin } from '../../../lib/adminAuth'
+import { getVersionStats } from '../../../lib/questionBank'
+
+/**
+ * Admin API for per-question answer statistics
+ * GET returns answer counts for every answered question version
+ */
+export default async function handler(
+  req: NextApiRequest,
+  res: NextApiResponse
+) {
+  if (!requireAdmin(req, res)) return
+
+  try {
+    if (req.method !== 'GET') {
+      res.setHeader('Allow', ['GET'])
+      return res.status(405).json({ error: 'Method not allowed' })
+    }
+
+    const stats = await getVersionStats()
+    res.status(200).json(stats)
+  } catch (error) {
+    console.error('Admin question stats API error:', error)
+    res.status(500).json({
+      error: 'Internal server error',
+      message: error instanceof Error ? error.message : 'Unknown error'
+    })
+  }
+}
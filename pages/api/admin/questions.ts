@@ -0,0 +1,91 @@
+import type { NextApiRequest, NextApiResponse } from 'next'
+import { requireAdmin } from '../../../lib/adminAuth'
+import { createQuestion, getAllQuestions, updateQuestion, AdminQuestion } from '../../../lib/questionBank'
+import { toQuestion, validateQuestionBank, validateQuestionInput } from '../../../lib/quiz'
+
+// Run the same checks the quiz runs at load time against the pool a change would produce
+// Returns the error message, or null if the resulting pool is valid
+function checkResultingPool(questions: AdminQuestion[]): string | null {
+  try {
+    validateQuestionBank(questions.filter(q => !q.retired))
+    return null
+  } catch (error) {
+    return error instanceof Error ? error.message : 'Unknown error'
+  }
+}
+
+/**
+ * Admin API for authoring questions
+ * GET lists every question, POST creates one, PUT edits or retires one
+ * Editing a question's content saves it as a new version - past answers keep the version they were given against
+ * Changes that would leave the active pool invalid are rejected with 422
+ */
+export default async function handler(
+  req: NextApiRequest,
+  res: NextApiResponse
+) {
+  if (!requireAdmin(req, res)) return
+
+  try {
+    if (req.method === 'GET') {
+      const questions = await getAllQuestions()
+      return res.status(200).json(questions)
+    }
+
+    if (req.method === 'POST' || req.method === 'PUT') {
+      const { question: input, replacesId, retired = false } = req.body || {}
+
+      const problems = validateQuestionInput(input)
+      if (problems.length > 0) {
+        return res.status(400).json({ error: 'Invalid question', problems })
+      }
+
+      const question = toQuestion(input)
+      const existing = await getAllQuestions()
+      const current = existing.find(q => q.id === question.id)
+
+      if (req.method === 'POST') {
+        if (current) {
+          return res.status(409).json({ error: `Question ${question.id} already exists` })
+        }
+        if (replacesId && !existing.some(q => q.id === replacesId && !q.retired)) {
+          return res.status(404).json({ error: `Active question ${replacesId} not found` })
+        }
+
+        const poolError = checkResultingPool([
+          ...existing.map(q => q.id === replacesId ? { ...q, retired: true } : q),
+          { ...question, retired: false },
+        ])
+        if (poolError) {
+          return res.status(422).json({ error: 'Question bank would be invalid', message: poolError })
+        }
+
+        await createQuestion(question, { replacesId: replacesId || undefined })
+        return res.status(201).json({ ...question, version: 1, retired: false })
+      }
+
+      if (!current) {
+        return res.status(404).json({ error: `Question ${question.id} not found` })
+      }
+
+      const poolError = checkResultingPool(
+        existing.map(q => q.id === question.id ? { ...question, retired: !!retired } : q)
+      )
+      if (poolError) {
+        return res.status(422).json({ error: 'Question bank would be invalid', message: poolError })
+      }
+
+      const version = await updateQuestion(question, !!retired)
+      return res.status(200).json({ ...question, version, retired: !!retired })
+    }
+
+    res.setHeader('Allow', ['GET', 'POST', 'PUT'])
+    res.status(405).json({ error: 'Method not allowed' })
+  } catch (error) {
+    console.error('Admin questions API error:', error)
+    res.status(500).json({
+      error: 'Internal server error',
+      message: error instanceof Error ? error.message : 'Unknown error'
+    })
+  }
+}
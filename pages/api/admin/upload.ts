@@ -0,0 +1,87 @@
+import type { NextApiRequest, NextApiResponse } from 'next'
+import path from 'path'
+import { requireAdmin } from '../../../lib/adminAuth'
+import { saveUpload, uploadContentType, uploadPath } from '../../../lib/uploads'
+
+// Images arrive as base64 data URLs, so allow bodies a bit larger than the image itself
+export const config = {
+  api: {
+    bodyParser: {
+      sizeLimit: '8mb',
+    },
+  },
+}
+
+const ALLOWED_TYPES: Record<string, string> = {
+  'image/png': 'png',
+  'image/jpeg': 'jpg',
+  'image/webp': 'webp',
+  'image/gif': 'gif',
+  'font/woff2': 'woff2',
+  'font/woff': 'woff',
+  'font/ttf': 'ttf',
+  'font/otf': 'otf',
+}
+
+// Browsers often report font files without a font MIME type, so fall back to the file extension
+const FONT_EXTENSIONS = ['woff2', 'woff', 'ttf', 'otf']
+
+function uploadExtension(mimeType: string, filename: string): string | undefined {
+  if (ALLOWED_TYPES[mimeType]) return ALLOWED_TYPES[mimeType]
+  const extension = path.extname(filename).slice(1).toLowerCase()
+  if (mimeType === 'application/octet-stream' && FONT_EXTENSIONS.includes(extension)) {
+    return extension
+  }
+  return undefined
+}
+
+/**
+ * Admin API for uploading question images and typeface font files
+ * Expects { filename, dataUrl } and returns the path to use in the question, served by /api/uploads/<name>
+ */
+export default async function handler(
+  req: NextApiRequest,
+  res: NextApiResponse
+) {
+  if (!requireAdmin(req, res)) return
+
+  try {
+    if (req.method !== 'POST') {
+      res.setHeader('Allow', ['POST'])
+      return res.status(405).json({ error: 'Method not allowed' })
+    }
+
+    const { filename, dataUrl } = req.body || {}
+    const match = typeof dataUrl === 'string' ? /^data:([\w/+.-]+);base64,(.+)$/.exec(dataUrl) : null
+
+    if (!match || typeof filename !== 'string') {
+      return res.status(400).json({ error: 'filename and a base64 dataUrl are required' })
+    }
+
+    const extension = uploadExtension(match[1], filename)
+    if (!extension) {
+      return res.status(400).json({ error: `Unsupported file type: ${match[1]}` })
+    }
+
+    // Keep a readable, URL-safe name and add a timestamp so uploads never overwrite each other
+    const baseName = path.parse(filename).name
+      .toLowerCase()
+      .replace(/[^a-z0-9]+/g, '-')
+      .replace(/^-+|-+$/g, '') || 'image'
+    const storedName = `${baseName}-${Date.now()}.${extension}`
+
+    // Served with the type of its extension, since browsers report some fonts as application/octet-stream
+    const saved = await saveUpload(storedName, uploadContentType(storedName) as string, Buffer.from(match[2], 'base64'))
+    if (!saved) {
+      return res.status(409).json({ error: 'An upload with this name was just stored - try again' })
+    }
+
+    res.status(201).json({ path: uploadPath(storedName) })
+  } catch (error) {
+    console.error('Admin upload API error:', error)
+    res.status(500).json({
+      error: 'Internal server error',
+      message: error instanceof Error ? error.message : 'Unknown error'
+    })
+  }
+}
@@ -1,5 +1,10 @@
 import type { NextApiRequest, NextApiResponse } from 'next'
-import { query } from '../../lib/db'
+import { dailyDate, isDailyDate, matchesDailyChallenge } from '../../lib/daily'
+import { query, transaction } from '../../lib/db'
+import { getSession, SessionMode } from '../../lib/quizSessions'
+import { playerKey } from '../../lib/ratings'
+import { defaultScoringRule, ScoringRule } from '../../lib/scoring'
+import { SESSION_TEMPLATES } from '../../lib/sessionTemplates'
 
 export interface LeaderboardEntry {
   id: string
@@ -8,10 +13,28 @@ export interface LeaderboardEntry {
   accuracy: number
   timeTaken: number // in seconds
   level: 'beginner' | 'mid' | 'expert' | 'all'
+  mode: SessionMode
+  // Rule set the session was scored with
+  scoring: ScoringRule
+  // Daily challenge entries: the challenge's date
+  dailyDate: string | null
   timestamp: number
   twitterHandle?: string | null
 }
 
+// Modes whose sessions deal every player comparable questions, each ranked on its own leaderboard
+const RANKED_MODES: SessionMode[] = ['classic', 'blitz', 'daily']
+
+const ENTRY_COLUMNS = `id, name, score, accuracy, time_taken as "timeTaken", level, mode, scoring, daily_date as "dailyDate", timestamp, twitter_handle as "twitterHandle"`
+
+// A leaderboard entry is requested for a completed quiz session
+// Score, accuracy and time are worked out from the session, never taken from the client
+export interface LeaderboardSubmission {
+  sessionId: string
+  name: string
+  twitterHandle?: string | null
+}
+
 export default async function handler(
   req: NextApiRequest,
   res: NextApiResponse
@@ -50,7 +73,7 @@ export default async function handler(
     console.log('DATABASE_URL is set, length:', process.env.DATABASE_URL.length)
 
     if (req.method === 'GET') {
-      const { level = 'all', debug } = req.query
+      const { level, mode, scoring, date, debug } = req.query
       
       // If debug mode, return diagnostic info
       if (debug === 'true') {
@@ -64,75 +87,139 @@ export default async function handler(
         })
       }
       
-      let sql: string
-      let params: any[] = []
-      
-      if (level === 'all' || level === 'global') {
-        // Get all entries, sorted by score DESC, accuracy DESC, time_taken ASC
-        sql = `
-          SELECT id, name, score, accuracy, time_taken as "timeTaken", level, timestamp, twitter_handle as "twitterHandle"
-          FROM leaderboard
-          ORDER BY score DESC, accuracy DESC, time_taken ASC
-        `
-      } else {
-        // Filter by level
-        sql = `
-          SELECT id, name, score, accuracy, time_taken as "timeTaken", level, timestamp, twitter_handle as "twitterHandle"
-          FROM leaderboard
-          WHERE level = $1
-          ORDER BY score DESC, accuracy DESC, time_taken ASC
-        `
-        params = [level]
+      // No filters gets all entries, sorted by score DESC, accuracy DESC, time_taken ASC
+      const conditions: string[] = []
+      const params: any[] = []
+      if (level) {
+        // 'global' (or 'all') is full sessions across every level,
+        // so single-level practice scores are only ranked against each other
+        params.push(level === 'global' ? 'all' : level)
+        conditions.push(`level = $${params.length}`)
+      }
+      if (level || mode || scoring) {
+        // Blitz sessions play to a countdown, so each mode is ranked on its own - classic unless asked
+        const rankedMode = (mode || 'classic') as SessionMode
+        params.push(rankedMode)
+        conditions.push(`mode = $${params.length}`)
+        // Scores from different rule sets aren't comparable either - the mode's default rule set unless asked
+        params.push(scoring || defaultScoringRule(rankedMode))
+        conditions.push(`scoring = $${params.length}`)
+        // Daily challenges are ranked a day at a time - today's unless asked
+        if (rankedMode === 'daily') {
+          params.push(isDailyDate(date) ? date : dailyDate())
+          conditions.push(`daily_date = $${params.length}`)
+        }
       }
       
+      const sql = `
+        SELECT ${ENTRY_COLUMNS}
+        FROM leaderboard
+        ${conditions.length > 0 ? `WHERE ${conditions.join(' AND ')}` : ''}
+        ORDER BY score DESC, accuracy DESC, time_taken ASC
+      `
+      
       const result = await query(sql, params)
       const entries: LeaderboardEntry[] = result.rows
       
       res.status(200).json(entries)
       
     } else if (req.method === 'POST') {
-      const entry: LeaderboardEntry = req.body
+      const submission: LeaderboardSubmission = req.body || {}
       
       // Validate entry
-      if (!entry.name || entry.score === undefined || entry.accuracy === undefined || entry.timeTaken === undefined) {
+      if (typeof submission.sessionId !== 'string' || typeof submission.name !== 'string' || !submission.name.trim()) {
         return res.status(400).json({ error: 'Missing required fields' })
       }
       
-      // Validate level
-      if (!['beginner', 'mid', 'expert', 'all'].includes(entry.level)) {
-        return res.status(400).json({ error: 'Invalid level' })
+      const session = await getSession(submission.sessionId)
+      if (!session) {
+        return res.status(404).json({ error: 'Session not found or expired' })
+      }
+      if (session.startedAt === null || session.completedAt === null) {
+        return res.status(409).json({ error: 'Session is not complete' })
       }
+      // Adaptive and review sessions deal each player different questions, so their scores aren't comparable
+      if (!RANKED_MODES.includes(session.mode)) {
+        return res.status(400).json({ error: `Only ${RANKED_MODES.join(', ')} sessions can be entered on the leaderboard` })
+      }
+      // Templates other than the standard ones deal a different mix of questions
+      if (session.template && !SESSION_TEMPLATES[session.template].ranked) {
+        return res.status(400).json({ error: `Sessions from the ${session.template} template can't be entered on the leaderboard` })
+      }
+      // A replay's questions could have been looked at before it was played
+      if (session.replay) {
+        return res.status(400).json({ error: 'Replayed sessions can\'t be entered on the leaderboard' })
+      }
+      // A session gives one entry - checked again below, in the transaction that claims it
+      if (session.leaderboardId) {
+        return res.status(409).json({ error: 'Session already has a leaderboard entry' })
+      }
+      // One attempt per player a day only holds if the entry goes under the player who started the session
+      if (session.mode === 'daily' && playerKey(submission.name, submission.twitterHandle) !== session.playerKey) {
+        return res.status(403).json({ error: 'Daily entries must be submitted by the player who started the session' })
+      }
+      // A daily entry must have played that day's challenge, as the session stored it when it was dealt
+      if (session.mode === 'daily' && (!session.dailyDate || !matchesDailyChallenge(session, session.dailyDate))) {
+        return res.status(409).json({ error: 'Session does not match the daily challenge' })
+      }
+      
+      // Everything scored comes from the session the server dealt and marked
+      // Accuracy counts credit only, whatever the rule set added or took away
+      const score = session.score
+      const credit = session.results.reduce((sum, result) => sum + result.reveal.credit, 0)
+      const accuracy = Math.round((credit / session.questions.length) * 100)
+      const timeTaken = Math.floor((session.completedAt - session.startedAt) / 1000)
+      // Single-level practice goes on that level's leaderboard
+      const level = session.level || 'all'
       
       // Generate ID and timestamp
       const id = `${Date.now()}-${Math.random().toString(36).substr(2, 9)}`
       const timestamp = Date.now()
       
-      // Insert into database
+      // Insert into database - the seed is kept with the entry but not published, since it deals the same questions again
       const insertSQL = `
-        INSERT INTO leaderboard (id, name, score, accuracy, time_taken, level, timestamp, twitter_handle)
-        VALUES ($1, $2, $3, $4, $5, $6, $7, $8)
-        RETURNING id, name, score, accuracy, time_taken as "timeTaken", level, timestamp, twitter_handle as "twitterHandle"
+        INSERT INTO leaderboard (id, name, score, accuracy, time_taken, level, mode, scoring, daily_date, seed, timestamp, twitter_handle)
+        VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10, $11, $12)
+        RETURNING ${ENTRY_COLUMNS}
       `
       
       // Normalize Twitter handle (remove @ if present, add it back)
-      const twitterHandle = entry.twitterHandle 
-        ? entry.twitterHandle.startsWith('@') 
-          ? entry.twitterHandle 
-          : `@${entry.twitterHandle}`
+      const twitterHandle = typeof submission.twitterHandle === 'string' && submission.twitterHandle 
+        ? submission.twitterHandle.startsWith('@') 
+          ? submission.twitterHandle 
+          : `@${submission.twitterHandle}`
         : null
       
-      const result = await query(insertSQL, [
-        id,
-        entry.name,
-        entry.score,
-        entry.accuracy,
-        entry.timeTaken,
-        entry.level,
-        timestamp,
-        twitterHandle
-      ])
-      
-      const newEntry: LeaderboardEntry = result.rows[0]
+      // Claim the session for this entry in the same transaction, so a session gives at most one entry
+      const newEntry: LeaderboardEntry | null = await transaction(async (client) => {
+        const locked = await client.query(
+          'SELECT leaderboard_id FROM quiz_sessions WHERE id = $1 FOR UPDATE',
+          [session.id]
+        )
+        if (locked.rows[0].leaderboard_id) return null
+        
+        const result = await client.query(insertSQL, [
+          id,
+          submission.name,
+          score,
+          accuracy,
+          timeTaken,
+          level,
+          session.mode,
+          session.scoring,
+          session.dailyDate,
+          session.seed,
+          timestamp,
+          twitterHandle
+        ])
+        await client.query('UPDATE quiz_sessions SET leaderboard_id = $1 WHERE id = $2', [id, session.id])
+        // The session's answers were stored as they were given - link them to the entry for principle breakdowns
+        await client.query('UPDATE answers SET leaderboard_id = $1 WHERE session_id = $2', [id, session.id])
+        return result.rows[0]
+      })
+      if (!newEntry) {
+        return res.status(409).json({ error: 'Session already has a leaderboard entry' })
+      }
       
       res.status(201).json(newEntry)
       
@@ -0,0 +1,30 @@
+import type { NextApiRequest, NextApiResponse } from 'next'
+import { getQuestionBank } from '../../lib/questionBank'
+
+/**
+ * API endpoint for the custom quiz builder
+ * Returns the difficulty, type and principles of every active question - nothing of its content or answer -
+ * so the builder can show how many questions each choice of filters leaves
+ */
+export default async function handler(
+  req: NextApiRequest,
+  res: NextApiResponse
+) {
+  try {
+    if (req.method !== 'GET') {
+      res.setHeader('Allow', ['GET'])
+      return res.status(405).json({ error: 'Method not allowed' })
+    }
+
+    const pool = await getQuestionBank()
+    const tags = pool.map(({ difficulty, type, principles }) => ({ difficulty, type, principles }))
+
+    res.status(200).json(tags)
+  } catch (error) {
+    console.error('Question tags API error:', error)
+    res.status(500).json({
+      error: 'Internal server error',
+      message: error instanceof Error ? error.message : 'Unknown error'
+    })
+  }
+}
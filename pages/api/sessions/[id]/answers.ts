@@ -0,0 +1,69 @@
+import type { NextApiRequest, NextApiResponse } from 'next'
+import { isValidAnswer, toPublicQuestion } from '../../../../lib/quiz'
+import { answerSessionQuestion, getSession } from '../../../../lib/quizSessions'
+
+/**
+ * Answer a session's next question
+ * Body: { index, answer, responseTimeMs } - index must be the next unanswered question, so each is answered once and in order
+ * Every answer is stored in the answers table as it is given, with the option picked and where it was shown
+ * Returns the reveal (correct option, explanation, ...), the coins the answer earned under the session's rule set,
+ * the session's score so far and whether that completed it -
+ * with the session's seed once it has, so the player can replay it
+ * Adaptive sessions also get the next question, if there is one, and the player's updated skill estimate
+ * Blitz sessions answer the question they were last sent - answer null when its countdown runs out
+ */
+export default async function handler(
+  req: NextApiRequest,
+  res: NextApiResponse
+) {
+  try {
+    if (req.method !== 'POST') {
+      res.setHeader('Allow', ['POST'])
+      return res.status(405).json({ error: 'Method not allowed' })
+    }
+
+    const session = await getSession(String(req.query.id))
+    if (!session) {
+      return res.status(404).json({ error: 'Session not found or expired' })
+    }
+    if (session.startedAt === null) {
+      return res.status(409).json({ error: 'Session has not started' })
+    }
+    if (session.completedAt !== null) {
+      return res.status(409).json({ error: 'Session is already complete' })
+    }
+
+    const { index, answer, responseTimeMs } = req.body || {}
+    if (index !== session.results.length) {
+      return res.status(409).json({ error: `Question ${index} is not the next question to answer` })
+    }
+    if (session.shownCount !== null && index >= session.shownCount) {
+      return res.status(409).json({ error: `Question ${index} has not been sent yet` })
+    }
+    const timedOut = session.mode === 'blitz' && answer === null
+    if (!timedOut && !isValidAnswer(session.questions[index], answer)) {
+      return res.status(400).json({ error: 'Invalid answer' })
+    }
+
+    const answered = await answerSessionQuestion(session, answer, responseTimeMs)
+    if (!answered) {
+      return res.status(409).json({ error: `Question ${index} has already been answered` })
+    }
+
+    res.status(200).json({
+      reveal: answered.result.reveal,
+      coins: answered.result.coins,
+      score: answered.score,
+      completed: answered.completed,
+      seed: answered.completed ? session.seed : null,
+      next: answered.next ? toPublicQuestion(answered.next, session.id, index + 1) : null,
+      skill: answered.skill,
+    })
+  } catch (error) {
+    console.error('Session answers API error:', error)
+    res.status(500).json({
+      error: 'Internal server error',
+      message: error instanceof Error ? error.message : 'Unknown error'
+    })
+  }
+}
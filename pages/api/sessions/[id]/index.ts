@@ -0,0 +1,31 @@
+import type { NextApiRequest, NextApiResponse } from 'next'
+import { getSession, toPublicSession } from '../../../../lib/quizSessions'
+
+/**
+ * Load a session to resume it
+ * Returns the questions and the results of every question already answered
+ */
+export default async function handler(
+  req: NextApiRequest,
+  res: NextApiResponse
+) {
+  try {
+    if (req.method !== 'GET') {
+      res.setHeader('Allow', ['GET'])
+      return res.status(405).json({ error: 'Method not allowed' })
+    }
+
+    const session = await getSession(String(req.query.id))
+    if (!session) {
+      return res.status(404).json({ error: 'Session not found or expired' })
+    }
+
+    res.status(200).json(toPublicSession(session))
+  } catch (error) {
+    console.error('Session API error:', error)
+    res.status(500).json({
+      error: 'Internal server error',
+      message: error instanceof Error ? error.message : 'Unknown error'
+    })
+  }
+}
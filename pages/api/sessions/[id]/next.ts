@@ -0,0 +1,56 @@
+import type { NextApiRequest, NextApiResponse } from 'next'
+import { toPublicQuestion } from '../../../../lib/quiz'
+import { blitzTimeLeft, getSession, showNextQuestion } from '../../../../lib/quizSessions'
+
+/**
+ * Send a blitz session its next question, once the current one is answered, and start its countdown
+ * Calling it again before that question is answered returns it with the time it has left,
+ * so reloading the page never resets the countdown
+ * Returns { index, question, timeLeftMs }
+ */
+export default async function handler(
+  req: NextApiRequest,
+  res: NextApiResponse
+) {
+  try {
+    if (req.method !== 'POST') {
+      res.setHeader('Allow', ['POST'])
+      return res.status(405).json({ error: 'Method not allowed' })
+    }
+
+    let session = await getSession(String(req.query.id))
+    if (!session) {
+      return res.status(404).json({ error: 'Session not found or expired' })
+    }
+    if (session.mode !== 'blitz' || session.shownCount === null) {
+      return res.status(409).json({ error: 'Only blitz sessions are sent questions one at a time' })
+    }
+    if (session.startedAt === null) {
+      return res.status(409).json({ error: 'Session has not started' })
+    }
+    if (session.completedAt !== null) {
+      return res.status(409).json({ error: 'Session is already complete' })
+    }
+
+    if (session.results.length >= session.shownCount) {
+      // Another request may have sent it first - either way, the question is out now
+      session = (await showNextQuestion(session)) || (await getSession(session.id))
+      if (!session || session.shownCount === null) {
+        return res.status(404).json({ error: 'Session not found or expired' })
+      }
+    }
+
+    const index = session.shownCount - 1
+    res.status(200).json({
+      index,
+      question: toPublicQuestion(session.questions[index], session.id, index),
+      timeLeftMs: blitzTimeLeft(session),
+    })
+  } catch (error) {
+    console.error('Session next API error:', error)
+    res.status(500).json({
+      error: 'Internal server error',
+      message: error instanceof Error ? error.message : 'Unknown error'
+    })
+  }
+}
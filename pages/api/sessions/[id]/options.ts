@@ -0,0 +1,67 @@
+import type { NextApiRequest, NextApiResponse } from 'next'
+import path from 'path'
+import { readAsset } from '../../../../lib/questionPack'
+import { getQuestionOptions } from '../../../../lib/quiz'
+import { getSession } from '../../../../lib/quizSessions'
+
+const IMAGE_TYPES: Record<string, string> = {
+  '.png': 'image/png',
+  '.jpg': 'image/jpeg',
+  '.jpeg': 'image/jpeg',
+  '.webp': 'image/webp',
+  '.gif': 'image/gif',
+  '.svg': 'image/svg+xml',
+}
+
+/**
+ * Serve the image of one of a session's options: ?question=<index>&position=<display position>
+ * Questions hold the URL of this endpoint rather than the file's path, which could give the correct option away
+ * Only questions the session has been sent can be asked for, and none before it starts
+ */
+export default async function handler(
+  req: NextApiRequest,
+  res: NextApiResponse
+) {
+  try {
+    if (req.method !== 'GET') {
+      res.setHeader('Allow', ['GET'])
+      return res.status(405).json({ error: 'Method not allowed' })
+    }
+
+    const session = await getSession(String(req.query.id))
+    if (!session) {
+      return res.status(404).json({ error: 'Session not found or expired' })
+    }
+    if (session.startedAt === null) {
+      return res.status(409).json({ error: 'Session has not started' })
+    }
+
+    const index = Number(req.query.question)
+    const position = Number(req.query.position)
+    const sent = session.shownCount === null ? session.questions.length : session.shownCount
+    const dealt = Number.isInteger(index) && index >= 0 && index < sent ? session.questions[index] : null
+    if (!dealt || dealt.question.type === 'hotspot' || dealt.question.type === 'typeface' ||
+      !Number.isInteger(position) || position < 0 || position >= dealt.optionOrder.length) {
+      return res.status(404).json({ error: 'Option image not found' })
+    }
+
+    // Uploads are read from the database, and bundled images from public/
+    const src = getQuestionOptions(dealt.question).options[dealt.optionOrder[position]]
+    const contentType = IMAGE_TYPES[path.extname(src).toLowerCase()]
+    const data = contentType ? await readAsset(src) : null
+    if (!data) {
+      return res.status(404).json({ error: 'Option image not found' })
+    }
+
+    // The URL always points at the same image, but only this session's player should have it
+    res.setHeader('Content-Type', contentType)
+    res.setHeader('Cache-Control', 'private, max-age=86400')
+    res.status(200).send(data)
+  } catch (error) {
+    console.error('Session options API error:', error)
+    res.status(500).json({
+      error: 'Internal server error',
+      message: error instanceof Error ? error.message : 'Unknown error'
+    })
+  }
+}
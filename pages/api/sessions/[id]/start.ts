@@ -0,0 +1,51 @@
+import type { NextApiRequest, NextApiResponse } from 'next'
+import { blitzTimeLeft, getSession, sentQuestions, startSession } from '../../../../lib/quizSessions'
+import { getPlayerRating, playerKey } from '../../../../lib/ratings'
+import { skillPrior } from '../../../../lib/skill'
+
+/**
+ * Start a session's clock once the player begins playing
+ * Body: { name, twitterHandle } - who is playing, so adaptive sessions can start from their rating
+ * Calling it again keeps the original start time, so resuming never resets the timer
+ * Returns the session's questions, which are only sent once its clock is running
+ * Blitz sessions also get how long is left on their first question's countdown
+ * Daily sessions need the player, who gets one attempt at each day's challenge
+ */
+export default async function handler(
+  req: NextApiRequest,
+  res: NextApiResponse
+) {
+  try {
+    if (req.method !== 'POST') {
+      res.setHeader('Allow', ['POST'])
+      return res.status(405).json({ error: 'Method not allowed' })
+    }
+
+    const session = await getSession(String(req.query.id))
+    if (!session) {
+      return res.status(404).json({ error: 'Session not found or expired' })
+    }
+
+    const { name, twitterHandle } = req.body || {}
+    const key = playerKey(
+      typeof name === 'string' ? name : null,
+      typeof twitterHandle === 'string' ? twitterHandle : null
+    )
+    if (session.mode === 'daily' && !key) {
+      return res.status(400).json({ error: 'Name or Twitter handle required' })
+    }
+    const prior = session.mode === 'adaptive' ? skillPrior(key ? await getPlayerRating(key) : null) : null
+
+    const started = await startSession(session.id, { playerKey: key, prior })
+    if (!started) {
+      return res.status(409).json({ error: 'Player has already played this daily challenge' })
+    }
+    res.status(200).json({ startedAt: started.startedAt, timeLeftMs: blitzTimeLeft(started), questions: sentQuestions(started) })
+  } catch (error) {
+    console.error('Session start API error:', error)
+    res.status(500).json({
+      error: 'Internal server error',
+      message: error instanceof Error ? error.message : 'Unknown error'
+    })
+  }
+}
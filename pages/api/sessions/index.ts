@@ -0,0 +1,169 @@
+import type { NextApiRequest, NextApiResponse } from 'next'
+import type { Question } from '../../../data/quizData'
+import { CUSTOM_MAX_QUESTIONS, CUSTOM_MIN_QUESTIONS, dealCustomQuestions, parseCustomQuiz } from '../../../lib/customQuiz'
+import { dailyDate, dailySeed, isDailySeed } from '../../../lib/daily'
+import { getQuestionBank } from '../../../lib/questionBank'
+import { getPlayerHistory, getSeedHistory, mergeHistories, parseHistory } from '../../../lib/questionHistory'
+import { dealQuestion, dealSeededQuestions, DealtQuestion, SeenQuestions, validateQuestions } from '../../../lib/quiz'
+import { createSession, markSeedReplayed, newSeed, SessionMode, toPublicSession } from '../../../lib/quizSessions'
+import { dealAdaptiveQuestion, playerKey } from '../../../lib/ratings'
+import { getDueQuestionIds } from '../../../lib/reviewCards'
+import { defaultScoringRule, modeScoringRules, ScoringRule } from '../../../lib/scoring'
+import { SESSION_TEMPLATES, sessionTemplate, TEMPLATE_IDS, templateLevel } from '../../../lib/sessionTemplates'
+import { DEFAULT_SKILL } from '../../../lib/skill'
+import { REVIEW_SESSION_SIZE } from '../../../lib/spacedRepetition'
+
+const MODES: SessionMode[] = ['classic', 'adaptive', 'review', 'blitz', 'daily', 'custom']
+const LEVELS: Question['difficulty'][] = ['beginner', 'mid', 'expert']
+const SEED_PATTERN = /^[\w:-]{1,64}$/
+// Modes dealt from a new seed unless given one to replay, and from the player's question history
+const REPLAYABLE_MODES: SessionMode[] = ['classic', 'blitz', 'custom']
+
+/**
+ * Start a new quiz session
+ * Body: { mode, level, template, scoring, seed, seen, custom, name, twitterHandle } - mode is 'classic' (the default), 'adaptive',
+ * 'review', 'blitz', 'daily' or 'custom'
+ * scoring names the rule set every answer is scored with - by default 'timed' for blitz sessions and 'classic' otherwise
+ * Only blitz sessions can be scored 'timed', since only their answers are timed by the server
+ * Classic, blitz and daily sessions are dealt stage by stage from a session template (lib/sessionTemplates.ts) -
+ * classic sessions given a level play only that level's pool, for single-level practice, and those given a template its stages
+ * The server picks the questions and their option order, and keeps the answers -
+ * the player gets the questions without anything that gives the answer away, and only from /start, once the clock is running
+ * Adaptive sessions are dealt their first question here and the rest one at a time as they are answered
+ * Review sessions are dealt the player's missed questions that are due, so they need name or twitterHandle
+ * Blitz sessions are dealt like classic ones, but only their first question is returned - the rest come from /next
+ * Daily sessions are dealt today's challenge (UTC), the same questions and option order for every player, scored the classic way
+ * Custom sessions are dealt custom.count questions from the bank narrowed by custom's levels, types and principles
+ * Classic, blitz, daily and custom sessions are dealt from a seed, kept with the session - classic, blitz and custom sessions
+ * given the seed of an earlier session replay its questions and option order exactly, and are kept off the leaderboard -
+ * as are unfinished sessions dealt from that seed, and a session's seed is only returned once it is finished
+ * Otherwise they prefer questions the player hasn't seen, or saw longest ago: seen is this device's history
+ * ({ questionId: epoch ms }), merged with the server's history for the player named by name or twitterHandle
+ */
+export default async function handler(
+  req: NextApiRequest,
+  res: NextApiResponse
+) {
+  try {
+    if (req.method !== 'POST') {
+      res.setHeader('Allow', ['POST'])
+      return res.status(405).json({ error: 'Method not allowed' })
+    }
+
+    const mode: SessionMode = req.body?.mode ?? 'classic'
+    if (!MODES.includes(mode)) {
+      return res.status(400).json({ error: `mode must be one of: ${MODES.join(', ')}` })
+    }
+
+    const level: Question['difficulty'] | null = req.body?.level ?? null
+    if (level !== null && (mode !== 'classic' || !LEVELS.includes(level))) {
+      return res.status(400).json({ error: `level must be one of: ${LEVELS.join(', ')}, and only for classic sessions` })
+    }
+
+    const requestedTemplate = req.body?.template ?? null
+    if (requestedTemplate !== null && (mode !== 'classic' || level !== null || !TEMPLATE_IDS.includes(requestedTemplate))) {
+      return res.status(400).json({ error: `template must be one of: ${TEMPLATE_IDS.join(', ')}, only for classic sessions and not with level` })
+    }
+    const template = sessionTemplate(mode, level, requestedTemplate)
+    // A ranked single-level template is entered on the leaderboard under its level, like single-level practice
+    const sessionLevel = requestedTemplate ? templateLevel(requestedTemplate) : level
+
+    const scoring: ScoringRule = req.body?.scoring ?? defaultScoringRule(mode)
+    if (!modeScoringRules(mode).includes(scoring)) {
+      return res.status(400).json({ error: `scoring must be one of: ${modeScoringRules(mode).join(', ')}, for ${mode} sessions` })
+    }
+    if (mode === 'daily' && scoring !== defaultScoringRule(mode)) {
+      return res.status(400).json({ error: 'Daily sessions are scored the same way for every player' })
+    }
+    const date = mode === 'daily' ? dailyDate() : null
+
+    const custom = mode === 'custom' ? parseCustomQuiz(req.body?.custom) : null
+    if (mode === 'custom' && !custom) {
+      return res.status(400).json({
+        error: `custom must list known levels, types and principles, with a count from ${CUSTOM_MIN_QUESTIONS} to ${CUSTOM_MAX_QUESTIONS}`
+      })
+    }
+
+    const requestedSeed = req.body?.seed ?? null
+    if (requestedSeed !== null && (!REPLAYABLE_MODES.includes(mode) || typeof requestedSeed !== 'string' || !SEED_PATTERN.test(requestedSeed))) {
+      return res.status(400).json({ error: 'seed must be up to 64 letters, digits, "_", "-" or ":", and only for classic, blitz and custom sessions' })
+    }
+    if (requestedSeed !== null && isDailySeed(requestedSeed)) {
+      return res.status(400).json({ error: 'Daily challenge seeds can only be played as daily sessions' })
+    }
+    // Adaptive and review sessions are dealt from the player's history, so they have no seed
+    const seed = date ? dailySeed(date) : REPLAYABLE_MODES.includes(mode) ? requestedSeed || newSeed() : null
+
+    const key = mode === 'review' ? playerKey(req.body?.name, req.body?.twitterHandle) : null
+    if (mode === 'review' && !key) {
+      return res.status(400).json({ error: 'Name or Twitter handle required' })
+    }
+
+    // A replay is dealt with the history its seed was first dealt with
+    let seen: SeenQuestions | null = null
+    if (requestedSeed) {
+      seen = await getSeedHistory(requestedSeed)
+      await markSeedReplayed(requestedSeed)
+    } else if (REPLAYABLE_MODES.includes(mode)) {
+      const { name, twitterHandle } = req.body || {}
+      const historyKey = playerKey(
+        typeof name === 'string' ? name : null,
+        typeof twitterHandle === 'string' ? twitterHandle : null
+      )
+      seen = mergeHistories(parseHistory(req.body?.seen), historyKey ? await getPlayerHistory(historyKey) : {})
+    }
+
+    const pool = await getQuestionBank()
+
+    // Fail here rather than mid-session if the stored bank is broken
+    // Other modes draw from the whole bank, so they only need every question to have a difficulty
+    let dealt: DealtQuestion[] = []
+    try {
+      if (custom && seed) {
+        validateQuestions(pool)
+        dealt = dealCustomQuestions(pool, custom, seed, seen || {})
+      } else if (seed && template) {
+        dealt = dealSeededQuestions(pool, seed, SESSION_TEMPLATES[template].stages, seen || {})
+      } else {
+        validateQuestions(pool)
+      }
+    } catch (validationError) {
+      console.error('Question bank failed validation:', validationError)
+      return res.status(500).json({
+        error: 'Invalid question bank',
+        message: validationError instanceof Error ? validationError.message : 'Unknown error'
+      })
+    }
+
+    if (mode === 'adaptive') {
+      // The player isn't known until the session starts, so the first question is picked for an average player
+      const first = await dealAdaptiveQuestion(pool, DEFAULT_SKILL, [])
+      if (!first) {
+        return res.status(500).json({ error: 'Invalid question bank', message: 'The question bank is empty' })
+      }
+      dealt = [first]
+    }
+    if (custom && dealt.length === 0) {
+      return res.status(404).json({ error: 'No questions match this custom quiz' })
+    }
+    if (key) {
+      const dueIds = await getDueQuestionIds(key, REVIEW_SESSION_SIZE)
+      dealt = dueIds
+        .map(id => pool.find(question => question.id === id))
+        .filter((question): question is Question => !!question)
+        .map(question => dealQuestion(question))
+      if (dealt.length === 0) {
+        return res.status(404).json({ error: 'No questions due for review' })
+      }
+    }
+
+    const session = await createSession(dealt, { mode, level: sessionLevel, template, playerKey: key, scoring, dailyDate: date, seed, replay: !!requestedSeed, seen, custom })
+    res.status(201).json(toPublicSession(session))
+  } catch (error) {
+    console.error('Sessions API error:', error)
+    res.status(500).json({
+      error: 'Internal server error',
+      message: error instanceof Error ? error.message : 'Unknown error'
+    })
+  }
+}
@@ -0,0 +1,33 @@
+import type { NextApiRequest, NextApiResponse } from 'next'
+import { getUpload } from '../../../lib/uploads'
+
+/**
+ * Serve an image or font file uploaded on the admin page
+ * Upload names are never reused, so browsers can keep them for good
+ */
+export default async function handler(
+  req: NextApiRequest,
+  res: NextApiResponse
+) {
+  try {
+    if (req.method !== 'GET') {
+      res.setHeader('Allow', ['GET'])
+      return res.status(405).json({ error: 'Method not allowed' })
+    }
+
+    const upload = await getUpload(String(req.query.name))
+    if (!upload) {
+      return res.status(404).json({ error: 'Upload not found' })
+    }
+
+    res.setHeader('Content-Type', upload.contentType)
+    res.setHeader('Cache-Control', 'public, max-age=31536000, immutable')
+    res.status(200).send(upload.data)
+  } catch (error) {
+    console.error('Uploads API error:', error)
+    res.status(500).json({
+      error: 'Internal server error',
+      message: error instanceof Error ? error.message : 'Unknown error'
+    })
+  }
+}
@@ -1,12 +1,23 @@
 import type { NextApiRequest, NextApiResponse } from 'next'
 import { query } from '../../lib/db'
+import { getPlayerRating, playerKey } from '../../lib/ratings'
+import { countDueReviewCards } from '../../lib/reviewCards'
+import type { Principle } from '../../data/quizData'
+import type { SkillEstimate } from '../../lib/skill'
+
+interface PrincipleAccuracy {
+  principle: Principle
+  correct: number
+  total: number
+  accuracy: number
+}
 
 interface UserStats {
   totalSessions: number
   personalBestScore: number
   averageAccuracy: number
   averageTime: number
-  accuracyTrend: { session: number; accuracy: number; date: string }[]
+  accuracyTrend: { session: number; accuracy: number; timestamp: number }[]
   recentSessions: Array<{
     id: string
     score: number
@@ -14,6 +25,36 @@ interface UserStats {
     timeTaken: number
     timestamp: number
   }>
+  principleBreakdown: PrincipleAccuracy[]
+  // Rating from adaptive sessions, null until the player finishes one
+  skill: (SkillEstimate & { sessions: number }) | null
+  // Missed questions due for spaced-repetition review
+  reviewDue: number
+}
+
+// Aggregate individual answers into accuracy per design principle
+// Each answer counts for the share of the question's coins it earned, so a half-right ranking is half correct
+// Principles come from the version of the question that was answered
+function buildPrincipleBreakdown(answers: { credit: number; principles: Principle[] | null }[]): PrincipleAccuracy[] {
+  const totals = new Map<Principle, { correct: number; total: number }>()
+
+  for (const answer of answers) {
+    for (const principle of answer.principles || []) {
+      const current = totals.get(principle) || { correct: 0, total: 0 }
+      current.total += 1
+      current.correct += answer.credit
+      totals.set(principle, current)
+    }
+  }
+
+  return Array.from(totals.entries())
+    .map(([principle, { correct, total }]) => ({
+      principle,
+      correct: Math.round(correct * 100) / 100,
+      total,
+      accuracy: Math.round((correct / total) * 10000) / 100
+    }))
+    .sort((a, b) => b.accuracy - a.accuracy || b.total - a.total)
 }
 
 export default async function handler(
@@ -33,7 +74,7 @@ export default async function handler(
     }
 
     // Build WHERE clause based on identifier
-    let whereClause = ''
+    let identifierColumn = ''
     let params: any[] = []
 
     if (twitterHandle) {
@@ -41,12 +82,18 @@ export default async function handler(
       const handle = (twitterHandle as string).startsWith('@') 
         ? twitterHandle 
         : `@${twitterHandle}`
-      whereClause = 'WHERE twitter_handle = $1'
+      identifierColumn = 'twitter_handle'
       params = [handle]
     } else {
-      whereClause = 'WHERE name = $1'
+      identifierColumn = 'name'
       params = [name]
     }
+    const whereClause = `WHERE ${identifierColumn} = $1`
+
+    // Adaptive and review sessions don't go on the leaderboard, so a player can have these without any sessions below
+    const key = playerKey(name as string | undefined, twitterHandle as string | undefined)
+    const skill = key ? await getPlayerRating(key) : null
+    const reviewDue = key ? await countDueReviewCards(key) : 0
 
     // Get all sessions for this user
     const sessionsSQL = `
@@ -66,7 +113,10 @@ export default async function handler(
         averageAccuracy: 0,
         averageTime: 0,
         accuracyTrend: [],
-        recentSessions: []
+        recentSessions: [],
+        principleBreakdown: [],
+        skill,
+        reviewDue
       })
     }
 
@@ -83,7 +133,7 @@ export default async function handler(
       .map((session, index) => ({
         session: index + 1,
         accuracy: parseFloat(session.accuracy),
-        date: new Date(session.timestamp).toLocaleDateString()
+        timestamp: session.timestamp
       }))
 
     // Recent sessions (last 5)
@@ -95,13 +145,37 @@ export default async function handler(
       timestamp: session.timestamp
     }))
 
+    // Per-principle accuracy from individual answers, across every session the player has answered in
+    // Answers stored before sessions are only linked to their leaderboard entry, so those are matched through it
+    // Each answer has at most one session and one entry, so an answer linked to both is still counted once
+    // Older sessions were stored without answers, so this may cover fewer sessions than the totals
+    // Answers stored before credit was kept count as fully right or wrong
+    let principleBreakdown: PrincipleAccuracy[] = []
+    try {
+      const answersSQL = `
+        SELECT COALESCE(a.credit, CASE WHEN a.is_correct THEN 1 ELSE 0 END) as credit, v.content->'principles' as principles
+        FROM answers a
+        LEFT JOIN quiz_sessions s ON s.id = a.session_id
+        LEFT JOIN leaderboard l ON l.id = a.leaderboard_id
+        LEFT JOIN question_versions v ON v.question_id = a.question_id AND v.version = a.question_version
+        WHERE s.player_key = $1 OR l.${identifierColumn} = $2
+      `
+      const answersResult = await query(answersSQL, [key, ...params])
+      principleBreakdown = buildPrincipleBreakdown(answersResult.rows)
+    } catch (answersError) {
+      console.error('Failed to load answers for principle breakdown:', answersError)
+    }
+
     const stats: UserStats = {
       totalSessions,
       personalBestScore,
       averageAccuracy: Math.round(averageAccuracy * 100) / 100,
       averageTime: Math.round(averageTime),
       accuracyTrend,
-      recentSessions
+      recentSessions,
+      principleBreakdown,
+      skill,
+      reviewDue
     }
 
     res.status(200).json(stats)
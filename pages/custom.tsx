@@ -0,0 +1,263 @@
+import { useState, useEffect } from 'react'
+import Head from 'next/head'
+import Link from 'next/link'
+import LanguageSwitcher from '../components/LanguageSwitcher'
+import type { MessageKey } from '../data/messages'
+import { Principle, PRINCIPLES, Question } from '../data/quizData'
+import {
+  CUSTOM_DEFAULT_QUESTIONS,
+  CUSTOM_LEVELS,
+  CUSTOM_MAX_QUESTIONS,
+  CUSTOM_MIN_QUESTIONS,
+  CUSTOM_TYPES,
+  CustomQuiz,
+  customQuizParams,
+  matchesCustomQuiz,
+} from '../lib/customQuiz'
+import { useTranslation } from '../lib/i18n'
+
+// What the builder knows of each question - enough to count what the filters leave
+type QuestionTags = Pick<Question, 'difficulty' | 'type' | 'principles'>
+
+// Add or remove a value, keeping the list in the order of allowed so the link stays the same
+function toggle<T>(list: T[], value: T, allowed: readonly T[]): T[] {
+  const next = list.includes(value) ? list.filter(item => item !== value) : [...list, value]
+  return allowed.filter(item => next.includes(item))
+}
+
+// A seed for a link that deals everyone the same questions
+function newLinkSeed(): string {
+  return `custom-${Math.random().toString(36).slice(2, 10)}`
+}
+
+export default function CustomQuizBuilder() {
+  const { t, formatNumber } = useTranslation()
+  const [tags, setTags] = useState<QuestionTags[]>([])
+  const [loading, setLoading] = useState(true)
+  const [error, setError] = useState<MessageKey | null>(null)
+  const [levels, setLevels] = useState<Question['difficulty'][]>([])
+  const [types, setTypes] = useState<Question['type'][]>([])
+  const [principles, setPrinciples] = useState<Principle[]>([])
+  const [count, setCount] = useState(CUSTOM_DEFAULT_QUESTIONS)
+  // Set when the link should deal every player the same questions
+  const [seed, setSeed] = useState<string | null>(null)
+  const [copied, setCopied] = useState(false)
+  const [origin, setOrigin] = useState('')
+
+  useEffect(() => {
+    setOrigin(window.location.origin)
+    fetchTags()
+  }, [])
+
+  const fetchTags = async () => {
+    setLoading(true)
+    setError(null)
+    try {
+      const response = await fetch('/api/question-tags')
+      if (!response.ok) {
+        throw new Error(`Failed to fetch question tags: ${response.status} ${response.statusText}`)
+      }
+      setTags(await response.json())
+    } catch (error) {
+      console.error('Error fetching question tags:', error)
+      setError('custom.loadFailed')
+    } finally {
+      setLoading(false)
+    }
+  }
+
+  const quiz: CustomQuiz = { levels, types, principles, count }
+  const matching = tags.filter(question => matchesCustomQuiz(question, quiz)).length
+
+  const params = customQuizParams(quiz)
+  if (seed) params.set('seed', seed)
+  const link = `${origin}/quiz?${params.toString()}`
+
+  // Any change makes a new link, so the copied note goes
+  useEffect(() => {
+    setCopied(false)
+  }, [link])
+
+  const handleCountChange = (value: string) => {
+    const parsed = parseInt(value, 10)
+    if (Number.isNaN(parsed)) return
+    setCount(Math.min(CUSTOM_MAX_QUESTIONS, Math.max(CUSTOM_MIN_QUESTIONS, parsed)))
+  }
+
+  const handleCopy = async () => {
+    try {
+      await navigator.clipboard.writeText(link)
+      setCopied(true)
+    } catch (error) {
+      console.error('Error copying link:', error)
+    }
+  }
+
+  const chipClass = (selected: boolean) =>
+    `px-3 py-1.5 text-xs font-medium rounded-[8px] transition-colors ${
+      selected ? 'bg-gray-900 text-white' : 'bg-gray-100 text-gray-500 hover:bg-gray-200'
+    }`
+
+  return (
+    <>
+      <Head>
+        <title>{t('custom.pageTitle')}</title>
+        <meta name="description" content={t('custom.subtitle')} />
+        <meta name="viewport" content="width=device-width, initial-scale=1" />
+      </Head>
+
+      <main className="min-h-screen bg-white px-6 py-12 md:px-12 md:py-16">
+        <div className="max-w-2xl mx-auto">
+          <div className="flex justify-end mb-4">
+            <LanguageSwitcher />
+          </div>
+
+          {/* Header */}
+          <div className="mb-12 text-center">
+            <h1 className="text-4xl md:text-5xl font-normal text-black mb-4 tracking-tight">
+              {t('custom.title')}
+            </h1>
+            <p className="text-gray-600 text-lg">
+              {t('custom.subtitle')}
+            </p>
+          </div>
+
+          {loading ? (
+            <div className="text-center py-12">
+              <p className="text-gray-500">{t('common.loading')}</p>
+            </div>
+          ) : error ? (
+            <div className="text-center py-12">
+              <p className="text-red-500 mb-4">{t(error)}</p>
+              <button
+                onClick={fetchTags}
+                className="px-6 py-2 bg-black text-white font-medium hover:bg-gray-800 transition-colors rounded-[8px]"
+              >
+                {t('common.retry')}
+              </button>
+            </div>
+          ) : (
+            <div className="space-y-8">
+              {/* Filters - picking none in a group allows all of it */}
+              <p className="text-sm text-gray-500 text-center">{t('custom.anyHint')}</p>
+              <div>
+                <h2 className="text-sm font-medium text-gray-700 mb-3">{t('custom.levels')}</h2>
+                <div className="flex flex-wrap gap-2">
+                  {CUSTOM_LEVELS.map(level => (
+                    <button
+                      key={level}
+                      onClick={() => setLevels(toggle(levels, level, CUSTOM_LEVELS))}
+                      className={chipClass(levels.includes(level))}
+                    >
+                      {t(`level.${level}`)}
+                    </button>
+                  ))}
+                </div>
+              </div>
+              <div>
+                <h2 className="text-sm font-medium text-gray-700 mb-3">{t('custom.types')}</h2>
+                <div className="flex flex-wrap gap-2">
+                  {CUSTOM_TYPES.map(type => (
+                    <button
+                      key={type}
+                      onClick={() => setTypes(toggle(types, type, CUSTOM_TYPES))}
+                      className={chipClass(types.includes(type))}
+                    >
+                      {t(`questionType.${type}`)}
+                    </button>
+                  ))}
+                </div>
+              </div>
+              <div>
+                <h2 className="text-sm font-medium text-gray-700 mb-3">{t('custom.principles')}</h2>
+                <div className="flex flex-wrap gap-2">
+                  {PRINCIPLES.map(principle => (
+                    <button
+                      key={principle}
+                      onClick={() => setPrinciples(toggle(principles, principle, PRINCIPLES))}
+                      className={chipClass(principles.includes(principle))}
+                    >
+                      {t(`principle.${principle}`)}
+                    </button>
+                  ))}
+                </div>
+              </div>
+              <div>
+                <label htmlFor="custom-count" className="block text-sm font-medium text-gray-700 mb-3">
+                  {t('custom.count')}
+                </label>
+                <input
+                  id="custom-count"
+                  type="number"
+                  min={CUSTOM_MIN_QUESTIONS}
+                  max={CUSTOM_MAX_QUESTIONS}
+                  value={count}
+                  onChange={(e) => handleCountChange(e.target.value)}
+                  className="w-24 px-4 py-2 border border-gray-300 focus:outline-none focus:ring-2 focus:ring-gray-900 focus:border-transparent text-gray-900 rounded-[8px]"
+                />
+                <p className={`mt-2 text-sm ${matching < count ? 'text-orange-600' : 'text-gray-500'}`}>
+                  {matching === 0
+                    ? t('custom.noneMatching')
+                    : matching < count
+                    ? t('custom.fewerMatching', { count: formatNumber(matching) })
+                    : t('custom.matching', { count: formatNumber(matching) })}
+                </p>
+              </div>
+              <label className="flex items-center gap-2 text-sm text-gray-700">
+                <input
+                  type="checkbox"
+                  checked={seed !== null}
+                  onChange={(e) => setSeed(e.target.checked ? newLinkSeed() : null)}
+                />
+                {t('custom.sameQuestions')}
+              </label>
+
+              {/* The link carries the whole quiz */}
+              <div className="pt-8 border-t border-gray-200">
+                <label htmlFor="custom-link" className="block text-sm font-medium text-gray-700 mb-3">
+                  {t('custom.link')}
+                </label>
+                <input
+                  id="custom-link"
+                  type="text"
+                  readOnly
+                  value={link}
+                  onFocus={(e) => e.target.select()}
+                  className="w-full px-4 py-2 border border-gray-300 text-gray-600 text-sm rounded-[8px] mb-3"
+                />
+                <div className="flex flex-col sm:flex-row gap-3">
+                  <button
+                    onClick={handleCopy}
+                    disabled={matching === 0}
+                    className="w-full sm:w-1/2 px-6 py-3 bg-gray-100 text-gray-900 font-normal hover:bg-gray-200 transition-colors rounded-[8px] disabled:opacity-50"
+                  >
+                    {copied ? t('custom.copied') : t('custom.copy')}
+                  </button>
+                  <Link
+                    href={`/quiz?${params.toString()}`}
+                    className={`w-full sm:w-1/2 px-6 py-3 bg-black text-white font-normal hover:bg-gray-800 transition-colors rounded-[8px] text-center ${
+                      matching === 0 ? 'pointer-events-none opacity-50' : ''
+                    }`}
+                  >
+                    {t('custom.start')}
+                  </Link>
+                </div>
+                <p className="mt-3 text-xs text-gray-500">{t('custom.offLeaderboard')}</p>
+              </div>
+            </div>
+          )}
+
+          {/* Back to Home */}
+          <div className="mt-12 text-center">
+            <Link
+              href="/"
+              className="inline-block px-8 py-3 bg-gray-100 text-gray-900 font-normal hover:bg-gray-200 transition-colors rounded-[8px]"
+            >
+              {t('common.backToHome')}
+            </Link>
+          </div>
+        </div>
+      </main>
+    </>
+  )
+}
@@ -1,6 +1,8 @@
 import Head from 'next/head'
 import Link from 'next/link'
 import { useState, useEffect } from 'react'
+import LanguageSwitcher from '../components/LanguageSwitcher'
+import { useTranslation } from '../lib/i18n'
 
 // Landing page images only
 const COLLAGE_IMAGES = [
@@ -21,6 +23,7 @@ const PARTNER_LOGOS = [
 ]
 
 export default function Home() {
+  const { t } = useTranslation()
   const [handleIndex, setHandleIndex] = useState(0)
   const [playerHandles, setPlayerHandles] = useState<string[]>([])
   const [loadingHandles, setLoadingHandles] = useState(true)
@@ -69,7 +72,7 @@ export default function Home() {
     <>
       <Head>
         <title>Design Gym</title>
-        <meta name="description" content="Practice platform where designers train their visual judgment" />
+        <meta name="description" content={t('home.metaDescription')} />
         <meta name="viewport" content="width=device-width, initial-scale=1" />
       </Head>
       <main className="h-screen overflow-hidden relative" style={{ backgroundColor: '#FAF9F7', overflowX: 'hidden', overflowY: 'hidden' }}>
@@ -80,11 +83,11 @@ export default function Home() {
             <div className="flex flex-col items-start gap-2">
               <div className="w-full lg:w-[45vw] border-t border-gray-200 mb-2"></div>
               <p className="text-xs md:text-sm text-gray-600 font-medium">
-                110+ designers already training
+                {t('home.designersTraining')}
               </p>
               <div className="relative h-5 w-full max-w-md overflow-hidden">
                 {loadingHandles ? (
-                  <span className="text-xs text-gray-400 font-normal">Loading...</span>
+                  <span className="text-xs text-gray-400 font-normal">{t('common.loading')}</span>
                 ) : playerHandles.length > 0 ? (
                   <div className="absolute inset-0 flex flex-col">
                     {playerHandles.map((handle, index) => (
@@ -101,7 +104,7 @@ export default function Home() {
                     ))}
                   </div>
                 ) : (
-                  <span className="text-xs text-gray-400 font-normal">Be the first to connect your Twitter!</span>
+                  <span className="text-xs text-gray-400 font-normal">{t('home.firstToConnect')}</span>
                 )}
               </div>
             </div>
@@ -111,9 +114,11 @@ export default function Home() {
             <div className="flex-1 flex items-center min-h-0 relative">
               {/* Hero Content - Left Side - Aligned to left edge */}
               <div className="flex flex-col justify-center relative min-h-0 w-full lg:w-1/2 lg:max-w-[50%]">
+                <LanguageSwitcher className="mb-4 md:mb-6 -ml-2" />
+
                 {/* Eyebrow Text - Top Left - Inside left column for perfect alignment */}
                 <p className="text-xs md:text-sm font-medium text-gray-500 tracking-wide uppercase mb-6 md:mb-8">
-                  Trusted design practice, Worldwide
+                  {t('home.eyebrow')}
                 </p>
                 
                 {/* Main Headline */}
@@ -123,11 +128,11 @@ export default function Home() {
 
                 {/* Supporting Paragraph */}
                 <p className="text-sm md:text-base text-gray-600 leading-relaxed mb-6 md:mb-8 max-w-xl">
-                  Experience a hassle-free, seamless practice with efficient, professional design training tailored to your needs.
+                  {t('home.tagline')}
                 </p>
 
                 {/* CTA Row */}
-                <div className="flex flex-col sm:flex-row gap-3 mb-12 md:mb-16">
+                <div className="flex flex-col sm:flex-row gap-3 mb-4">
                   <Link
                     href="/quiz"
                     className="inline-flex items-center justify-center gap-2 px-8 py-3 bg-black text-white font-normal hover:bg-gray-800 transition-colors rounded-[8px]"
@@ -152,15 +157,50 @@ export default function Home() {
                         d="M21 12a9 9 0 11-18 0 9 9 0 0118 0z" 
                       />
                     </svg>
-                    Start Training
+                    {t('common.startTraining')}
                   </Link>
                   <Link
                     href="/leaderboard"
                     className="inline-flex items-center justify-center px-8 py-3 bg-white text-black font-normal hover:bg-gray-50 transition-colors rounded-[8px] border border-gray-200"
                   >
-                    View Leaderboard
+                    {t('common.viewLeaderboard')}
                   </Link>
                 </div>
+
+                {/* Other ways to train */}
+                <div className="space-y-2 text-sm text-gray-600 mb-12 md:mb-16">
+                  <div className="flex flex-wrap gap-x-4 gap-y-2">
+                    <span>{t('home.moreModes')}</span>
+                    <Link href="/quiz?mode=adaptive" className="underline hover:text-gray-900">
+                      {t('skill.rateMySkill')}
+                    </Link>
+                    <Link href="/quiz?mode=blitz" className="underline hover:text-gray-900">
+                      {t('blitz.title')}
+                    </Link>
+                    <Link href="/quiz?mode=daily" className="underline hover:text-gray-900">
+                      {t('daily.title')}
+                    </Link>
+                    <Link href="/custom" className="underline hover:text-gray-900">
+                      {t('custom.title')}
+                    </Link>
+                  </div>
+                  <div className="flex flex-wrap gap-x-4 gap-y-2">
+                    <span>{t('home.practiceLevel')}</span>
+                    {(['beginner', 'mid', 'expert'] as const).map(level => (
+                      <Link key={level} href={`/quiz?level=${level}`} className="underline hover:text-gray-900">
+                        {t(`level.${level}`)}
+                      </Link>
+                    ))}
+                  </div>
+                  <div className="flex flex-wrap gap-x-4 gap-y-2">
+                    <span>{t('home.otherScoring')}</span>
+                    {(['streak', 'negative'] as const).map(rule => (
+                      <Link key={rule} href={`/quiz?scoring=${rule}`} className="underline hover:text-gray-900">
+                        {t(`scoring.${rule}`)}
+                      </Link>
+                    ))}
+                  </div>
+                </div>
               </div>
             </div>
           </div>
@@ -185,7 +225,7 @@ export default function Home() {
                       >
                         <img
                           src={src}
-                          alt={`Design training example ${index + 1}`}
+                          alt={t('home.imageAlt', { number: index + 1 })}
                           className="w-full h-full object-cover"
                         />
                       </div>
@@ -200,7 +240,7 @@ export default function Home() {
           <div className="hidden sm:block absolute bottom-0 right-4 md:right-8 lg:right-12 xl:right-16 pb-8 md:pb-12 lg:pb-16 z-30">
             <div className="bg-white/95 backdrop-blur-md px-4 py-2.5 rounded-[8px] border border-gray-300/50 shadow-md hover:shadow-lg transition-all duration-200">
               <p className="text-xs text-gray-800 font-medium tracking-wide">
-                <span className="text-gray-500">Vibe coded by</span>{' '}
+                <span className="text-gray-500">{t('home.credit')}</span>{' '}
                 <span className="text-black font-semibold">Quadri Morin</span>
               </p>
             </div>
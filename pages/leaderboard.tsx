@@ -1,6 +1,10 @@
 import { useState, useEffect } from 'react'
 import Head from 'next/head'
 import Link from 'next/link'
+import LanguageSwitcher from '../components/LanguageSwitcher'
+import type { MessageKey } from '../data/messages'
+import { useTranslation } from '../lib/i18n'
+import { defaultScoringRule, modeScoringRules, ScoringRule } from '../lib/scoring'
 
 interface LeaderboardEntry {
   id: string
@@ -9,29 +13,87 @@ interface LeaderboardEntry {
   accuracy: number
   timeTaken: number
   level: 'beginner' | 'mid' | 'expert' | 'all'
+  mode: 'classic' | 'blitz' | 'daily'
+  scoring: ScoringRule
+  dailyDate: string | null
   timestamp: number
   twitterHandle?: string | null
 }
 
+// Full sessions across every level, then one tab per single-level practice pool, then blitz sessions and the daily challenge
+const TABS = ['global', 'beginner', 'mid', 'expert', 'blitz', 'daily'] as const
+
+type LeaderboardTab = typeof TABS[number]
+
+// Tabs for a mode rather than a level
+function isModeTab(tab: LeaderboardTab): tab is 'blitz' | 'daily' {
+  return tab === 'blitz' || tab === 'daily'
+}
+
+// Each tab ranks its mode's default rule set unless another is picked
+function tabScoring(tab: LeaderboardTab): ScoringRule {
+  return defaultScoringRule(isModeTab(tab) ? tab : 'classic')
+}
+
+// Rule sets the tab's sessions can be scored with
+function tabScoringRules(tab: LeaderboardTab): ScoringRule[] {
+  return modeScoringRules(isModeTab(tab) ? tab : 'classic')
+}
+
+// The daily tab shows today's challenge unless given a date
+function tabQuery(tab: LeaderboardTab, scoring: ScoringRule, date: string | null = null): string {
+  const query = isModeTab(tab) ? `mode=${tab}` : `level=${tab}`
+  if (tab === 'daily') return date ? `${query}&date=${date}` : query
+  return scoring === tabScoring(tab) ? query : `${query}&scoring=${scoring}`
+}
+
 export default function Leaderboard() {
+  const { t, formatNumber, formatPercent } = useTranslation()
   const [entries, setEntries] = useState<LeaderboardEntry[]>([])
   const [loading, setLoading] = useState(true)
   const [currentUserId, setCurrentUserId] = useState<string | null>(null)
-  const [error, setError] = useState<string | null>(null)
+  const [error, setError] = useState<MessageKey | null>(null)
+  const [tab, setTab] = useState<LeaderboardTab>('global')
+  const [scoring, setScoring] = useState<ScoringRule>('classic')
+  // Daily tab: the challenge's date from ?date=, or today's
+  const [date, setDate] = useState<string | null>(null)
 
   useEffect(() => {
     // Get current user ID from sessionStorage if available
     const userId = typeof window !== 'undefined' ? sessionStorage.getItem('lastLeaderboardEntryId') : null
     setCurrentUserId(userId)
     
-    fetchLeaderboard()
+    // ?level=mid opens that level's tab, e.g. after a single-level practice session, and ?mode=blitz or ?mode=daily that mode's tab
+    const params = new URLSearchParams(window.location.search)
+    const requested = params.get('mode') || params.get('level')
+    const initialTab = TABS.find(candidate => candidate === requested) || 'global'
+    // ?scoring=streak ranks that rule set's scores instead
+    const initialScoring = tabScoringRules(initialTab).find(rule => rule === params.get('scoring')) || tabScoring(initialTab)
+    const initialDate = params.get('date')
+    setTab(initialTab)
+    setScoring(initialScoring)
+    setDate(initialDate)
+    fetchLeaderboard(initialTab, initialScoring, initialDate)
   }, [])
 
-  const fetchLeaderboard = async () => {
+  const showRanking = (nextTab: LeaderboardTab, nextScoring: ScoringRule) => {
+    setTab(nextTab)
+    setScoring(nextScoring)
+    const query = tabQuery(nextTab, nextScoring, date)
+    window.history.replaceState(null, '', query === 'level=global' ? '/leaderboard' : `/leaderboard?${query}`)
+    fetchLeaderboard(nextTab, nextScoring, date)
+  }
+
+  // Switching tabs goes back to the new tab's default rule set
+  const handleTabChange = (next: LeaderboardTab) => showRanking(next, tabScoring(next))
+
+  const handleScoringChange = (next: ScoringRule) => showRanking(tab, next)
+
+  const fetchLeaderboard = async (level: LeaderboardTab = tab, rule: ScoringRule = scoring, day: string | null = date) => {
     setLoading(true)
     setError(null)
     try {
-      const response = await fetch(`/api/leaderboard?level=global`)
+      const response = await fetch(`/api/leaderboard?${tabQuery(level, rule, day)}`)
       
       if (!response.ok) {
         throw new Error(`Failed to fetch leaderboard: ${response.status} ${response.statusText}`)
@@ -41,7 +103,7 @@ export default function Leaderboard() {
       setEntries(data)
     } catch (error) {
       console.error('Error fetching leaderboard:', error)
-      setError(error instanceof Error ? error.message : 'Failed to load leaderboard')
+      setError('leaderboard.loadFailed')
       setEntries([])
     } finally {
       setLoading(false)
@@ -64,46 +126,86 @@ export default function Leaderboard() {
   return (
     <>
       <Head>
-        <title>Leaderboard - Design Gym</title>
+        <title>{t('leaderboard.pageTitle')}</title>
         <meta name="description" content="Design Gym Leaderboard" />
         <meta name="viewport" content="width=device-width, initial-scale=1" />
       </Head>
 
       <main className="min-h-screen bg-white px-6 py-12 md:px-12 md:py-16">
         <div className="max-w-4xl mx-auto">
+          <div className="flex justify-end mb-4">
+            <LanguageSwitcher />
+          </div>
+
           {/* Header */}
           <div className="mb-12 text-center">
             <h1 className="text-4xl md:text-5xl font-normal text-black mb-4 tracking-tight">
-              Leaderboard
+              {t('leaderboard.title')}
             </h1>
             <p className="text-gray-600 text-lg">
-              See how you stack up against other designers
+              {t('leaderboard.subtitle')}
             </p>
           </div>
 
+          {/* Level Tabs */}
+          <div className="flex flex-wrap justify-center gap-2 mb-4">
+            {TABS.map(candidate => (
+              <button
+                key={candidate}
+                onClick={() => handleTabChange(candidate)}
+                className={`px-4 py-2 text-sm font-medium rounded-[8px] transition-colors ${
+                  tab === candidate
+                    ? 'bg-gray-900 text-white'
+                    : 'bg-gray-100 text-gray-500 hover:bg-gray-200'
+                }`}
+              >
+                {candidate === 'global' || isModeTab(candidate) ? t(`leaderboard.${candidate}`) : t(`level.${candidate}`)}
+              </button>
+            ))}
+          </div>
+
+          {/* Scoring rule sets - scores are only ranked against the same rule set */}
+          {/* The daily challenge is scored the same way for everyone */}
+          <div className={`flex flex-wrap justify-center items-center gap-2 mb-8 text-sm ${tab === 'daily' ? 'invisible' : ''}`}>
+            <span className="text-gray-500">{t('leaderboard.scoring')}</span>
+            {tabScoringRules(tab).map(rule => (
+              <button
+                key={rule}
+                onClick={() => handleScoringChange(rule)}
+                className={`px-3 py-1.5 text-xs font-medium rounded-[8px] transition-colors ${
+                  scoring === rule
+                    ? 'bg-gray-900 text-white'
+                    : 'bg-gray-100 text-gray-400 hover:bg-gray-200'
+                }`}
+              >
+                {t(`scoring.${rule}`)}
+              </button>
+            ))}
+          </div>
+
           {/* Leaderboard Table */}
           {loading ? (
             <div className="text-center py-12">
-              <p className="text-gray-500">Loading leaderboard...</p>
+              <p className="text-gray-500">{t('leaderboard.loading')}</p>
             </div>
           ) : error ? (
             <div className="text-center py-12">
-              <p className="text-red-500 mb-4">{error}</p>
+              <p className="text-red-500 mb-4">{t(error)}</p>
               <button
-                onClick={fetchLeaderboard}
+                onClick={() => fetchLeaderboard()}
                 className="px-6 py-2 bg-black text-white font-medium hover:bg-gray-800 transition-colors rounded-[8px]"
               >
-                Retry
+                {t('common.retry')}
               </button>
             </div>
           ) : entries.length === 0 ? (
             <div className="text-center py-12">
-              <p className="text-gray-500 mb-4">No entries yet. Be the first!</p>
+              <p className="text-gray-500 mb-4">{t('leaderboard.empty')}</p>
               <Link
-                href="/quiz"
+                href={tabQuery(tab, scoring) === 'level=global' ? '/quiz' : `/quiz?${tabQuery(tab, scoring)}`}
                 className="inline-block px-8 py-3 bg-black text-white font-normal hover:bg-gray-800 transition-colors rounded-[8px]"
               >
-                Start Training
+                {t('common.startTraining')}
               </Link>
             </div>
           ) : (
@@ -112,11 +214,11 @@ export default function Leaderboard() {
                 <table className="w-full">
                   <thead className="bg-gray-50">
                     <tr>
-                      <th className="px-6 py-4 text-left text-sm font-semibold text-gray-700">Rank</th>
-                      <th className="px-6 py-4 text-left text-sm font-semibold text-gray-700">Name</th>
-                      <th className="px-6 py-4 text-right text-sm font-semibold text-gray-700">Score</th>
-                      <th className="px-6 py-4 text-right text-sm font-semibold text-gray-700">Accuracy</th>
-                      <th className="px-6 py-4 text-right text-sm font-semibold text-gray-700">Time</th>
+                      <th className="px-6 py-4 text-left text-sm font-semibold text-gray-700">{t('table.rank')}</th>
+                      <th className="px-6 py-4 text-left text-sm font-semibold text-gray-700">{t('table.name')}</th>
+                      <th className="px-6 py-4 text-right text-sm font-semibold text-gray-700">{t('table.score')}</th>
+                      <th className="px-6 py-4 text-right text-sm font-semibold text-gray-700">{t('table.accuracy')}</th>
+                      <th className="px-6 py-4 text-right text-sm font-semibold text-gray-700">{t('table.time')}</th>
                     </tr>
                   </thead>
                   <tbody className="divide-y divide-gray-100">
@@ -165,13 +267,13 @@ export default function Leaderboard() {
                               )}
                               {isCurrentUser && (
                                 <span className="text-xs px-2 py-0.5 bg-yellow-400 text-yellow-900 rounded-full font-medium">
-                                  You
+                                  {t('leaderboard.you')}
                                 </span>
                               )}
                             </div>
                           </td>
                           <td className="px-6 py-4 text-right font-semibold text-gray-900">
-                            {entry.score.toLocaleString()}
+                            {formatNumber(entry.score)}
                           </td>
                           <td className="px-6 py-4 text-right">
                             <span className={`font-medium ${
@@ -179,7 +281,7 @@ export default function Leaderboard() {
                               entry.accuracy >= 50 ? 'text-orange-600' :
                               'text-red-600'
                             }`}>
-                              {entry.accuracy}%
+                              {formatPercent(entry.accuracy)}
                             </span>
                           </td>
                           <td className="px-6 py-4 text-right text-gray-600">
@@ -200,7 +302,7 @@ export default function Leaderboard() {
               href="/"
               className="inline-block px-8 py-3 bg-gray-100 text-gray-900 font-normal hover:bg-gray-200 transition-colors rounded-[8px]"
             >
-              Back to Home
+              {t('common.backToHome')}
             </Link>
           </div>
         </div>
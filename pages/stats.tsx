@@ -1,13 +1,18 @@
 import { useState, useEffect } from 'react'
 import Head from 'next/head'
 import Link from 'next/link'
+import LanguageSwitcher from '../components/LanguageSwitcher'
+import type { MessageKey } from '../data/messages'
+import type { Principle } from '../data/quizData'
+import { useTranslation } from '../lib/i18n'
+import { SkillEstimate, skillLevel, toSkillMargin, toSkillScore } from '../lib/skill'
 
 interface UserStats {
   totalSessions: number
   personalBestScore: number
   averageAccuracy: number
   averageTime: number
-  accuracyTrend: { session: number; accuracy: number; date: string }[]
+  accuracyTrend: { session: number; accuracy: number; timestamp: number }[]
   recentSessions: Array<{
     id: string
     score: number
@@ -15,13 +20,27 @@ interface UserStats {
     timeTaken: number
     timestamp: number
   }>
+  principleBreakdown: Array<{
+    principle: Principle
+    correct: number
+    total: number
+    accuracy: number
+  }>
+  skill: (SkillEstimate & { sessions: number }) | null
+  reviewDue: number
 }
 
+// Accuracy at or above this counts as a strength, below it as something to practise
+const STRENGTH_THRESHOLD = 70
+
 export default function Stats() {
+  const { t, formatNumber, formatPercent, formatDate } = useTranslation()
   const [stats, setStats] = useState<UserStats | null>(null)
   const [loading, setLoading] = useState(true)
-  const [error, setError] = useState<string | null>(null)
+  const [error, setError] = useState<MessageKey | null>(null)
   const [userIdentifier, setUserIdentifier] = useState<string>('')
+  // The player as /quiz takes them, for the review link
+  const [playerParams, setPlayerParams] = useState('')
 
   useEffect(() => {
     // Get user identifier from URL params or sessionStorage
@@ -42,7 +61,7 @@ export default function Stats() {
       // Try to get name from last entry
       fetchLastEntryName(lastEntryId)
     } else {
-      setError('No user identifier found. Please provide ?name=YourName or ?twitter=YourHandle')
+      setError('stats.noIdentifier')
       setLoading(false)
     }
   }, [])
@@ -57,12 +76,12 @@ export default function Stats() {
           setUserIdentifier(entry.name)
           fetchStats(entry.name, null)
         } else {
-          setError('Could not find your stats. Please provide ?name=YourName')
+          setError('stats.notFound')
           setLoading(false)
         }
       }
     } catch (error) {
-      setError('Failed to load stats')
+      setError('stats.loadFailed')
       setLoading(false)
     }
   }
@@ -74,6 +93,7 @@ export default function Stats() {
       const params = new URLSearchParams()
       if (name) params.set('name', name)
       if (twitterHandle) params.set('twitterHandle', twitterHandle)
+      setPlayerParams(name ? `name=${encodeURIComponent(name)}` : `twitter=${encodeURIComponent(twitterHandle || '')}`)
       
       const response = await fetch(`/api/user-stats?${params.toString()}`)
       
@@ -85,7 +105,7 @@ export default function Stats() {
       setStats(data)
     } catch (error) {
       console.error('Error fetching stats:', error)
-      setError(error instanceof Error ? error.message : 'Failed to load stats')
+      setError('stats.loadFailed')
     } finally {
       setLoading(false)
     }
@@ -102,10 +122,10 @@ export default function Stats() {
     return (
       <>
         <Head>
-          <title>Your Progress - Design Gym</title>
+          <title>{t('stats.pageTitle')}</title>
         </Head>
         <main className="min-h-screen bg-white flex items-center justify-center">
-          <p className="text-gray-500">Loading your stats...</p>
+          <p className="text-gray-500">{t('stats.loading')}</p>
         </main>
       </>
     )
@@ -115,20 +135,20 @@ export default function Stats() {
     return (
       <>
         <Head>
-          <title>Stats - Design Gym</title>
+          <title>{t('stats.errorPageTitle')}</title>
         </Head>
         <main className="min-h-screen bg-white px-6 py-12 md:px-12 md:py-16">
           <div className="max-w-4xl mx-auto text-center">
-            <h1 className="text-4xl font-bold text-black mb-4">Stats</h1>
-            <p className="text-red-500 mb-6">{error || 'No stats found'}</p>
+            <h1 className="text-4xl font-bold text-black mb-4">{t('stats.errorTitle')}</h1>
+            <p className="text-red-500 mb-6">{t(error || 'stats.noStats')}</p>
             <p className="text-gray-600 mb-6">
-              View stats by visiting: <code className="bg-gray-100 px-2 py-1 rounded">/stats?name=YourName</code>
+              {t('stats.viewBy')} <code className="bg-gray-100 px-2 py-1 rounded">/stats?name=YourName</code>
             </p>
             <Link
               href="/"
               className="inline-block px-6 py-3 bg-black text-white font-medium hover:bg-gray-800 transition-colors rounded-[8px]"
             >
-              Back to Home
+              {t('common.backToHome')}
             </Link>
           </div>
         </main>
@@ -136,62 +156,172 @@ export default function Stats() {
     )
   }
 
+  const strengths = stats.principleBreakdown.filter(p => p.accuracy >= STRENGTH_THRESHOLD)
+  // Weakest first so the top of the list is what to practise next
+  const weaknesses = stats.principleBreakdown
+    .filter(p => p.accuracy < STRENGTH_THRESHOLD)
+    .reverse()
+
   return (
     <>
       <Head>
-        <title>Your Progress - Design Gym</title>
+        <title>{t('stats.pageTitle')}</title>
       </Head>
       <main className="min-h-screen bg-white px-6 py-12 md:px-12 md:py-16">
         <div className="max-w-4xl mx-auto">
           {/* Header */}
-          <div className="mb-12">
-            <h1 className="text-4xl md:text-5xl font-normal text-black mb-2 tracking-tight">
-              Your Progress
-            </h1>
-            <p className="text-gray-600 text-lg">
-              Track your improvement over time
-            </p>
+          <div className="mb-12 flex items-start justify-between gap-4">
+            <div>
+              <h1 className="text-4xl md:text-5xl font-normal text-black mb-2 tracking-tight">
+                {t('stats.title')}
+              </h1>
+              <p className="text-gray-600 text-lg">
+                {t('stats.subtitle')}
+              </p>
+            </div>
+            <LanguageSwitcher />
           </div>
 
           {/* Key Stats Grid */}
           <div className="grid grid-cols-1 md:grid-cols-4 gap-4 mb-12">
             <div className="bg-gray-50 rounded-[2rem] p-6 border border-gray-200">
-              <p className="text-sm text-gray-600 mb-1">Total Sessions</p>
-              <p className="text-3xl font-bold text-black">{stats.totalSessions}</p>
+              <p className="text-sm text-gray-600 mb-1">{t('stats.totalSessions')}</p>
+              <p className="text-3xl font-bold text-black">{formatNumber(stats.totalSessions)}</p>
             </div>
             <div className="bg-gray-50 rounded-[2rem] p-6 border border-gray-200">
-              <p className="text-sm text-gray-600 mb-1">Personal Best</p>
-              <p className="text-3xl font-bold text-black">{stats.personalBestScore.toLocaleString()}</p>
+              <p className="text-sm text-gray-600 mb-1">{t('stats.personalBest')}</p>
+              <p className="text-3xl font-bold text-black">{formatNumber(stats.personalBestScore)}</p>
             </div>
             <div className="bg-gray-50 rounded-[2rem] p-6 border border-gray-200">
-              <p className="text-sm text-gray-600 mb-1">Avg Accuracy</p>
-              <p className="text-3xl font-bold text-black">{stats.averageAccuracy.toFixed(1)}%</p>
+              <p className="text-sm text-gray-600 mb-1">{t('stats.avgAccuracy')}</p>
+              <p className="text-3xl font-bold text-black">{formatPercent(stats.averageAccuracy, 1)}</p>
             </div>
             <div className="bg-gray-50 rounded-[2rem] p-6 border border-gray-200">
-              <p className="text-sm text-gray-600 mb-1">Avg Time</p>
+              <p className="text-sm text-gray-600 mb-1">{t('stats.avgTime')}</p>
               <p className="text-3xl font-bold text-black">{formatTime(stats.averageTime)}</p>
             </div>
           </div>
 
+          {/* Skill Rating from adaptive sessions */}
+          <div className="mb-12">
+            <h2 className="text-2xl font-normal text-black mb-6">{t('skill.title')}</h2>
+            <div className="bg-white border border-gray-200 rounded-[2rem] p-6">
+              {stats.skill ? (
+                <div className="flex flex-col sm:flex-row sm:items-end gap-2 sm:gap-6">
+                  <p className="text-5xl font-bold text-black">{formatNumber(toSkillScore(stats.skill.rating))}</p>
+                  <div>
+                    <p className="text-sm text-gray-700">
+                      {t('skill.detail', {
+                        level: t(`level.${skillLevel(stats.skill.rating)}`),
+                        margin: formatNumber(toSkillMargin(stats.skill.uncertainty)),
+                      })}
+                    </p>
+                    <p className="text-xs text-gray-500">{t('skill.sessions', { count: formatNumber(stats.skill.sessions) })}</p>
+                  </div>
+                </div>
+              ) : (
+                <div className="flex flex-col sm:flex-row sm:items-center justify-between gap-4">
+                  <p className="text-sm text-gray-500">{t('skill.none')}</p>
+                  <Link
+                    href="/quiz?mode=adaptive"
+                    className="px-6 py-2 bg-black text-white font-normal hover:bg-gray-800 transition-colors rounded-[8px] text-center text-sm"
+                  >
+                    {t('skill.rateMySkill')}
+                  </Link>
+                </div>
+              )}
+            </div>
+          </div>
+
+          {/* Spaced-repetition review of missed questions */}
+          <div className="mb-12">
+            <h2 className="text-2xl font-normal text-black mb-6">{t('review.title')}</h2>
+            <div className="bg-white border border-gray-200 rounded-[2rem] p-6 flex flex-col sm:flex-row sm:items-center justify-between gap-4">
+              <p className="text-sm text-gray-700">
+                {stats.reviewDue > 0 ? t('review.due', { count: formatNumber(stats.reviewDue) }) : t('review.nothingDue')}
+              </p>
+              {stats.reviewDue > 0 && (
+                <Link
+                  href={`/quiz?mode=review&${playerParams}`}
+                  className="px-6 py-2 bg-black text-white font-normal hover:bg-gray-800 transition-colors rounded-[8px] text-center text-sm whitespace-nowrap"
+                >
+                  {t('review.start')}
+                </Link>
+              )}
+            </div>
+          </div>
+
+          {/* Strengths & Weaknesses by Principle */}
+          {stats.principleBreakdown.length > 0 && (
+            <div className="mb-12">
+              <h2 className="text-2xl font-normal text-black mb-6">{t('stats.strengthsAndWeaknesses')}</h2>
+              <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+                <div className="bg-white border border-gray-200 rounded-[2rem] p-6">
+                  <p className="text-sm font-semibold text-green-700 mb-4">{t('stats.strengths')}</p>
+                  {strengths.length === 0 ? (
+                    <p className="text-sm text-gray-500">{t('stats.noStrengths', { threshold: formatPercent(STRENGTH_THRESHOLD) })}</p>
+                  ) : (
+                    <div className="space-y-3">
+                      {strengths.map((p) => (
+                        <div key={p.principle} className="flex items-center gap-4">
+                          <div className="w-28 text-sm text-gray-700">{t(`principle.${p.principle}`)}</div>
+                          <div className="flex-1 bg-gray-100 rounded-full h-4 overflow-hidden">
+                            <div className="h-full bg-green-500" style={{ width: `${p.accuracy}%` }} />
+                          </div>
+                          <div className="w-24 text-xs text-gray-500 text-right">
+                            {formatPercent(p.accuracy)} ({p.correct}/{p.total})
+                          </div>
+                        </div>
+                      ))}
+                    </div>
+                  )}
+                </div>
+                <div className="bg-white border border-gray-200 rounded-[2rem] p-6">
+                  <p className="text-sm font-semibold text-red-700 mb-4">{t('stats.practiseNext')}</p>
+                  {weaknesses.length === 0 ? (
+                    <p className="text-sm text-gray-500">{t('stats.noWeaknesses', { threshold: formatPercent(STRENGTH_THRESHOLD) })}</p>
+                  ) : (
+                    <div className="space-y-3">
+                      {weaknesses.map((p) => (
+                        <div key={p.principle} className="flex items-center gap-4">
+                          <div className="w-28 text-sm text-gray-700">{t(`principle.${p.principle}`)}</div>
+                          <div className="flex-1 bg-gray-100 rounded-full h-4 overflow-hidden">
+                            <div
+                              className={`h-full ${p.accuracy >= 50 ? 'bg-orange-500' : 'bg-red-500'}`}
+                              style={{ width: `${p.accuracy}%` }}
+                            />
+                          </div>
+                          <div className="w-24 text-xs text-gray-500 text-right">
+                            {formatPercent(p.accuracy)} ({p.correct}/{p.total})
+                          </div>
+                        </div>
+                      ))}
+                    </div>
+                  )}
+                </div>
+              </div>
+            </div>
+          )}
+
           {/* Accuracy Trend */}
           {stats.accuracyTrend.length > 0 && (
             <div className="mb-12">
-              <h2 className="text-2xl font-normal text-black mb-6">Accuracy Trend (Last 10 Sessions)</h2>
+              <h2 className="text-2xl font-normal text-black mb-6">{t('stats.accuracyTrend')}</h2>
               <div className="bg-white border border-gray-200 rounded-[2rem] p-6">
                 <div className="space-y-3">
                   {stats.accuracyTrend.map((point, index) => (
                     <div key={index} className="flex items-center gap-4">
-                      <div className="w-20 text-sm text-gray-600">Session {point.session}</div>
+                      <div className="w-20 text-sm text-gray-600">{t('stats.session', { number: point.session })}</div>
                       <div className="flex-1 bg-gray-100 rounded-full h-6 relative overflow-hidden">
                         <div
                           className="h-full bg-black transition-all duration-500"
                           style={{ width: `${point.accuracy}%` }}
                         />
                         <span className="absolute inset-0 flex items-center justify-center text-xs font-medium text-gray-900">
-                          {point.accuracy.toFixed(1)}%
+                          {formatPercent(point.accuracy, 1)}
                         </span>
                       </div>
-                      <div className="w-24 text-xs text-gray-500 text-right">{point.date}</div>
+                      <div className="w-24 text-xs text-gray-500 text-right">{formatDate(point.timestamp)}</div>
                     </div>
                   ))}
                 </div>
@@ -202,26 +332,26 @@ export default function Stats() {
           {/* Recent Sessions */}
           {stats.recentSessions.length > 0 && (
             <div className="mb-12">
-              <h2 className="text-2xl font-normal text-black mb-6">Recent Sessions</h2>
+              <h2 className="text-2xl font-normal text-black mb-6">{t('stats.recentSessions')}</h2>
               <div className="bg-white border border-gray-200 rounded-[2rem] overflow-hidden">
                 <div className="overflow-x-auto">
                   <table className="w-full">
                     <thead className="bg-gray-50">
                       <tr>
-                        <th className="px-6 py-4 text-left text-sm font-semibold text-gray-700">Date</th>
-                        <th className="px-6 py-4 text-right text-sm font-semibold text-gray-700">Score</th>
-                        <th className="px-6 py-4 text-right text-sm font-semibold text-gray-700">Accuracy</th>
-                      <th className="px-6 py-4 text-right text-sm font-semibold text-gray-700">Time</th>
+                        <th className="px-6 py-4 text-left text-sm font-semibold text-gray-700">{t('table.date')}</th>
+                        <th className="px-6 py-4 text-right text-sm font-semibold text-gray-700">{t('table.score')}</th>
+                        <th className="px-6 py-4 text-right text-sm font-semibold text-gray-700">{t('table.accuracy')}</th>
+                      <th className="px-6 py-4 text-right text-sm font-semibold text-gray-700">{t('table.time')}</th>
                     </tr>
                     </thead>
                     <tbody className="divide-y divide-gray-100">
                       {stats.recentSessions.map((session) => (
                         <tr key={session.id} className="hover:bg-gray-50">
                           <td className="px-6 py-4 text-sm text-gray-600">
-                            {new Date(session.timestamp).toLocaleDateString()}
+                            {formatDate(session.timestamp)}
                           </td>
                           <td className="px-6 py-4 text-right font-semibold text-gray-900">
-                            {session.score.toLocaleString()}
+                            {formatNumber(session.score)}
                           </td>
                           <td className="px-6 py-4 text-right">
                             <span className={`text-sm font-medium ${
@@ -229,7 +359,7 @@ export default function Stats() {
                               session.accuracy >= 50 ? 'text-orange-600' :
                               'text-red-600'
                             }`}>
-                              {session.accuracy.toFixed(1)}%
+                              {formatPercent(session.accuracy, 1)}
                             </span>
                           </td>
                           <td className="px-6 py-4 text-right text-sm text-gray-600">
@@ -250,19 +380,19 @@ export default function Stats() {
               href="/quiz"
               className="px-8 py-3 bg-black text-white font-normal hover:bg-gray-800 transition-colors rounded-[8px] text-center"
             >
-              Practice Again
+              {t('stats.practiceAgain')}
             </Link>
             <Link
               href="/leaderboard"
               className="px-8 py-3 bg-gray-100 text-gray-900 font-normal hover:bg-gray-200 transition-colors rounded-[8px] text-center"
             >
-              View Leaderboard
+              {t('common.viewLeaderboard')}
             </Link>
             <Link
               href="/"
               className="px-8 py-3 bg-gray-100 text-gray-900 font-normal hover:bg-gray-200 transition-colors rounded-[8px] text-center"
             >
-              Back to Home
+              {t('common.backToHome')}
             </Link>
           </div>
         </div>